@@ -6,7 +6,9 @@ const nextConfig = {
     ignoreBuildErrors: true,
   },
   experimental: {
-    serverComponentsExternalPackages: ['playwright']
+    serverComponentsExternalPackages: ['playwright', 'better-sqlite3'],
+    // src/instrumentation.ts starts the background scheduler
+    instrumentationHook: true
   }
 }
 
@@ -0,0 +1,39 @@
+import { createApiKey, listApiKeys, revokeApiKey } from '../src/lib/publicApi';
+import { getStorage } from '../src/lib/storage';
+
+// Keys of the public API (/api/v1). The key is printed once, only its hash is stored.
+// Usage:
+//   npx tsx scripts/api-keys.ts create "<name>"
+//   npx tsx scripts/api-keys.ts list
+//   npx tsx scripts/api-keys.ts revoke <id>
+
+function main() {
+    const [command, arg] = process.argv.slice(2);
+
+    try {
+        if (command === 'create' && arg) {
+            const { key, record } = createApiKey(arg);
+            console.log(`Created key ${record.id} (${record.name}):\n\n  ${key}\n\nStore it now - it cannot be shown again.`);
+        } else if (command === 'list') {
+            const keys = listApiKeys();
+            if (keys.length === 0) console.log('No API keys.');
+            for (const key of keys) {
+                console.log(`${key.id}  ${key.prefix}…  ${key.name}  created ${key.createdAt}  last used ${key.lastUsedAt || 'never'}`);
+            }
+        } else if (command === 'revoke' && arg) {
+            if (!revokeApiKey(arg)) {
+                console.error(`No API key with ID ${arg}`);
+                process.exitCode = 1;
+            } else {
+                console.log(`Revoked key ${arg}`);
+            }
+        } else {
+            console.error('Usage: npx tsx scripts/api-keys.ts create "<name>" | list | revoke <id>');
+            process.exitCode = 1;
+        }
+    } finally {
+        getStorage().close();
+    }
+}
+
+main();
@@ -0,0 +1,25 @@
+import path from 'path';
+import { FileStorageBackend, SqliteStorageBackend, importStorage, getSqlitePath } from '../src/lib/storage';
+
+// Import the JSON files from data/ into the SQLite database.
+// Usage: npx tsx scripts/migrate-to-sqlite.ts [--overwrite]
+//   --overwrite  replace documents and logs already present in the database
+
+function main() {
+    const overwrite = process.argv.includes('--overwrite');
+    const dataDir = path.join(process.cwd(), 'data');
+    const dbPath = getSqlitePath();
+
+    console.log(`Importing ${dataDir} -> ${dbPath}${overwrite ? ' (overwrite)' : ''}`);
+
+    const from = new FileStorageBackend(dataDir);
+    const to = new SqliteStorageBackend(dbPath);
+    try {
+        const summary = importStorage(from, to, overwrite);
+        console.log(`Imported ${summary.documents} documents and ${summary.logEntries} log entries.`);
+    } finally {
+        to.close();
+    }
+}
+
+main();
@@ -1,8 +1,9 @@
 import { loadFullStats } from '../src/lib/fullStatsCache';
-import { loadHistory } from '../src/lib/history';
-import { loadStatsHistory, type StatsHistoryEntry } from '../src/lib/statsHistory';
+import { loadSeatLog } from '../src/lib/seatLog';
+import { loadStatsHistory } from '../src/lib/statsHistory';
 import type { CombinedEventStats, SourceType } from '../src/lib/types';
 import { normalizeSeatKey } from '../src/lib/seat-scrapers/utils';
+import { inferSoldSeats, replaySeatLog, buildCombinedStats } from '../src/lib/statsAggregation';
 
 // Helper to artificially remove a seat from a specific source (Simulate SALE)
 function simulateSale(stats: CombinedEventStats, source: SourceType, seatKeyToSell: string) {
@@ -68,7 +69,7 @@ async function runSimulation(eventId: string) {
         return;
     }
 
-    const prevHistory = await loadHistory(eventId);
+    const prevState = replaySeatLog(await loadSeatLog(eventId));
     const prevStats = await loadStatsHistory(eventId);
 
     if (!prevStats) {
@@ -107,77 +108,21 @@ async function runSimulation(eventId: string) {
     // ==========================================
     console.log('\n--- KROK 2: Uruchomienie Silnika Kalkulacji i Różnic ---');
 
+    // Ten sam, czysty etap agregacji co w eventScraper.ts (bez przeglądarki i zapisu plików)
     const results = stats.perSource;
-    const allCurrentFreeKeys = new Set<string>();
-    const currentFreeKeysBySource: Record<string, Set<string>> = {
-        biletyna: new Set(),
-        ebilet: new Set(),
-        kupbilecik: new Set()
-    };
-    const knownSectors = new Set<string>();
-
-    for (const [sourceName, sourceData] of Object.entries(results)) {
-        if (!sourceData || !sourceData.sectors) continue;
-        const source = sourceName as SourceType;
-        for (const sector of sourceData.sectors) {
-            knownSectors.add(sector.sectorName);
-            for (const seatKey of sector.freeSeats) {
-                const normalizedSeatKey = normalizeSeatKey(seatKey);
-                const uniqueKey = `${sector.sectorName}:${normalizedSeatKey}`;
-                allCurrentFreeKeys.add(uniqueKey);
-                currentFreeKeysBySource[source].add(uniqueKey);
-            }
-        }
-    }
+    const inference = inferSoldSeats(results, prevState);
 
-    const inferredSold: Record<string, SourceType> = {};
-    const shiftedFrom: Record<string, number> = { biletyna: 0, ebilet: 0, kupbilecik: 0 };
-
-    for (const [uniqueKey, lastSource] of Object.entries(prevHistory)) {
-        const [sectorName] = uniqueKey.split(':');
-        if (knownSectors.has(sectorName)) {
-            if (!currentFreeKeysBySource[lastSource]?.has(uniqueKey)) {
-                if (allCurrentFreeKeys.has(uniqueKey)) {
-                    shiftedFrom[lastSource]++;
-                    console.log(`[MATH] Wykryto MIGRACJĘ miejsca ${uniqueKey} (Utracono na ${lastSource}, ale odnaleziono powiązane gdzie indziej)`);
-                } else {
-                    inferredSold[uniqueKey] = lastSource;
-                    console.log(`[MATH] Wykryto SPRZEDAŻ miejsca ${uniqueKey} z ${lastSource}`);
-                }
-            }
-        }
+    for (const [source, count] of Object.entries(inference.shiftedFrom)) {
+        if (count > 0) console.log(`[MATH] Wykryto MIGRACJĘ ${count} miejsc (Utracono na ${source}, ale odnaleziono powiązane gdzie indziej)`);
     }
-
-    const currentStatsEntry: StatsHistoryEntry = {
-        biletynaTaken: results.biletyna?.totals.taken || 0,
-        ebiletTaken: results.ebilet?.totals.taken || 0,
-        kupbilecikTaken: results.kupbilecik?.totals.taken || 0,
-        biletynaFree: results.biletyna?.totals.free || 0,
-        ebiletFree: results.ebilet?.totals.free || 0,
-        kupbilecikFree: results.kupbilecik?.totals.free || 0,
-        timestamp: new Date().toISOString()
-    };
-
-    let diffObj = undefined;
-
-    if (prevStats) {
-        let bSold = 0;
-        let eSold = 0;
-        let kSold = 0;
-
-        for (const source of Object.values(inferredSold)) {
-            if (source === 'biletyna') bSold++;
-            if (source === 'ebilet') eSold++;
-            if (source === 'kupbilecik') kSold++;
-        }
-
-        diffObj = {
-            biletynaSold: bSold,
-            ebiletSold: eSold,
-            kupbilecikSold: kSold,
-            lastUpdated: prevStats.timestamp
-        };
+    for (const [uniqueKey, source] of Object.entries(inference.inferredSold)) {
+        console.log(`[MATH] Wykryto SPRZEDAŻ miejsca ${uniqueKey} z ${source}`);
     }
+    for (const [uniqueKey, source] of Object.entries(inference.inferredReturned)) {
+        console.log(`[MATH] Wykryto ZWROT miejsca ${uniqueKey} (ponownie wolne na ${source})`);
+    }
+
+    const diffObj = buildCombinedStats(stats, results, inference, inference.inferredSold, prevStats).diff;
 
     console.log('\n--- KROK 3: WYNIK WYJŚCIOWY DO DISCORDA I FRONTENDU (Bezpośrednie liczenie wyizolowanych stratnych miejsc) ---');
     console.log(diffObj);
@@ -191,16 +136,16 @@ async function runSimulation(eventId: string) {
     }
 
     if (diffObj) {
-        if (diffObj.ebiletSold === 0) {
+        if (diffObj.sold.ebilet === 0) {
             console.log(`✅ SUKCES LOGIKI! Pomimo ubytku 1 miejsca z serwerów eBiletu, z racji migracji do innej puli liczba SPRZEDAŻY wyniosła: 0! Brak fałszywego powiadomienia Discord.`);
         } else {
-            console.log(`❌ Serwer zaraportowałby błędną sprzedaż na eBilecie: ${diffObj.ebiletSold}`);
+            console.log(`❌ Serwer zaraportowałby błędną sprzedaż na eBilecie: ${diffObj.sold.ebilet}`);
         }
 
-        if (diffObj.kupbilecikSold === 1) {
+        if (diffObj.sold.kupbilecik === 1) {
             console.log(`✅ SUKCES LOGIKI! Mimo zasilenia KupBileciku +1 migrującym miejscem (co zmyliło zwykłą matematykę), dedykowane stracone miejsce obok poprawnie nabiło +1 KupBilecikowi na Discord!`);
         } else {
-            console.log(`❌ Serwer pominął sprzedaż na KupBileciku (wynik: ${diffObj.kupbilecikSold})`);
+            console.log(`❌ Serwer pominął sprzedaż na KupBileciku (wynik: ${diffObj.sold.kupbilecik})`);
         }
     }
 
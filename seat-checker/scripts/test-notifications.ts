@@ -0,0 +1,312 @@
+import fs from 'fs';
+import http from 'http';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import {
+    dispatchNotification,
+    buildSaleNotification,
+    buildEventChangesNotification,
+    loadDeliveryRecords,
+    signWebhookBody,
+    routeAccepts,
+    retryQueuedNotifications,
+    type DeliveryRecord,
+} from '../src/lib/notifications';
+import { loadDiscordQueue } from '../src/lib/notifications/channels/discordQueue';
+import { getStorage } from '../src/lib/storage';
+
+// Notification channels against local stand-ins: an HTTP server playing Discord, Slack
+// and webhook receivers, and a minimal SMTP server. No network access needed.
+// The delivery log goes to a temporary SQLite database.
+//
+// Uzycie:
+//   npm run test:notifications
+
+const DB_PATH = path.join(os.tmpdir(), `seat-checker-notifications-${process.pid}.db`);
+const WEBHOOK_SECRET = 'test-secret';
+
+interface HttpHit {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+}
+
+interface SmtpMessage {
+    auth: string | null;
+    from: string;
+    to: string[];
+    data: string;
+}
+
+interface HttpStandIn {
+    server: http.Server;
+    hits: HttpHit[];
+    url: string;
+    // "/discord-down" answers 503 while set
+    down: boolean;
+}
+
+function startHttpStandIn(): Promise<HttpStandIn> {
+    const hits: HttpHit[] = [];
+    let flakyCalls = 0;
+    let limitedCalls = 0;
+    const standIn = { hits, down: true } as HttpStandIn;
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            hits.push({ path: req.url || '', headers: req.headers, body });
+            if (req.url === '/flaky' && ++flakyCalls === 1) {
+                res.writeHead(503).end('try later');
+            } else if (req.url === '/discord-limited' && ++limitedCalls === 1) {
+                res.writeHead(429, { 'Retry-After': '0.05' }).end('{"retry_after":0.05}');
+            } else if (req.url === '/discord-down' && standIn.down) {
+                res.writeHead(503).end('down');
+            } else if (req.url === '/broken') {
+                res.writeHead(400).end('bad payload');
+            } else {
+                res.writeHead(204).end();
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        const { port } = server.address() as AddressInfo;
+        resolve(Object.assign(standIn, { server, url: `http://127.0.0.1:${port}` }));
+    }));
+}
+
+function startSmtpStandIn(): Promise<{ server: net.Server; messages: SmtpMessage[]; port: number }> {
+    const messages: SmtpMessage[] = [];
+    const server = net.createServer(socket => {
+        const message: SmtpMessage = { auth: null, from: '', to: [], data: '' };
+        let buffer = '';
+        let inData = false;
+        socket.write('220 stand-in ESMTP\r\n');
+        socket.on('data', chunk => {
+            buffer += chunk.toString('utf8');
+            if (inData) {
+                const end = buffer.indexOf('\r\n.\r\n');
+                if (end < 0) return;
+                message.data = buffer.slice(0, end);
+                buffer = buffer.slice(end + 5);
+                inData = false;
+                messages.push(message);
+                socket.write('250 queued\r\n');
+            }
+            let end: number;
+            while (!inData && (end = buffer.indexOf('\r\n')) >= 0) {
+                const line = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+                const command = line.slice(0, 4).toUpperCase();
+                if (command === 'EHLO') socket.write('250-stand-in\r\n250-AUTH PLAIN LOGIN\r\n250 OK\r\n');
+                else if (command === 'AUTH') {
+                    message.auth = Buffer.from(line.split(' ')[2] || '', 'base64').toString('utf8');
+                    socket.write('235 authenticated\r\n');
+                } else if (command === 'MAIL') {
+                    message.from = line.slice(10);
+                    socket.write('250 OK\r\n');
+                } else if (command === 'RCPT') {
+                    message.to.push(line.slice(8));
+                    socket.write('250 OK\r\n');
+                } else if (command === 'DATA') {
+                    inData = true;
+                    socket.write('354 go ahead\r\n');
+                } else if (command === 'QUIT') {
+                    socket.end('221 bye\r\n');
+                } else {
+                    socket.write('502 not implemented\r\n');
+                }
+            }
+        });
+    });
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => {
+        resolve({ server, messages, port: (server.address() as AddressInfo).port });
+    }));
+}
+
+// Body of a base64 text/plain message
+function decodeEmailBody(data: string): string {
+    const body = data.slice(data.indexOf('\r\n\r\n') + 4);
+    return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+async function main() {
+    let failed = 0;
+    const check = (name: string, errors: string[]) => {
+        if (errors.length === 0) {
+            console.log(`  ok    ${name}`);
+            return;
+        }
+        failed++;
+        console.log(`  FAIL  ${name}`);
+        errors.forEach(err => console.log(`        - ${err}`));
+    };
+    const expect = (condition: boolean, message: string) => condition ? [] : [message];
+
+    const httpStandIn = await startHttpStandIn();
+    const smtpStandIn = await startSmtpStandIn();
+
+    process.env.STORAGE_BACKEND = 'sqlite';
+    process.env.SQLITE_PATH = DB_PATH;
+    process.env.NOTIFICATION_RETRY_BASE_MS = '20';
+    delete process.env.NOTIFICATION_CHANNELS_FILE;
+    delete process.env.DISCORD_WEBHOOK_URL;
+    process.env.NOTIFICATION_CHANNELS = JSON.stringify([
+        { id: 'discord', type: 'discord', url: `${httpStandIn.url}/discord` },
+        { id: 'slack', type: 'slack', url: `${httpStandIn.url}/slack`, routes: { organizers: ['wikart'] } },
+        { id: 'signed', type: 'webhook', url: `${httpStandIn.url}/signed`, secret: WEBHOOK_SECRET, routes: { kinds: ['sale'] } },
+        { id: 'flaky', type: 'webhook', url: `${httpStandIn.url}/flaky`, routes: { events: ['event-1'] } },
+        { id: 'broken', type: 'webhook', url: `${httpStandIn.url}/broken`, routes: { kinds: ['sale'] } },
+        { id: 'other-organizer', type: 'slack', url: `${httpStandIn.url}/other`, routes: { organizers: ['inny'] } },
+        { id: 'muted', type: 'slack', url: `${httpStandIn.url}/muted`, routes: { excludeEvents: ['event-1'] } },
+        { id: 'disabled', type: 'slack', url: `${httpStandIn.url}/disabled`, enabled: false },
+        {
+            id: 'mail', type: 'email', host: '127.0.0.1', port: smtpStandIn.port,
+            user: 'bot', pass: 'hunter2', from: 'Seat Checker <bot@example.com>', to: ['biuro@example.com'],
+        },
+    ]);
+
+    try {
+        console.log('Notification channels (local stand-ins)');
+        const sale = buildSaleNotification({
+            eventId: 'event-1',
+            organizerId: 'wikart',
+            eventTitle: 'Kabaret Żółć',
+            soldSeatsCount: 1,
+            details: [{ sector: 'Parter', row: '3', seat: '12', source: 'ebilet' }],
+        })!;
+        const saleRecords = await dispatchNotification(sale);
+        const byChannel = new Map<string, DeliveryRecord>(saleRecords.map(r => [r.channelId, r]));
+        const hitsFor = (p: string) => httpStandIn.hits.filter(h => h.path === p);
+
+        check('routing/sale-targets', expect(
+            JSON.stringify(Array.from(byChannel.keys()).sort()) === JSON.stringify(['broken', 'discord', 'flaky', 'mail', 'signed', 'slack']),
+            `got ${Array.from(byChannel.keys()).sort().join(', ')}`
+        ));
+        check('routing/skipped-channels', expect(
+            ['/other', '/muted', '/disabled'].every(p => hitsFor(p).length === 0),
+            'organizer, excluded event or disabled channel received the sale'
+        ));
+
+        const discord = hitsFor('/discord')[0];
+        const embed = discord && JSON.parse(discord.body).embeds?.[0];
+        check('discord/embed', [
+            ...expect(byChannel.get('discord')?.status === 'sent', 'not sent'),
+            ...expect(embed?.title === sale.title && embed?.description.includes('**Kabaret Żółć**'), 'embed does not carry the message'),
+        ]);
+
+        const slack = hitsFor('/slack')[0];
+        check('slack/mrkdwn', expect(
+            !!slack && JSON.parse(slack.body).text.includes('*Kabaret Żółć*') && !JSON.parse(slack.body).text.includes('**'),
+            'text is not Slack mrkdwn'
+        ));
+
+        const signed = hitsFor('/signed')[0];
+        const timestamp = String(signed?.headers['x-seat-checker-timestamp']);
+        check('webhook/hmac-signature', [
+            ...expect(!!signed, 'not received'),
+            ...expect(signed?.headers['x-seat-checker-signature'] === signWebhookBody(WEBHOOK_SECRET, timestamp, signed?.body || ''), 'signature does not verify'),
+            ...expect(signed?.headers['x-seat-checker-signature'] !== signWebhookBody('wrong', timestamp, signed?.body || ''), 'signature ignores the secret'),
+            ...expect(signed && JSON.parse(signed.body).id === sale.id && JSON.parse(signed.body).kind === 'sale', 'payload misses id or kind'),
+        ]);
+
+        check('retry/temporary-failure', [
+            ...expect(byChannel.get('flaky')?.status === 'sent', 'not delivered after retry'),
+            ...expect(byChannel.get('flaky')?.attempts === 2, `attempts: ${byChannel.get('flaky')?.attempts}`),
+        ]);
+        check('retry/permanent-failure', [
+            ...expect(byChannel.get('broken')?.status === 'failed', 'not reported as failed'),
+            ...expect(byChannel.get('broken')?.attempts === 1, `4xx retried: ${byChannel.get('broken')?.attempts} attempts`),
+        ]);
+
+        const mail = smtpStandIn.messages[0];
+        check('email/smtp', [
+            ...expect(byChannel.get('mail')?.status === 'sent', `not sent: ${byChannel.get('mail')?.error}`),
+            ...expect(mail?.auth === '\0bot\0hunter2', 'AUTH PLAIN credentials'),
+            ...expect(mail?.from === '<bot@example.com>' && mail?.to[0] === '<biuro@example.com>', 'envelope addresses'),
+            ...expect(!!mail && mail.data.includes('Subject: =?UTF-8?B?'), 'subject not encoded'),
+            ...expect(!!mail && decodeEmailBody(mail.data).includes('Kabaret Żółć') && !decodeEmailBody(mail.data).includes('**'), 'body not plain UTF-8 text'),
+        ]);
+
+        const changes = buildEventChangesNotification([{
+            type: 'cancelled', eventId: 'event-2', title: 'Spektakl', date: '2099-01-01', time: '19:00', city: 'Łódź', timestamp: new Date().toISOString(),
+        }], { id: 'inny', name: 'Inny organizator' })!;
+        const changeTargets = (await dispatchNotification(changes)).map(r => r.channelId).sort();
+        check('routing/organizer-and-kind', expect(
+            JSON.stringify(changeTargets) === JSON.stringify(['discord', 'mail', 'muted', 'other-organizer']),
+            `got ${changeTargets.join(', ')}`
+        ));
+        check('routing/rules', [
+            ...expect(routeAccepts(undefined, changes), 'no routes should accept everything'),
+            ...expect(!routeAccepts({ events: ['event-2'] }, changes), 'event rule matched a multi-event message'),
+        ]);
+
+        const log = loadDeliveryRecords();
+        check('delivery-log', [
+            ...expect(log.length === saleRecords.length + changeTargets.length, `${log.length} records`),
+            ...expect(loadDeliveryRecords({ channelId: 'broken' })[0]?.error?.startsWith('HTTP 400') === true, 'failure reason missing'),
+        ]);
+
+        console.log('\nDiscord limits and queue');
+        process.env.NOTIFICATION_CHANNELS = JSON.stringify([
+            { id: 'discord-big', type: 'discord', url: `${httpStandIn.url}/discord-big` },
+            { id: 'discord-limited', type: 'discord', url: `${httpStandIn.url}/discord-limited` },
+            { id: 'discord-down', type: 'discord', url: `${httpStandIn.url}/discord-down` },
+        ]);
+        // 600 seats in 3 sectors on 2 platforms - far over one embed
+        const bigDetails = ['Parter', 'Balkon', 'Loża'].flatMap(sector => (['ebilet', 'biletyna'] as const).flatMap(source =>
+            Array.from({ length: 100 }, (_, i) => ({ sector, row: String(Math.floor(i / 20) + 1), seat: String(i % 20 + 1), source }))
+        ));
+        const bigSale = buildSaleNotification({
+            eventId: 'event-big',
+            organizerId: 'wikart',
+            eventTitle: 'Kabaret Żółć',
+            soldSeatsCount: bigDetails.length,
+            details: bigDetails,
+        })!;
+        const bigRecords = new Map((await dispatchNotification(bigSale)).map(r => [r.channelId, r]));
+
+        const bigMessages = hitsFor('/discord-big').map(hit => JSON.parse(hit.body).embeds as Array<{ title?: string; description: string; footer?: { text: string } }>);
+        const embeds = bigMessages.flat();
+        const descriptions = embeds.map(e => e.description).join('\n');
+        check('discord/chunking', [
+            ...expect(bigRecords.get('discord-big')?.status === 'sent', 'not sent'),
+            ...expect(bigMessages.length > 1, `${bigMessages.length} message(s)`),
+            ...expect(bigMessages.every(m => m.length <= 10 && m.reduce((acc, e) => acc + (e.title?.length || 0) + e.description.length + (e.footer?.text.length || 0), 0) <= 6000), 'message over Discord limits'),
+            ...expect(embeds.every(e => e.description.length <= 4096), 'embed description over 4096 characters'),
+            ...expect((descriptions.match(/Miejsce:/g) || []).length === bigDetails.length, 'seats lost or repeated'),
+            ...expect(descriptions.includes('**Sektor: Loża [biletyna] (100):**') && descriptions.includes('(cd.):**'), 'sections not grouped by sector and platform'),
+        ]);
+
+        check('discord/rate-limit', [
+            ...expect(bigRecords.get('discord-limited')?.status === 'sent', 'not sent after 429'),
+            ...expect(bigRecords.get('discord-limited')?.attempts === 1, 'Retry-After wait counted as a failed attempt'),
+            ...expect(hitsFor('/discord-limited').length === bigMessages.length + 1, `${hitsFor('/discord-limited').length} calls`),
+        ]);
+
+        const queuedParts = loadDiscordQueue('discord-down').length;
+        httpStandIn.down = false;
+        await retryQueuedNotifications();
+        const downRecords = loadDeliveryRecords({ channelId: 'discord-down' });
+        check('discord/persistent-queue', [
+            ...expect(bigRecords.get('discord-down')?.status === 'failed', 'failure not reported'),
+            ...expect(queuedParts === bigMessages.length, `${queuedParts} message(s) queued`),
+            ...expect(loadDiscordQueue('discord-down').length === 0, 'queue not drained'),
+            ...expect(downRecords[0]?.status === 'sent' && downRecords[0]?.notificationId === bigSale.id, 'late delivery not logged'),
+        ]);
+    } finally {
+        httpStandIn.server.close();
+        smtpStandIn.server.close();
+        getStorage().close();
+        for (const suffix of ['', '-wal', '-shm']) {
+            fs.rmSync(DB_PATH + suffix, { force: true });
+        }
+    }
+
+    console.log(failed === 0 ? '\nall passed' : `\n${failed} failed`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+main();
@@ -0,0 +1,516 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { SourceStats, SectorStats, RawEvent, SourceType, JoinedEvent, SourceData } from '../src/lib/types';
+import { getSourceAdapter, type HttpClient, type RawSeatData, type SeatFetchSession } from '../src/lib/sources';
+import { processRawSeatData, inferSoldSeats } from '../src/lib/statsAggregation';
+import { parseBiletynaSeats } from '../src/lib/seat-scrapers/biletyna-seats';
+import {
+    parseEbiletArrangements,
+    type EbiletSeatsResponse,
+    type EbiletFreeSeatsResponse,
+    type EbiletArrangementsResponse
+} from '../src/lib/seat-scrapers/ebilet-seats';
+import { matchSectorByStructure } from '../src/lib/seat-scrapers/utils';
+import { joinEvents } from '../src/lib/eventJoin';
+import { getCardKey, getListingKey } from '../src/lib/eventMatch';
+import type { EventLinkRule } from '../src/lib/eventLinks';
+import { resolveEventIdentities } from '../src/lib/eventIdentity';
+import { getStorage, SqliteStorageBackend } from '../src/lib/storage';
+
+// Offline test harness for the seat parsers.
+// Runs every parser against recorded payloads in scripts/fixtures and checks
+// totals + sector names, then compares the full SourceStats with saved snapshots.
+// Also covers sector structure matching, the cross-platform event join, stable event IDs
+// (in a temporary SQLite database) and the HTTP fast paths of the adapters (fixtures
+// served by a stub client).
+//
+// Uzycie:
+//   npm test                 - uruchom wszystkie przypadki
+//   npm test -- --update     - zapisz (nadpisz) snapshoty w fixtures/expected
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+const EXPECTED_DIR = path.join(FIXTURES_DIR, 'expected');
+const UPDATE = process.argv.includes('--update');
+
+function readFixture(file: string): string {
+    return fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf-8');
+}
+
+function readJsonFixture<T>(file: string): T {
+    return JSON.parse(readFixture(file)) as T;
+}
+
+// --- Raw payloads, shaped exactly like the acquisition stage returns them ---
+
+function biletynaMultiSector(): RawSeatData['biletyna'] {
+    return {
+        sectorPages: [
+            { sectorUrl: 'https://biletyna.pl/event/sector/1001', html: readFixture('biletyna/sector-parter.html') },
+            { sectorUrl: 'https://biletyna.pl/event/sector/1002', html: readFixture('biletyna/sector-balkon.html') },
+        ],
+        finalUrl: 'https://biletyna.pl/event/view/id/123456',
+    };
+}
+
+function biletynaSingleSector(): RawSeatData['biletyna'] {
+    return {
+        mapHtml: readFixture('biletyna/single-sector.html'),
+        sectorPages: [],
+        finalUrl: 'https://biletyna.pl/event/sector/1001',
+    };
+}
+
+function ebiletSeats(): RawSeatData['ebilet'] {
+    return {
+        seatsBySid: {
+            '101': readJsonFixture<EbiletSeatsResponse>('ebilet/seats-101.json'),
+            '102': readJsonFixture<EbiletSeatsResponse>('ebilet/seats-102.json'),
+        },
+        freeSeatsData: readJsonFixture<EbiletFreeSeatsResponse>('ebilet/freeseats.json'),
+        currentUrl: 'https://sklep.ebilet.pl/123456',
+    };
+}
+
+// Lazy sfc payload: sector capacities from the arrangements, counts without seat geometry
+function ebiletCountsOnly(): RawSeatData['ebilet'] {
+    return {
+        seatsBySid: {},
+        freeSeatsData: readJsonFixture<EbiletFreeSeatsResponse & { sfc?: Record<string, number> }>('ebilet/freeseats-lazy.json'),
+        sectorCapacities: parseEbiletArrangements(readJsonFixture<EbiletArrangementsResponse>('ebilet/arrangements.json')),
+        currentUrl: 'https://sklep.ebilet.pl/123456',
+    };
+}
+
+function kupbilecikSeats(): RawSeatData['kupbilecik'] {
+    return {
+        obiektData: readJsonFixture('kupbilecik/obiekt_data.json'),
+        finalUrl: 'https://www.kupbilecik.pl/bilety.php?id=4711',
+    };
+}
+
+// KupBilecik sectors, used as the naming reference by the other parsers
+function referenceSectors(): SectorStats[] {
+    return getSourceAdapter('kupbilecik').processSeats(kupbilecikSeats())?.sectors || [];
+}
+
+// --- Test cases ---
+
+interface ExpectedStats {
+    totals: { total: number; free: number; taken: number };
+    // Sector names in order; omit for parsers that return no sector breakdown
+    sectorNames?: string[];
+    // Capacity-only payloads (eBilet sfc) carry counts without individual seats
+    countsOnly?: boolean;
+}
+
+interface ParserCase {
+    name: string;
+    run: () => SourceStats | null;
+    expect: ExpectedStats;
+}
+
+const CASES: ParserCase[] = [
+    {
+        name: 'kupbilecik/obiekt_data',
+        run: () => getSourceAdapter('kupbilecik').processSeats(kupbilecikSeats()),
+        expect: { totals: { total: 18, free: 8, taken: 10 }, sectorNames: ['PARTER', 'BALKON'] },
+    },
+    {
+        name: 'biletyna/multi-sector',
+        run: () => getSourceAdapter('biletyna').processSeats(biletynaMultiSector(), referenceSectors()),
+        expect: { totals: { total: 18, free: 5, taken: 13 }, sectorNames: ['PARTER', 'BALKON'] },
+    },
+    {
+        name: 'biletyna/multi-sector-no-reference',
+        run: () => getSourceAdapter('biletyna').processSeats(biletynaMultiSector()),
+        expect: { totals: { total: 18, free: 5, taken: 13 }, sectorNames: ['Sektor 1', 'Sektor 2'] },
+    },
+    {
+        name: 'biletyna/single-sector',
+        run: () => getSourceAdapter('biletyna').processSeats(biletynaSingleSector(), referenceSectors()),
+        expect: { totals: { total: 12, free: 6, taken: 6 }, sectorNames: ['PARTER'] },
+    },
+    {
+        name: 'biletyna/single-sector-parse',
+        run: () => parseBiletynaSeats(readFixture('biletyna/single-sector.html')),
+        expect: { totals: { total: 12, free: 6, taken: 6 }, sectorNames: ['Sektor 1'] },
+    },
+    {
+        name: 'ebilet/seats+freeseats',
+        run: () => getSourceAdapter('ebilet').processSeats(ebiletSeats(), referenceSectors()),
+        expect: { totals: { total: 18, free: 9, taken: 9 }, sectorNames: ['PARTER', 'BALKON'] },
+    },
+    {
+        name: 'ebilet/arrangements+sfc',
+        run: () => getSourceAdapter('ebilet').processSeats(ebiletCountsOnly()),
+        expect: { totals: { total: 18, free: 6, taken: 12 }, sectorNames: ['Parter', 'Balkon'], countsOnly: true },
+    },
+    {
+        name: 'all-sources/processRawSeatData',
+        run: () => {
+            // Combined pipeline - the reference source must be processed first
+            const results = processRawSeatData({
+                biletyna: biletynaMultiSector(),
+                ebilet: ebiletSeats(),
+                kupbilecik: kupbilecikSeats(),
+            });
+            const sectorNames = [results.biletyna, results.ebilet]
+                .flatMap(stats => stats?.sectors?.map(s => s.sectorName) || []);
+            if (sectorNames.some(name => name !== 'PARTER' && name !== 'BALKON')) {
+                throw new Error(`unexpected sector names ${JSON.stringify(sectorNames)}`);
+            }
+            return results.kupbilecik || null;
+        },
+        expect: { totals: { total: 18, free: 8, taken: 10 }, sectorNames: ['PARTER', 'BALKON'] },
+    },
+];
+
+// Structure matching on its own, without a full parser in front of it
+interface MatchCase {
+    name: string;
+    rows: Record<string, { total: number; free: number; taken: number }>;
+    matchedSectors?: string[];
+    expect: string | null;
+}
+
+const MATCH_CASES: MatchCase[] = [
+    {
+        name: 'match/roman-row-names',
+        rows: { I: { total: 4, free: 0, taken: 4 }, II: { total: 4, free: 0, taken: 4 }, III: { total: 4, free: 0, taken: 4 } },
+        expect: 'PARTER',
+    },
+    {
+        name: 'match/already-matched-excluded',
+        rows: { '1': { total: 4, free: 0, taken: 4 }, '2': { total: 4, free: 0, taken: 4 }, '3': { total: 4, free: 0, taken: 4 } },
+        matchedSectors: ['PARTER'],
+        expect: null,
+    },
+    {
+        name: 'match/row-count-mismatch',
+        rows: Object.fromEntries(Array.from({ length: 10 }, (_, i) => [String(i + 1), { total: 20, free: 0, taken: 20 }])),
+        expect: null,
+    },
+];
+
+// Cross-platform event join: fuzzy matching + manual link table
+function listing(source: SourceType, title: string, time: string, city: string, venue = ''): RawEvent {
+    return {
+        source,
+        title,
+        date: '2025-05-20',
+        time,
+        city,
+        venue,
+        eventCardUrl: `https://${source}.example/${encodeURIComponent(title)}/${time}`,
+        buyButtonSelector: '',
+    };
+}
+
+function rule(kind: EventLinkRule['kind'], a: RawEvent, b: RawEvent): EventLinkRule {
+    return {
+        kind,
+        a: getListingKey(a.source, a),
+        b: getListingKey(b.source, b),
+        createdAt: '2025-01-01T00:00:00.000Z',
+    };
+}
+
+interface JoinCase {
+    name: string;
+    events: RawEvent[];
+    rules?: EventLinkRule[];
+    // Sources of each joined event, events ordered as returned
+    expect: string[][];
+    // "source HH:MM" of each listing instead - tells apart shows sharing a card URL
+    withTimes?: boolean;
+}
+
+const SMILE_BILETYNA = listing('biletyna', 'Kabaret Smile - Nowy program 2025', '19:00', 'lodz', 'Wytwórnia');
+const SMILE_EBILET = listing('ebilet', 'Kabaret Smile', '19:30', 'łodz', 'Klub Wytwórnia');
+const GIZA_EBILET = listing('ebilet', 'Abelard Giza - stand-up', '19:00', 'lodz', 'Wytwórnia');
+// eBilet lists every show of a tour under one card URL
+const TOUR_EBILET_18 = { ...listing('ebilet', 'Kabaret Smile', '18:00', 'lodz'), eventCardUrl: 'https://ebilet.example/kabaret-smile' };
+const TOUR_EBILET_21 = { ...TOUR_EBILET_18, time: '21:00' };
+const GIZA_BILETYNA = listing('biletyna', 'Abelard Giza - stand-up', '21:00', 'lodz');
+
+const JOIN_CASES: JoinCase[] = [
+    {
+        name: 'join/time-tolerance-and-city-alias',
+        events: [SMILE_BILETYNA, SMILE_EBILET],
+        expect: [['biletyna', 'ebilet']],
+    },
+    {
+        name: 'join/different-shows-same-slot',
+        events: [SMILE_BILETYNA, GIZA_EBILET],
+        expect: [['biletyna'], ['ebilet']],
+    },
+    {
+        name: 'join/best-candidate-wins',
+        events: [SMILE_BILETYNA, GIZA_EBILET, SMILE_EBILET],
+        expect: [['biletyna', 'ebilet'], ['ebilet']],
+    },
+    {
+        name: 'join/time-out-of-tolerance',
+        events: [SMILE_BILETYNA, listing('ebilet', 'Kabaret Smile', '21:00', 'lodz')],
+        expect: [['biletyna'], ['ebilet']],
+    },
+    {
+        name: 'join/manual-link',
+        events: [SMILE_BILETYNA, GIZA_EBILET],
+        rules: [rule('link', SMILE_BILETYNA, GIZA_EBILET)],
+        expect: [['biletyna', 'ebilet']],
+    },
+    {
+        name: 'join/manual-split',
+        events: [SMILE_BILETYNA, SMILE_EBILET],
+        rules: [rule('split', SMILE_EBILET, SMILE_BILETYNA)],
+        expect: [['biletyna'], ['ebilet']],
+    },
+    {
+        name: 'join/shared-tour-url-link',
+        events: [TOUR_EBILET_21, TOUR_EBILET_18, GIZA_BILETYNA],
+        rules: [rule('link', GIZA_BILETYNA, TOUR_EBILET_21)],
+        expect: [['ebilet 18:00'], ['biletyna 21:00', 'ebilet 21:00']],
+        withTimes: true,
+    },
+    {
+        name: 'join/shared-tour-url-legacy-rule',
+        events: [TOUR_EBILET_18, TOUR_EBILET_21, GIZA_BILETYNA],
+        // Card-only key of an old rule fits both shows - ignored rather than guessed
+        rules: [{ ...rule('link', GIZA_BILETYNA, TOUR_EBILET_21), b: getCardKey('ebilet', TOUR_EBILET_21.eventCardUrl) }],
+        expect: [['ebilet'], ['ebilet'], ['biletyna']],
+    },
+    {
+        name: 'join/different-organizers',
+        events: [SMILE_BILETYNA, { ...SMILE_EBILET, organizerId: 'inny-organizator' }],
+        expect: [['biletyna'], ['ebilet']],
+    },
+];
+
+// Event identities: eBilet lists every show of a tour under one card URL
+function joined(id: string, date: string, sources: JoinedEvent['sources']): JoinedEvent {
+    return { globalEventId: id, organizerId: 'wikart', title: 'Anita Lipnicka', date, time: '19:00', city: 'warszawa', sources };
+}
+
+const TOUR_URL = 'https://www.ebilet.pl/muzyka/pop/anita-lipnicka';
+const IDENTITY_EVENTS: JoinedEvent[] = [
+    joined('20260424-1900-warszawa-aaa', '2026-04-24', { ebilet: { eventCardUrl: TOUR_URL, buyButtonSelector: '' } }),
+    joined('20260425-1900-warszawa-bbb', '2026-04-25', {
+        ebilet: { eventCardUrl: TOUR_URL, buyButtonSelector: '' },
+        biletyna: { eventCardUrl: 'https://biletyna.pl/event/view/id/25', buyButtonSelector: '' },
+    }),
+    joined('20260426-1900-warszawa-ccc', '2026-04-26', {
+        ebilet: { eventCardUrl: TOUR_URL, buyButtonSelector: '' },
+        kupbilecik: { eventCardUrl: 'https://www.kupbilecik.pl/wydarzenie/26', buyButtonSelector: '' },
+    }),
+];
+
+// Resolving an unchanged list again must keep every ID and never give one ID to two events
+function checkIdentityStability(): string[] {
+    const dbPath = path.join(os.tmpdir(), `seat-checker-identities-${process.pid}.db`);
+    // Created up front, so the first getStorage() does not import the JSON files from data/
+    new SqliteStorageBackend(dbPath).close();
+    process.env.STORAGE_BACKEND = 'sqlite';
+    process.env.SQLITE_PATH = dbPath;
+
+    const errors: string[] = [];
+    try {
+        let previous = IDENTITY_EVENTS;
+        for (let run = 1; run <= 3; run++) {
+            const resolved = quiet(() => resolveEventIdentities(IDENTITY_EVENTS, previous));
+            const ids = resolved.map(event => event.globalEventId);
+            if (JSON.stringify(ids) !== JSON.stringify(IDENTITY_EVENTS.map(event => event.globalEventId))) {
+                errors.push(`run ${run}: IDs changed to ${JSON.stringify(ids)}`);
+            }
+            if (new Set(ids).size !== ids.length) errors.push(`run ${run}: duplicate IDs`);
+            previous = resolved;
+        }
+    } finally {
+        getStorage().close();
+        for (const suffix of ['', '-wal', '-shm']) {
+            fs.rmSync(dbPath + suffix, { force: true });
+        }
+    }
+    return errors;
+}
+
+// --- HTTP fast path: the same fixtures served by a stub client instead of a browser ---
+
+const FAST_PATH_PAGES: Record<string, string> = {
+    'https://www.kupbilecik.pl/bilety.php?id=4711': `<script>var obiekt_data = ${readFixture('kupbilecik/obiekt_data.json')};</script>`,
+    'https://biletyna.pl/event/view/id/123456': '<a href="/event/sector/1001">WYBIERZ</a> <a href="/event/sector/1002">Wybierz</a>',
+    'https://biletyna.pl/event/sector/1001': readFixture('biletyna/sector-parter.html'),
+    'https://biletyna.pl/event/sector/1002': readFixture('biletyna/sector-balkon.html'),
+    'https://sklep.ebilet.pl/storage/seats/101.json': readFixture('ebilet/seats-101.json'),
+    'https://sklep.ebilet.pl/storage/seats/102.json': readFixture('ebilet/seats-102.json'),
+    'https://sklep.ebilet.pl/api/event/getsectorfreeseats': readFixture('ebilet/freeseats.json'),
+    'https://sklep.ebilet.pl/storage/arrangements/654321.json': readFixture('ebilet/arrangements.json'),
+    'https://sklep.ebilet.pl/api/event/getsectorfreeseats?e=654321': readFixture('ebilet/freeseats-lazy.json'),
+};
+
+const stubHttp: HttpClient = {
+    text: async (url) => {
+        if (!(url in FAST_PATH_PAGES)) throw new Error(`no stub page for ${url}`);
+        return { url, body: FAST_PATH_PAGES[url] };
+    },
+    json: async (url) => JSON.parse((await stubHttp.text(url)).body),
+    request: async (endpoint) => (await stubHttp.text(endpoint.url)).body,
+    pause: async () => { },
+};
+
+function fastPathSession(eventCardUrl: string, cachedUrl: string | null, endpoints: SeatFetchSession['endpoints'] = []): SeatFetchSession {
+    return { event: {} as JoinedEvent, sourceData: { eventCardUrl } as SourceData, cachedUrl, endpoints, http: stubHttp };
+}
+
+// Fetched payloads must parse exactly like the payloads the browser captures
+async function checkFastPaths(): Promise<string[]> {
+    const errors: string[] = [];
+    const compare = async <K extends SourceType>(source: K, session: SeatFetchSession, expected: RawSeatData[K]) => {
+        const adapter = getSourceAdapter(source);
+        const fetched = await adapter.fetchSeats!(session);
+        const actual = fetched ? quiet(() => adapter.processSeats(fetched)) : null;
+        if (!actual) {
+            errors.push(`${source}: fetched payload was dropped`);
+        } else if (JSON.stringify(actual) !== JSON.stringify(quiet(() => adapter.processSeats(expected)))) {
+            errors.push(`${source}: fetched payload parses differently (${JSON.stringify(actual?.totals ?? null)})`);
+        }
+    };
+
+    await compare('kupbilecik', fastPathSession('https://www.kupbilecik.pl/wydarzenie/4711', 'https://www.kupbilecik.pl/bilety.php?id=4711'), kupbilecikSeats());
+    await compare('biletyna', fastPathSession('https://biletyna.pl/event/view/id/123456', null), biletynaMultiSector());
+    await compare('ebilet', fastPathSession('https://www.ebilet.pl/wydarzenie', 'https://sklep.ebilet.pl/123456', [
+        { kind: 'seats', url: 'https://sklep.ebilet.pl/storage/seats/101.json', method: 'GET' },
+        { kind: 'seats', url: 'https://sklep.ebilet.pl/storage/seats/102.json', method: 'GET' },
+        { kind: 'freeseats', url: 'https://sklep.ebilet.pl/api/event/getsectorfreeseats', method: 'POST', body: '{}' },
+    ]), ebiletSeats());
+    // Lazy sfc shop: capacities and counts only, no seats.json requests
+    await compare('ebilet', fastPathSession('https://www.ebilet.pl/wydarzenie', 'https://sklep.ebilet.pl/123456', [
+        { kind: 'arrangements', url: 'https://sklep.ebilet.pl/storage/arrangements/654321.json', method: 'GET' },
+        { kind: 'freeseats', url: 'https://sklep.ebilet.pl/api/event/getsectorfreeseats?e=654321', method: 'POST', body: '{}' },
+    ]), ebiletCountsOnly());
+    return errors;
+}
+
+// A platform that failed this refresh must not turn its seats into sales (and back into returns)
+function checkFailedSourceKeepsSeats(): string[] {
+    const full = quiet(() => processRawSeatData({ ebilet: ebiletSeats(), kupbilecik: kupbilecikSeats() }));
+    const { state } = inferSoldSeats(full, { free: {}, sold: {} });
+    const ebiletSeatKeys = Object.keys(state.free).filter(seat => state.free[seat] === 'ebilet');
+    if (ebiletSeatKeys.length === 0) return ['fixtures left no seat last seen on ebilet'];
+
+    const withoutEbilet = inferSoldSeats({ kupbilecik: full.kupbilecik }, state);
+    const touched = withoutEbilet.transitions.filter(t => ebiletSeatKeys.includes(t.seat));
+    if (touched.length > 0) return [`ebilet seats changed while ebilet was not scraped: ${JSON.stringify(touched.map(t => `${t.type} ${t.seat}`))}`];
+
+    const back = inferSoldSeats(full, withoutEbilet.state);
+    return back.transitions.length > 0 ? [`unexpected transitions after ebilet came back: ${back.transitions.length}`] : [];
+}
+
+// --- Runner ---
+
+// Parsers log every step; keep the test output readable
+function quiet<T>(fn: () => T): T {
+    const originalLog = console.log;
+    console.log = () => { };
+    try {
+        return fn();
+    } finally {
+        console.log = originalLog;
+    }
+}
+
+function checkStats(testCase: ParserCase, stats: SourceStats | null): string[] {
+    if (!stats) return ['parser returned null'];
+
+    const errors: string[] = [];
+    const { totals, sectorNames, countsOnly } = testCase.expect;
+    for (const key of ['total', 'free', 'taken'] as const) {
+        if (stats.totals[key] !== totals[key]) {
+            errors.push(`totals.${key}: expected ${totals[key]}, got ${stats.totals[key]}`);
+        }
+    }
+    if (stats.totals.free + stats.totals.taken !== stats.totals.total) {
+        errors.push('totals.free + totals.taken != totals.total');
+    }
+    if (!countsOnly && (stats.freeSeats.length !== stats.totals.free || stats.takenSeats.length !== stats.totals.taken)) {
+        errors.push('seat lists do not match totals');
+    }
+    if (sectorNames) {
+        const actual = (stats.sectors || []).map(s => s.sectorName);
+        if (JSON.stringify(actual) !== JSON.stringify(sectorNames)) {
+            errors.push(`sectors: expected ${JSON.stringify(sectorNames)}, got ${JSON.stringify(actual)}`);
+        }
+    }
+
+    // Full snapshot comparison catches regressions in rows and seat keys
+    const snapshotPath = path.join(EXPECTED_DIR, `${testCase.name.replace(/[^a-zA-Z0-9-_]/g, '_')}.json`);
+    const actualJson = JSON.stringify(stats, null, 2) + '\n';
+    if (UPDATE) {
+        if (!fs.existsSync(EXPECTED_DIR)) {
+            fs.mkdirSync(EXPECTED_DIR, { recursive: true });
+        }
+        fs.writeFileSync(snapshotPath, actualJson);
+    } else if (!fs.existsSync(snapshotPath)) {
+        errors.push(`missing snapshot ${path.relative(process.cwd(), snapshotPath)} (run with --update to create it)`);
+    } else if (fs.readFileSync(snapshotPath, 'utf-8') !== actualJson) {
+        errors.push(`differs from snapshot ${path.relative(process.cwd(), snapshotPath)} (run with --update if intended)`);
+    }
+
+    return errors;
+}
+
+async function main() {
+    let failed = 0;
+
+    const report = (name: string, errors: string[]) => {
+        if (errors.length === 0) {
+            console.log(`  ok    ${name}`);
+            return;
+        }
+        failed++;
+        console.log(`  FAIL  ${name}`);
+        errors.forEach(err => console.log(`        - ${err}`));
+    };
+
+    console.log('Seat parsers (offline fixtures)');
+    for (const testCase of CASES) {
+        try {
+            report(testCase.name, checkStats(testCase, quiet(testCase.run)));
+        } catch (e) {
+            report(testCase.name, [`threw: ${e instanceof Error ? e.message : String(e)}`]);
+        }
+    }
+
+    const reference = quiet(referenceSectors);
+    for (const matchCase of MATCH_CASES) {
+        const matched = quiet(() => matchSectorByStructure(
+            new Map(Object.entries(matchCase.rows)),
+            reference,
+            new Set(matchCase.matchedSectors || [])
+        ));
+        const actual = matched?.sectorName ?? null;
+        report(matchCase.name, actual === matchCase.expect ? [] : [`expected ${matchCase.expect}, got ${actual}`]);
+    }
+
+    for (const joinCase of JOIN_CASES) {
+        const joined = joinEvents(joinCase.events, { rules: joinCase.rules || [] });
+        const actual = joined.map(event => (Object.keys(event.sources) as SourceType[])
+            .map(source => joinCase.withTimes ? `${source} ${event.sources[source]!.time}` : source)
+            .sort());
+        const ok = JSON.stringify(actual) === JSON.stringify(joinCase.expect);
+        report(joinCase.name, ok ? [] : [`expected ${JSON.stringify(joinCase.expect)}, got ${JSON.stringify(actual)}`]);
+    }
+
+    report('identity/shared-card-url-stable', checkIdentityStability());
+
+    report('sold/failed-source-untouched', checkFailedSourceKeepsSeats());
+
+    report('fast-path/fetch-seats', await checkFastPaths().catch(e => [`threw: ${e instanceof Error ? e.message : String(e)}`]));
+
+    const total = CASES.length + MATCH_CASES.length + JOIN_CASES.length + 3;
+    console.log(`\n${total - failed}/${total} passed${UPDATE ? ' (snapshots updated)' : ''}`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+main();
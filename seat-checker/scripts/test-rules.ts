@@ -0,0 +1,141 @@
+import type { SectorStats, SourceType } from '../src/lib/types';
+import { evaluateAlertRules, applyAlertState } from '../src/lib/alerts/evaluate';
+import type { AlertContext, AlertRule, AlertState } from '../src/lib/alerts/types';
+import { summarizeSeatSales } from '../src/lib/digest/build';
+import { DEFAULT_POLICY, getBackoffDelay, parsePolicy } from '../src/lib/politeness';
+
+// Pure rules that decide what the app sends and how hard it scrapes: alert rules with their
+// deduplication, sales digest counting and the per-platform politeness policy.
+// No storage, browser or network needed.
+//
+// Uzycie:
+//   npm run test:rules
+
+// Alert rules: one refresh of a 100-seat event, 2 sectors on one platform
+function alertContext(now: string, balkonFree: number, sold: Record<string, SourceType> = {}): AlertContext {
+    const sector = (sectorName: string, total: number, free: number): SectorStats => ({
+        sectorName, rows: {}, freeSeats: [], takenSeats: [], totals: { total, free, taken: total - free },
+    });
+    const sectors = [sector('Parter', 80, 10), sector('Balkon', 20, balkonFree)];
+    const free = 10 + balkonFree;
+    return {
+        event: {
+            globalEventId: 'event-1', organizerId: 'wikart', title: 'Kabaret Smile',
+            date: '2025-03-10', time: '19:00', city: 'lodz', sources: {},
+        },
+        stats: {
+            globalEventId: 'event-1', title: 'Kabaret Smile', date: '2025-03-10',
+            perSource: {
+                ebilet: { source: 'ebilet', totals: { total: 100, free, taken: 100 - free }, rows: {}, freeSeats: [], takenSeats: [], sectors },
+            },
+            combinedTotals: { total: 100, free, taken: 100 - free },
+        },
+        newlySold: sold,
+        newlyReturned: {},
+        seatLog: Object.keys(sold).map(seat => ({ seat, type: 'sold' as const, source: 'ebilet' as const, timestamp: now })),
+        now: new Date(now),
+    };
+}
+
+interface AlertCase {
+    name: string;
+    rules: AlertRule[];
+    // Consecutive refreshes; rule IDs expected to fire after deduplication in each
+    refreshes: { context: AlertContext; expect: string[] }[];
+}
+
+const ALERT_CASES: AlertCase[] = [
+    {
+        name: 'alerts/thresholds-fire-once',
+        rules: [
+            { id: 'low', type: 'free_below', percent: 15 },
+            { id: 'sector', type: 'sector_sold_out', sectors: ['balkon'] },
+            { id: 'late', type: 'days_before', days: 7, maxSoldPercent: 95 },
+        ],
+        refreshes: [
+            { context: alertContext('2025-03-01T12:00:00', 2), expect: ['low'] },
+            { context: alertContext('2025-03-05T12:00:00', 0), expect: ['sector', 'late'] },
+            { context: alertContext('2025-03-05T13:00:00', 0), expect: [] },
+        ],
+    },
+    {
+        name: 'alerts/sales-and-velocity',
+        rules: [
+            { id: 'sales', type: 'new_sales', minSeats: 2 },
+            { id: 'fast', type: 'sales_velocity', seats: 2, windowMinutes: 30 },
+        ],
+        refreshes: [
+            { context: alertContext('2025-01-01T12:00:00', 5, { 'Parter:1-1': 'ebilet' }), expect: [] },
+            { context: alertContext('2025-01-01T12:10:00', 5, { 'Parter:1-2': 'ebilet', 'Parter:1-3': 'ebilet', 'Parter:1-4': 'ebilet' }), expect: ['sales', 'fast'] },
+            { context: alertContext('2025-01-01T12:20:00', 5, { 'Parter:1-5': 'ebilet', 'Parter:1-6': 'ebilet', 'Parter:1-7': 'ebilet' }), expect: ['sales'] },
+        ],
+    },
+    {
+        name: 'alerts/disabled-rule',
+        rules: [{ id: 'low', type: 'free_below', seats: 50, enabled: false }],
+        refreshes: [{ context: alertContext('2025-01-01T12:00:00', 0), expect: [] }],
+    },
+];
+
+// --- Runner ---
+
+function main() {
+    let failed = 0;
+
+    const report = (name: string, errors: string[]) => {
+        if (errors.length === 0) {
+            console.log(`  ok    ${name}`);
+            return;
+        }
+        failed++;
+        console.log(`  FAIL  ${name}`);
+        errors.forEach(err => console.log(`        - ${err}`));
+    };
+
+    console.log('Alert, digest and politeness rules');
+    for (const alertCase of ALERT_CASES) {
+        let state: AlertState | null = null;
+        const errors: string[] = [];
+        alertCase.refreshes.forEach((refresh, i) => {
+            const result = applyAlertState(evaluateAlertRules(alertCase.rules, refresh.context), state, refresh.context.now);
+            state = result.state;
+            const actual = result.fire.map(alert => alert.ruleId);
+            if (JSON.stringify(actual) !== JSON.stringify(refresh.expect)) {
+                errors.push(`refresh ${i + 1}: expected ${JSON.stringify(refresh.expect)}, got ${JSON.stringify(actual)}`);
+            }
+        });
+        report(alertCase.name, errors);
+    }
+
+    // Digest: only real transitions inside the range count, returns go to the platform of the sale
+    const digestSales = summarizeSeatSales([
+        { seat: 'Parter:1-1', type: 'sold', source: 'ebilet', timestamp: '2025-01-02T10:00:00.000Z' },
+        { seat: 'Parter:1-2', type: 'sold', source: 'biletyna', timestamp: '2025-01-02T11:00:00.000Z' },
+        { seat: 'Parter:1-3', type: 'sold', source: 'ebilet', timestamp: '2025-01-03T10:00:00.000Z' },
+        { seat: 'Parter:1-4', type: 'sold', source: 'ebilet', timestamp: '2025-01-02T10:00:00.000Z', migrated: true },
+        { seat: 'Parter:1-2', type: 'returned', source: 'ebilet', from: 'biletyna', timestamp: '2025-01-02T12:00:00.000Z' },
+        { seat: 'Parter:1-5', type: 'moved', source: 'ebilet', from: 'biletyna', timestamp: '2025-01-02T12:00:00.000Z' },
+    ], new Date('2025-01-02T00:00:00.000Z'), new Date('2025-01-03T00:00:00.000Z'));
+    const expectedSales = { sold: { ebilet: 1, biletyna: 1 }, returned: { biletyna: 1 } };
+    report('digest/seat-sales-per-platform', JSON.stringify(digestSales) === JSON.stringify(expectedSales)
+        ? []
+        : [`expected ${JSON.stringify(expectedSales)}, got ${JSON.stringify(digestSales)}`]);
+
+    // Politeness: policy overrides from the environment and the doubling backoff with its cap
+    const policy = parsePolicy('concurrency=2, interval=500,bogus=1,jitter=-5,backoffMax=100000', DEFAULT_POLICY);
+    const backoffs = [1, 2, 3, 4].map(streak => getBackoffDelay(policy, streak));
+    const policyErrors: string[] = [];
+    if (policy.concurrency !== 2 || policy.interval !== 500 || policy.jitter !== DEFAULT_POLICY.jitter) {
+        policyErrors.push(`unexpected policy ${JSON.stringify(policy)}`);
+    }
+    if (JSON.stringify(backoffs) !== JSON.stringify([30000, 60000, 100000, 100000])) {
+        policyErrors.push(`unexpected backoff delays ${JSON.stringify(backoffs)}`);
+    }
+    report('politeness/policy-and-backoff', policyErrors);
+
+    const total = ALERT_CASES.length + 2;
+    console.log(`\n${total - failed}/${total} passed`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+main();
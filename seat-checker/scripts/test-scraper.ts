@@ -2,11 +2,16 @@ import { scrapeAllEvents } from '../src/lib/scrapers';
 import { joinEvents } from '../src/lib/eventJoin';
 import { scrapeEventStats } from '../src/lib/scrapers/eventScraper';
 import { loadStatsHistory } from '../src/lib/statsHistory';
-import { getGlobalBrowser } from '../src/lib/globalBrowser';
+import { shutdownBrowsers } from '../src/lib/globalBrowser';
+import { SOURCE_IDS, SOURCE_META } from '../src/lib/sources/meta';
+import { getOrganizer } from '../src/lib/organizers';
+import { DEFAULT_ORGANIZER_ID } from '../src/lib/types';
 
 async function main() {
     const args = process.argv.slice(2);
     const indexArg = args[0];
+    // Drugi argument: ID organizatora (domyslnie organizator domyslny)
+    const organizerId = args[1] || DEFAULT_ORGANIZER_ID;
 
     // --- Monkey-patch console.log to include timestamp and time-diff ---
     const originalLog = console.log;
@@ -24,7 +29,14 @@ async function main() {
     console.log("Rozpoczynamy narzedzie testowe...");
     console.log("Pobieranie podstawowych list wydarzen ze wszystkich zrodel...");
 
-    const scrapeResults = await scrapeAllEvents();
+    const organizer = getOrganizer(organizerId);
+    if (!organizer) {
+        console.error(`Nieznany organizator: ${organizerId}`);
+        process.exit(1);
+    }
+    console.log(`Organizator: ${organizer.name}`);
+
+    const scrapeResults = await scrapeAllEvents(organizer);
 
     // Logowanie wynikow pierwszego etapu
     for (const res of scrapeResults) {
@@ -48,7 +60,7 @@ async function main() {
             const sources = Object.keys(evt.sources).join(', ');
             console.log(`[${idx.toString().padStart(3, ' ')}] ${evt.title} (${evt.date} w ${evt.city || '?'}) [Źródła: ${sources}]`);
         });
-        console.log("\nAby uzyc pojedynczego, odpal: npx tsx scripts/test-scraper.ts <index_liczbowy>");
+        console.log("\nAby uzyc pojedynczego, odpal: npx tsx scripts/test-scraper.ts <index_liczbowy> [id_organizatora]");
         process.exit(0);
     }
 
@@ -89,7 +101,7 @@ async function main() {
     // Uruchomienie dokladnego skanowania wszystkich podstron biletow (siedzenia, sektory itd)
     let stats;
     try {
-        stats = await scrapeEventStats(event, event.globalEventId);
+        stats = await scrapeEventStats(event);
     } catch (e) {
         console.error("Blad po stronie glownego scrapera:", e);
         process.exit(1);
@@ -127,9 +139,9 @@ async function main() {
     if (stats.diff) {
         console.log(`\n=================== NOWO SPRZEDANE OD OSTATNIEGO RAZU ===================`);
         console.log(`Porownanie wzgledem: ${stats.diff.lastUpdated}`);
-        console.log(`- Biletyna  zniknelo wolnych miejsc: +${stats.diff.biletynaSold}`);
-        console.log(`- eBilet    zniknelo wolnych miejsc: +${stats.diff.ebiletSold}`);
-        console.log(`- KupBilecik zniknelo wolnych miejsc: +${stats.diff.kupbilecikSold}`);
+        for (const source of SOURCE_IDS) {
+            console.log(`- ${SOURCE_META[source].label.padEnd(10)} zniknelo wolnych miejsc: +${stats.diff.sold[source] ?? 0}`);
+        }
     }
 
     if (stats.inferredSold && Object.keys(stats.inferredSold).length > 0) {
@@ -144,10 +156,9 @@ async function main() {
         }
     }
 
-    // Zakonczenie zywotu przegladarki w tle, ktora stworzyl singleton
-    console.log("\nZamykam globalna przegladarke...");
-    const browserService = await getGlobalBrowser();
-    await browserService.close();
+    // Zamykamy przegladarki z puli
+    console.log("\nZamykam przegladarki...");
+    await shutdownBrowsers();
 
     console.log("== GOTOWE ==");
     process.exit(0);
@@ -0,0 +1,80 @@
+import readline from 'readline';
+import {
+    MIN_PASSWORD_LENGTH,
+    deleteUser,
+    deleteUserSessions,
+    getUser,
+    isRole,
+    isValidUsername,
+    listUsers,
+    saveUser,
+    type Role,
+} from '../src/lib/auth';
+import { getStorage } from '../src/lib/storage';
+
+// Local users of the web app. The first user turns login on - create an admin first.
+// The password is read from standard input, so it does not end up in the shell history.
+// Usage:
+//   npx tsx scripts/users.ts set <username> [viewer|operator|admin]   (role required for a new user)
+//   npx tsx scripts/users.ts list
+//   npx tsx scripts/users.ts remove <username>
+
+const USAGE = 'Usage: npx tsx scripts/users.ts set <username> [viewer|operator|admin] | list | remove <username>';
+
+function readPassword(prompt: string): Promise<string> {
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout, terminal: process.stdin.isTTY });
+    return new Promise(resolve => rl.question(prompt, answer => {
+        rl.close();
+        resolve(answer.trim());
+    }));
+}
+
+async function setUser(username: string, role: string | undefined): Promise<void> {
+    if (!isValidUsername(username)) throw new Error('Invalid username (letters, digits, "_" and "-", up to 64)');
+    if (role !== undefined && !isRole(role)) throw new Error(`Unknown role: ${role}`);
+    const existing = getUser(username);
+    if (!existing && !role) throw new Error('A new user needs a role');
+
+    const password = await readPassword(existing ? 'New password (empty = keep): ' : 'Password: ');
+    if ((password || !existing) && password.length < MIN_PASSWORD_LENGTH) {
+        throw new Error(`Password must have at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    const user = saveUser(username, { role: role as Role | undefined, password: password || undefined });
+    if (existing && password) deleteUserSessions(user.username);
+    console.log(`${existing ? 'Updated' : 'Created'} user ${user.username} (${user.role})`);
+}
+
+async function main() {
+    const [command, username, role] = process.argv.slice(2);
+
+    try {
+        if (command === 'set' && username) {
+            await setUser(username, role);
+        } else if (command === 'list') {
+            const users = listUsers();
+            if (users.length === 0) console.log('No users - login is off.');
+            for (const user of users) {
+                console.log(`${user.username}  ${user.role}  created ${user.createdAt}  updated ${user.updatedAt}`);
+            }
+        } else if (command === 'remove' && username) {
+            if (!deleteUser(username)) {
+                console.error(`No user ${username}`);
+                process.exitCode = 1;
+            } else {
+                deleteUserSessions(username);
+                console.log(`Removed user ${username}`);
+            }
+        } else {
+            console.error(USAGE);
+            process.exitCode = 1;
+        }
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+    } finally {
+        getStorage().close();
+    }
+}
+
+main();
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadGlobalAlertRules, saveGlobalAlertRules, validateAlertRules, type AlertRule } from '@/lib/alerts';
+import { requireRole } from '@/lib/auth';
+
+// GET - global alert rules (applied to every event)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  return NextResponse.json({ success: true, rules: loadGlobalAlertRules() });
+}
+
+// PUT - replace the global rules: { rules: AlertRule[] }
+export async function PUT(request: NextRequest) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  try {
+    const body = await request.json();
+    const error = validateAlertRules(body?.rules);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    saveGlobalAlertRules(body.rules as AlertRule[]);
+    return NextResponse.json({ success: true, rules: body.rules });
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save alert rules',
+    }, { status: 500 });
+  }
+}
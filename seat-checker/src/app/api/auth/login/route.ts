@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { login } from '@/lib/auth';
+
+// POST - log in: { username, password }; sets the session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    if (typeof body?.username !== 'string' || typeof body?.password !== 'string') {
+      return NextResponse.json({ success: false, error: '"username" and "password" are required' }, { status: 400 });
+    }
+
+    const result = login(body.username, body.password);
+    if ('error' in result) {
+      return NextResponse.json({ success: false, error: result.error }, { status: 401 });
+    }
+
+    const response = NextResponse.json({ success: true, user: result.user });
+    response.headers.append('Set-Cookie', result.cookie);
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Login failed',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { logout } from '@/lib/auth';
+
+// POST - end the current session
+export async function POST(request: NextRequest) {
+  const response = NextResponse.json({ success: true });
+  response.headers.append('Set-Cookie', logout(request));
+  return response;
+}
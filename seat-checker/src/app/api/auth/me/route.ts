@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestUser, isAuthEnabled } from '@/lib/auth';
+
+// GET - the logged-in user (null when not logged in) and whether login is required at all
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    success: true,
+    authEnabled: isAuthEnabled(),
+    user: getRequestUser(request),
+  });
+}
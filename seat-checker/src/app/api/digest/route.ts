@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizer } from '@/lib/organizers';
+import { DEFAULT_ORGANIZER_ID } from '@/lib/types';
+import {
+  buildSalesDigest,
+  getDigestRange,
+  isValidDay,
+  renderDigestHtml,
+  renderDigestMarkdown,
+  getDigestTitle,
+  type DigestRange,
+} from '@/lib/digest';
+import { requireRole } from '@/lib/auth';
+
+// Longest range a single request may cover
+const MAX_RANGE_DAYS = 366;
+
+// GET - sales digest of an organizer for a range of days
+//   ?from=RRRR-MM-DD&to=RRRR-MM-DD or ?period=daily|weekly (default: yesterday)
+//   ?organizer=<id>, ?format=json|markdown|html (default json)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const { searchParams } = new URL(request.url);
+  const organizerId = searchParams.get('organizer') || DEFAULT_ORGANIZER_ID;
+  const format = searchParams.get('format') || 'json';
+  const period = searchParams.get('period') || 'daily';
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+
+  const organizer = getOrganizer(organizerId);
+  if (!organizer) {
+    return NextResponse.json({ success: false, error: `Unknown organizer: ${organizerId}` }, { status: 404 });
+  }
+  if (!['json', 'markdown', 'html'].includes(format)) {
+    return NextResponse.json({ success: false, error: '"format" must be json, markdown or html' }, { status: 400 });
+  }
+
+  let range: DigestRange;
+  if (from || to) {
+    const last = to || from;
+    if (!isValidDay(from) || !isValidDay(last)) {
+      return NextResponse.json({ success: false, error: '"from" and "to" must be dates (RRRR-MM-DD)' }, { status: 400 });
+    }
+    const days = (new Date(last).getTime() - new Date(from).getTime()) / (24 * 60 * 60 * 1000);
+    if (days < 0 || days >= MAX_RANGE_DAYS) {
+      return NextResponse.json({ success: false, error: `"from" must not be after "to" and the range at most ${MAX_RANGE_DAYS} days` }, { status: 400 });
+    }
+    range = { from, to: last };
+  } else if (period === 'daily' || period === 'weekly') {
+    range = getDigestRange(period);
+  } else {
+    return NextResponse.json({ success: false, error: '"period" must be daily or weekly' }, { status: 400 });
+  }
+
+  try {
+    const digest = await buildSalesDigest(organizer, range);
+
+    if (format === 'markdown') {
+      return new NextResponse(`# ${getDigestTitle(digest)}\n\n${renderDigestMarkdown(digest)}\n`, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' },
+      });
+    }
+    if (format === 'html') {
+      return new NextResponse(renderDigestHtml(digest), {
+        headers: { 'Content-Type': 'text/html; charset=utf-8' },
+      });
+    }
+    return NextResponse.json({ success: true, digest });
+  } catch (error) {
+    console.error('Error building digest:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to build digest',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getEffectiveAlertRules,
+  loadAlertState,
+  loadEventAlertRules,
+  saveEventAlertRules,
+  validateAlertRules,
+  type EventAlertRule,
+} from '@/lib/alerts';
+import { requireRole } from '@/lib/auth';
+import { resolveEventId } from '@/lib/eventIdentity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - the event's own rules, the rules actually applied (global + event) and active conditions
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  // Former IDs (before a title/time edit) point to the current one
+  const id = resolveEventId((await params).id);
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      eventId: id,
+      rules: loadEventAlertRules(id),
+      effectiveRules: getEffectiveAlertRules(id),
+      active: loadAlertState(id)?.active || {},
+    },
+  });
+}
+
+// PUT - replace the event's rules: { rules: [...] }; { id, enabled: false } mutes a global rule,
+// an empty list goes back to the global rules only
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  const id = resolveEventId((await params).id);
+
+  try {
+    const body = await request.json();
+    const error = validateAlertRules(body?.rules, true);
+    if (error) {
+      return NextResponse.json({ success: false, error }, { status: 400 });
+    }
+
+    saveEventAlertRules(id, body.rules as EventAlertRule[]);
+    return NextResponse.json({
+      success: true,
+      data: {
+        eventId: id,
+        rules: body.rules,
+        effectiveRules: getEffectiveAlertRules(id),
+      },
+    });
+  } catch (error) {
+    console.error('Error saving alert rules:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save alert rules',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadStatsTimeSeries, type StatsHistoryRange } from '@/lib/statsHistory';
+import { requireRole } from '@/lib/auth';
+import { resolveEventId } from '@/lib/eventIdentity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Accepts a date (YYYY-MM-DD) or a full ISO timestamp; a bare "to" date covers that whole day
+function parseRangeParam(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return undefined;
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(isDateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}` : value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// GET - sales time series of an event, optionally limited with ?from=...&to=...
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  // Former IDs (before a title/time edit) point to the current one
+  const id = resolveEventId((await params).id);
+  const { searchParams } = new URL(request.url);
+
+  const from = parseRangeParam(searchParams.get('from'), false);
+  const to = parseRangeParam(searchParams.get('to'), true);
+  if (from === null || to === null) {
+    return NextResponse.json({ success: false, error: 'Invalid "from" or "to" date' }, { status: 400 });
+  }
+
+  const range: StatsHistoryRange = { from, to };
+  const points = await loadStatsTimeSeries(id, range);
+
+  return NextResponse.json({
+    success: true,
+    eventId: id,
+    points,
+  });
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import type { SourceType } from '@/lib/types';
+import { SOURCE_IDS } from '@/lib/sources/meta';
+import { getStorage } from '@/lib/storage';
+import { requireRole } from '@/lib/auth';
+import { resolveEventId } from '@/lib/eventIdentity';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -8,9 +11,20 @@ interface RouteParams {
 
 // Snapshot statystyk przy zapisie (do porównywania zmian)
 interface StatsSnapshot {
-  biletynaTaken: number;
-  ebiletTaken: number;
-  kupbilecikTaken: number;
+  taken: Partial<Record<SourceType, number>>;
+}
+
+// Snapshots saved before the source registry used flat "biletynaTaken"-style fields
+type LegacyStatsSnapshot = Partial<Record<`${SourceType}Taken`, number>>;
+
+function upgradeSnapshot(snapshot: StatsSnapshot | LegacyStatsSnapshot | undefined): StatsSnapshot | undefined {
+  if (!snapshot || 'taken' in snapshot) return snapshot;
+  const taken: Partial<Record<SourceType, number>> = {};
+  for (const source of SOURCE_IDS) {
+    const value = snapshot[`${source}Taken`];
+    if (typeof value === 'number') taken[source] = value;
+  }
+  return { taken };
 }
 
 // Structure for storing seat overrides
@@ -20,65 +34,41 @@ interface SeatOverrides {
   eventId: string;
   lastUpdated: string;
   overrides: Record<string, string>;
-  statsSnapshot?: StatsSnapshot;
-}
-
-// Get the data directory path
-function getDataDir(): string {
-  return path.join(process.cwd(), 'data', 'overrides');
-}
-
-// Get the file path for a specific event's overrides
-function getOverridesFilePath(eventId: string): string {
-  // Sanitize eventId to be a safe filename
-  const safeId = eventId.replace(/[^a-zA-Z0-9-_]/g, '_');
-  return path.join(getDataDir(), `${safeId}.json`);
-}
-
-// Ensure the data directory exists
-async function ensureDataDir(): Promise<void> {
-  const dataDir = getDataDir();
-  try {
-    await fs.access(dataDir);
-  } catch {
-    await fs.mkdir(dataDir, { recursive: true });
-  }
+  statsSnapshot?: StatsSnapshot | LegacyStatsSnapshot;
 }
 
 // GET - Retrieve saved overrides for an event
 export async function GET(request: NextRequest, { params }: RouteParams) {
-  const { id } = await params;
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
 
-  try {
-    const filePath = getOverridesFilePath(id);
+  // Former IDs (before a title/time edit) point to the current one
+  const id = resolveEventId((await params).id);
 
-    try {
-      const fileContent = await fs.readFile(filePath, 'utf-8');
-      const data: SeatOverrides = JSON.parse(fileContent);
+  try {
+    const data = getStorage().getDocument<SeatOverrides>('overrides', id);
 
+    if (!data) {
+      // No overrides saved yet
       return NextResponse.json({
         success: true,
         data: {
-          eventId: data.eventId,
-          lastUpdated: data.lastUpdated,
-          overrides: data.overrides,
-          statsSnapshot: data.statsSnapshot,
+          eventId: id,
+          lastUpdated: null,
+          overrides: {},
         },
       });
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        // File doesn't exist - no overrides saved yet
-        return NextResponse.json({
-          success: true,
-          data: {
-            eventId: id,
-            lastUpdated: null,
-            overrides: {},
-          },
-        });
-      }
-      throw error;
     }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        eventId: data.eventId,
+        lastUpdated: data.lastUpdated,
+        overrides: data.overrides,
+        statsSnapshot: upgradeSnapshot(data.statsSnapshot),
+      },
+    });
   } catch (error) {
     console.error('Error reading overrides:', error);
     return NextResponse.json({
@@ -90,7 +80,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
 // POST - Save overrides for an event
 export async function POST(request: NextRequest, { params }: RouteParams) {
-  const { id } = await params;
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  const id = resolveEventId((await params).id);
 
   try {
     const body = await request.json();
@@ -103,8 +96,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }, { status: 400 });
     }
 
-    await ensureDataDir();
-
     const data: SeatOverrides = {
       eventId: id,
       lastUpdated: new Date().toISOString(),
@@ -112,8 +103,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       statsSnapshot: statsSnapshot,
     };
 
-    const filePath = getOverridesFilePath(id);
-    await fs.writeFile(filePath, JSON.stringify(data, null, 2), 'utf-8');
+    getStorage().putDocument('overrides', id, data);
 
     return NextResponse.json({
       success: true,
@@ -135,27 +125,27 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
 // DELETE - Remove all overrides for an event
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
-  const { id } = await params;
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  const id = resolveEventId((await params).id);
 
   try {
-    const filePath = getOverridesFilePath(id);
+    const storage = getStorage();
 
-    try {
-      await fs.unlink(filePath);
+    if (storage.getDocument<SeatOverrides>('overrides', id) === null) {
+      // Nothing saved - nothing to delete
       return NextResponse.json({
         success: true,
-        message: 'Overrides deleted successfully',
+        message: 'No overrides to delete',
       });
-    } catch (error: any) {
-      if (error.code === 'ENOENT') {
-        // File doesn't exist - nothing to delete
-        return NextResponse.json({
-          success: true,
-          message: 'No overrides to delete',
-        });
-      }
-      throw error;
     }
+
+    storage.deleteDocument('overrides', id);
+    return NextResponse.json({
+      success: true,
+      message: 'Overrides deleted successfully',
+    });
   } catch (error) {
     console.error('Error deleting overrides:', error);
     return NextResponse.json({
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { loadSeatLog } from '@/lib/seatLog';
+import { replaySeatLog } from '@/lib/statsAggregation';
+import { normalizeSeatKey } from '@/lib/seat-scrapers/utils';
+import { requireRole } from '@/lib/auth';
+import { resolveEventId } from '@/lib/eventIdentity';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - transition log of a seat, e.g. ?seat=5-12 (all sectors) or ?seat=PARTER:5-12
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  // Former IDs (before a title/time edit) point to the current one
+  const id = resolveEventId((await params).id);
+  const { searchParams } = new URL(request.url);
+  const seatParam = searchParams.get('seat');
+
+  if (!seatParam) {
+    return NextResponse.json({ success: false, error: 'Missing "seat" parameter (Row-Seat or Sector:Row-Seat)' }, { status: 400 });
+  }
+
+  const separator = seatParam.lastIndexOf(':');
+  const sector = separator >= 0 ? seatParam.slice(0, separator) : null;
+  const seatKey = normalizeSeatKey(separator >= 0 ? seatParam.slice(separator + 1) : seatParam);
+
+  const log = await loadSeatLog(id);
+  const matches = (seat: string) => {
+    const [seatSector, key] = [seat.slice(0, seat.lastIndexOf(':')), seat.slice(seat.lastIndexOf(':') + 1)];
+    return key === seatKey && (sector === null || seatSector === sector);
+  };
+
+  const transitions = log.filter(t => matches(t.seat));
+  const state = replaySeatLog(log);
+
+  // Current status of every matching seat (one per sector)
+  const seats = Array.from(new Set(transitions.map(t => t.seat))).map(seat => ({
+    seat,
+    status: state.sold[seat] ? 'sold' : state.free[seat] ? 'free' : 'unknown',
+    source: state.sold[seat] ?? state.free[seat] ?? null,
+  }));
+
+  return NextResponse.json({
+    success: true,
+    eventId: id,
+    seats,
+    transitions,
+  });
+}
@@ -1,15 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { scrapeEventStats } from '@/lib/scrapers/eventScraper';
-import type { JoinedEvent } from '@/lib/types';
+import { enqueueStatsRefresh, JobCancelledError, toJobSummary, waitForJob } from '@/lib/jobs';
 import { loadHistory, clearHistory } from '@/lib/history';
 import { loadFullStats } from '@/lib/fullStatsCache';
+import { SOURCE_IDS } from '@/lib/sources/meta';
+import { resolveEventId } from '@/lib/eventIdentity';
+import { requireRole } from '@/lib/auth';
+import { getStorage } from '@/lib/storage';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
 export async function GET(request: NextRequest, { params }: RouteParams) {
-  const { id } = await params;
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  // Former IDs (before a title/time edit) point to the current one
+  const id = resolveEventId((await params).id);
 
   // Try to load fully cached stats first (Instant Load)
   const cachedStats = loadFullStats(id);
@@ -30,22 +37,23 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 }
 
 export async function POST(request: NextRequest, { params }: RouteParams) {
-  const { id } = await params;
+  // Reading (cached) stats is for everyone, anything that scrapes is for operators
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const id = resolveEventId((await params).id);
 
   try {
     const body = await request.json();
-    let event: JoinedEvent = body.event;
     // Check if client explicitly requested a refresh (e.g. clicked "Odśwież")
     const forceRefresh = body.forceRefresh || false;
     const background = body.background || false;
 
-    if (!event) {
-      const { loadEventFromFile } = await import('@/lib/eventsFileCache');
-      const fileEvent = loadEventFromFile(id);
-      if (!fileEvent) {
-        return NextResponse.json({ error: 'Event data is required and not found in cache' }, { status: 400 });
-      }
-      event = fileEvent;
+    // The event (and the URLs scraped) always comes from the server's list; a client
+    // still sending it must mean the same event
+    if (body.event !== undefined
+      && (typeof body.event?.globalEventId !== 'string' || resolveEventId(body.event.globalEventId) !== id)) {
+      return NextResponse.json({ success: false, error: 'Event in the body does not match the URL' }, { status: 400 });
     }
 
     // Safety check: if we have cache and NOT forced, return it
@@ -57,23 +65,37 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }
     }
 
-    if (background) {
-      console.log(`API: Starting background refresh for event ${id}`);
-      // Fire and forget - do not await
-      scrapeEventStats(event, id).catch(err => {
-        console.error(`Background Scraping Error for ${id}:`, err);
-      });
+    const operator = requireRole(request, 'operator');
+    if (operator instanceof Response) return operator;
 
+    const { loadEventFromFile } = await import('@/lib/eventsFileCache');
+    const event = loadEventFromFile(id);
+    if (!event) {
+      return NextResponse.json({ success: false, error: `Unknown event: ${id}` }, { status: 404 });
+    }
+
+    // Every refresh is a job; a second request for the same event joins the pending one
+    const { job, deduplicated } = enqueueStatsRefresh(event, {
+      trigger: 'ui',
+      requestedBy: operator.username,
+    });
+
+    if (background) {
+      console.log(`API: Background refresh for event ${id} is job ${job.id}${deduplicated ? ' (already queued)' : ''}`);
+      // Progress is watched through /api/jobs/<jobId>
       return NextResponse.json({
         success: true,
         message: 'Update started in background',
-        background: true
+        background: true,
+        jobId: job.id,
+        job: toJobSummary(job),
+        deduplicated,
       }, { status: 202 });
     }
 
     // Foreground execution
-    console.log(`API: Starting foreground refresh for event ${id}`);
-    const combinedStats = await scrapeEventStats(event, id);
+    console.log(`API: Foreground refresh for event ${id} is job ${job.id}`);
+    const combinedStats = await waitForJob(job.id);
 
     return NextResponse.json({
       success: true,
@@ -81,6 +103,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     });
 
   } catch (error) {
+    if (error instanceof JobCancelledError) {
+      return NextResponse.json({ success: false, error: 'Refresh cancelled' }, { status: 409 });
+    }
     console.error('Error fetching event stats:', error);
     return NextResponse.json({
       success: false,
@@ -89,27 +114,35 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   }
 }
 
+// DELETE - clear every cache, history and override of the event (admin)
 export async function DELETE(
   request: NextRequest,
   { params }: RouteParams
 ) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
   try {
-    const { id } = await params;
+    const id = resolveEventId((await params).id);
 
     const { clearCachedUrl } = await import('@/lib/urlCache');
 
     // Clear all known sources
-    const sources = ['ebilet', 'biletyna', 'kupbilecik'];
-    for (const source of sources) {
+    for (const source of SOURCE_IDS) {
       clearCachedUrl(id, source);
     }
 
     // Clear all histories and stat caches
     const { clearStatsHistory } = await import('@/lib/statsHistory');
     const { clearFullStats } = await import('@/lib/fullStatsCache');
+    const { clearSeatLog } = await import('@/lib/seatLog');
+    const { clearSoldHistory } = await import('@/lib/soldHistory');
     await clearHistory(id);
+    await clearSoldHistory(id);
+    await clearSeatLog(id);
     await clearStatsHistory(id);
     clearFullStats(id);
+    getStorage().deleteDocument('overrides', id);
 
     console.log(`Cache cleared for event ${id}`);
 
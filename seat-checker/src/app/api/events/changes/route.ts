@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_ORGANIZER_ID } from '@/lib/types';
+import { loadEventChanges } from '@/lib/eventChanges';
+import { requireRole } from '@/lib/auth';
+
+const DEFAULT_DAYS = 7;
+
+// GET - changes of the event list (added, removed from a platform, rescheduled, cancelled),
+// newest first; ?since=<date or ISO timestamp> or ?days=N (default 7), ?organizer=<id>
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const { searchParams } = new URL(request.url);
+  const organizerId = searchParams.get('organizer') || DEFAULT_ORGANIZER_ID;
+  const sinceParam = searchParams.get('since');
+  const days = parseInt(searchParams.get('days') || String(DEFAULT_DAYS), 10);
+
+  const since = sinceParam
+    ? new Date(sinceParam)
+    : new Date(Date.now() - (isNaN(days) ? DEFAULT_DAYS : days) * 24 * 60 * 60 * 1000);
+  if (isNaN(since.getTime())) {
+    return NextResponse.json({ success: false, error: 'Invalid "since" date' }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    organizerId,
+    since: since.toISOString(),
+    changes: loadEventChanges(organizerId, since).reverse(),
+  });
+}
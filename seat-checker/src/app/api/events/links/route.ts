@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { JoinedEvent, SourceType } from '@/lib/types';
+import { isSourceType } from '@/lib/sources/meta';
+import { getListingKey } from '@/lib/eventMatch';
+import { loadEventLinks, addEventLinkRules, removeEventLinkRule } from '@/lib/eventLinks';
+import { rebuildEventCatalog } from '@/lib/eventCatalog';
+import { loadEventsFromFile } from '@/lib/eventsFileCache';
+import { loadOrganizers } from '@/lib/organizers';
+import { requireRole } from '@/lib/auth';
+
+// Manual corrections of the cross-platform join.
+// Listings are "source|eventCardUrl|date time" keys; rules are applied on every events refresh.
+
+function findEvent(id: string): JoinedEvent | undefined {
+  return loadEventsFromFile().find(e => e.globalEventId === id);
+}
+
+function listingKey(event: JoinedEvent, source: SourceType): string {
+  const data = event.sources[source]!;
+  return getListingKey(source, { eventCardUrl: data.eventCardUrl, date: event.date, time: data.time ?? event.time });
+}
+
+function listingKeys(event: JoinedEvent): string[] {
+  return Object.entries(event.sources)
+    .filter(([, data]) => data)
+    .map(([source]) => listingKey(event, source as SourceType));
+}
+
+// Returns the re-joined events of all organizers (keyed by organizer ID)
+function respond() {
+  // Apply the rules to the last scraped listings right away
+  const events: Record<string, JoinedEvent[] | undefined> = {};
+  for (const organizer of loadOrganizers()) {
+    events[organizer.id] = rebuildEventCatalog(organizer.id)?.events;
+  }
+  return NextResponse.json({
+    success: true,
+    rules: loadEventLinks().rules,
+    events,
+  });
+}
+
+// GET - list all manual link/split rules
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  return NextResponse.json({
+    success: true,
+    rules: loadEventLinks().rules,
+  });
+}
+
+// POST - add a rule
+//   { action: "link", eventIds: [id1, id2, ...] }  - join these events into one
+//   { action: "link", listings: [key1, key2] }     - join two listings
+//   { action: "unlink", eventId, source }           - split one platform off a joined event
+//   { action: "unlink", listings: [key1, key2] }   - never join two listings
+export async function POST(request: NextRequest) {
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  try {
+    const body = await request.json();
+    const { action } = body;
+
+    if (action !== 'link' && action !== 'unlink') {
+      return NextResponse.json({ success: false, error: 'Invalid action (link | unlink)' }, { status: 400 });
+    }
+
+    let pairs: Array<[string, string]> = [];
+
+    if (Array.isArray(body.listings)) {
+      if (body.listings.length !== 2) {
+        return NextResponse.json({ success: false, error: '"listings" must contain exactly two keys' }, { status: 400 });
+      }
+      pairs = [[String(body.listings[0]), String(body.listings[1])]];
+    } else if (action === 'link') {
+      const ids: unknown = body.eventIds;
+      if (!Array.isArray(ids) || ids.length < 2) {
+        return NextResponse.json({ success: false, error: '"eventIds" must contain at least two events' }, { status: 400 });
+      }
+      const events = ids.map(id => findEvent(String(id)));
+      const missing = ids.filter((_, i) => !events[i]);
+      if (missing.length > 0) {
+        return NextResponse.json({ success: false, error: `Unknown events: ${missing.join(', ')}` }, { status: 404 });
+      }
+      // Link every listing to the first listing of the first event
+      const [anchor, ...others] = events.flatMap(e => listingKeys(e!));
+      pairs = others.map(key => [anchor, key] as [string, string]);
+    } else {
+      const { eventId, source } = body;
+      if (!isSourceType(source)) {
+        return NextResponse.json({ success: false, error: 'Invalid source' }, { status: 400 });
+      }
+      const event = eventId ? findEvent(String(eventId)) : undefined;
+      const sourceData = event?.sources[source];
+      if (!event || !sourceData) {
+        return NextResponse.json({ success: false, error: 'Unknown event or source not in event' }, { status: 404 });
+      }
+      const key = listingKey(event, source);
+      pairs = listingKeys(event)
+        .filter(other => other !== key)
+        .map(other => [key, other] as [string, string]);
+    }
+
+    if (pairs.length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to link or unlink' }, { status: 400 });
+    }
+
+    addEventLinkRules(action === 'link' ? 'link' : 'split', pairs);
+    return respond();
+  } catch (error) {
+    console.error('Error saving event link:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save event link',
+    }, { status: 500 });
+  }
+}
+
+// DELETE - remove the rule for a pair of listings { a, b } (the matcher decides again)
+export async function DELETE(request: NextRequest) {
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  try {
+    const { a, b } = await request.json();
+    if (!a || !b) {
+      return NextResponse.json({ success: false, error: 'Missing "a" or "b" listing key' }, { status: 400 });
+    }
+
+    removeEventLinkRule(String(a), String(b));
+    return respond();
+  } catch (error) {
+    console.error('Error removing event link:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to remove event link',
+    }, { status: 500 });
+  }
+}
@@ -1,62 +1,43 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_ORGANIZER_ID } from '@/lib/types';
 import { scrapeAllEvents } from '@/lib/scrapers';
-import { joinEvents } from '@/lib/eventJoin';
-import type { JoinedEvent } from '@/lib/types';
-import { hasCachedData, getCacheTimestamp } from '@/lib/urlCache';
-import { saveEventsToFile } from '@/lib/eventsFileCache';
-import fs from 'fs';
-import path from 'path';
+import { buildEventCatalog, getEventCatalog } from '@/lib/eventCatalog';
+import { getOrganizer } from '@/lib/organizers';
+import { requireRole } from '@/lib/auth';
 
-const SEEN_EVENTS_FILE = path.join(process.cwd(), 'data', 'seen_events.json');
-
-function loadSeenEvents(): Set<string> {
-  try {
-    if (fs.existsSync(SEEN_EVENTS_FILE)) {
-      const data = fs.readFileSync(SEEN_EVENTS_FILE, 'utf-8');
-      const ids = JSON.parse(data);
-      return new Set(ids);
-    }
-  } catch (e) {
-    console.error('Failed to load seen events:', e);
-  }
-  return new Set();
+// Every list is per organizer: ?organizer=<id> (default organizer when omitted)
+function organizerIdFrom(request: NextRequest): string {
+  return new URL(request.url).searchParams.get('organizer') || DEFAULT_ORGANIZER_ID;
 }
 
-function saveSeenEvents(ids: Set<string>) {
-  try {
-    const dir = path.dirname(SEEN_EVENTS_FILE);
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(SEEN_EVENTS_FILE, JSON.stringify(Array.from(ids), null, 2));
-  } catch (e) {
-    console.error('Failed to save seen events:', e);
-  }
+function unknownOrganizer(organizerId: string) {
+  return NextResponse.json({ success: false, error: `Unknown organizer: ${organizerId}` }, { status: 404 });
 }
 
-// In-memory cache for events (in production, use Redis or similar)
-let eventsCache: {
-  events: JoinedEvent[];
-  lastUpdated: Date | null;
-} = {
-  events: [],
-  lastUpdated: null,
-};
-
 // GET - fetch cached events or scrape new ones
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
   try {
+    const organizerId = organizerIdFrom(request);
+    if (!getOrganizer(organizerId)) return unknownOrganizer(organizerId);
+
     // If memory cache is empty (server just started), perform an initial fetch automatically
-    if (eventsCache.events.length === 0) {
-      console.log('Cache is empty on GET request. Performing initial scrape...');
-      const response = await POST();
-      // POST automatically updates eventsCache, so we can just fall through or return its response
+    const catalog = getEventCatalog(organizerId);
+    if (catalog.events.length === 0) {
+      console.log(`Cache is empty on GET request (${organizerId}). Performing initial scrape...`);
+      const response = await refreshEvents(request);
+      // The refresh automatically updates the event catalog, so we can just fall through or return its response
       return response;
     }
 
     // Always return cached events for GET.
     return NextResponse.json({
       success: true,
-      events: eventsCache.events || [],
-      lastUpdated: eventsCache.lastUpdated?.toISOString() || null,
+      organizerId,
+      events: catalog.events || [],
+      lastUpdated: catalog.lastUpdated?.toISOString() || null,
       fromCache: true,
     });
 
@@ -69,42 +50,34 @@ export async function GET() {
   }
 }
 
-// POST - force refresh events
-export async function POST() {
+// POST - force refresh events (operator)
+export async function POST(request: NextRequest) {
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  return refreshEvents(request);
+}
+
+async function refreshEvents(request: NextRequest) {
   try {
-    console.log('Force refreshing events...');
+    const organizerId = organizerIdFrom(request);
+    const organizer = getOrganizer(organizerId);
+    if (!organizer) return unknownOrganizer(organizerId);
+
+    console.log(`Force refreshing events (${organizer.name})...`);
 
     // Scrape fresh events
-    const scrapeResults = await scrapeAllEvents();
+    const scrapeResults = await scrapeAllEvents(organizer);
 
     // Collect all raw events
     const allRawEvents = scrapeResults.flatMap(result => result.events);
 
-    // Join events from all sources
-    // Join events from all sources
-    const joinedEventsRaw = joinEvents(allRawEvents);
-
-    // Enrich events
-    const seenEvents = loadSeenEvents();
-    const joinedEvents = joinedEventsRaw.map(evt => {
-      const isNew = !seenEvents.has(evt.globalEventId);
-      if (isNew) seenEvents.add(evt.globalEventId);
-
-      return {
-        ...evt,
-        hasCache: hasCachedData(evt.globalEventId),
-        cacheTimestamp: getCacheTimestamp(evt.globalEventId) || undefined,
-        isNew
-      };
-    });
-    saveSeenEvents(seenEvents);
-    saveEventsToFile(joinedEvents);
-
-    // Update cache
-    eventsCache = {
-      events: joinedEvents,
-      lastUpdated: new Date(),
-    };
+    // Join events from all sources (fuzzy matching + manual link table), enrich and save
+    // Platforms that failed (or came back empty) must not make their events look removed
+    const unavailableSources = scrapeResults
+      .filter(r => r.error || r.events.length === 0)
+      .map(r => r.source);
+    const catalog = buildEventCatalog(organizer.id, allRawEvents, { unavailableSources, detectChanges: true });
 
     // Build response with scrape details
     const sourceDetails = scrapeResults.map(r => ({
@@ -115,9 +88,11 @@ export async function POST() {
 
     return NextResponse.json({
       success: true,
-      events: joinedEvents,
-      lastUpdated: eventsCache.lastUpdated?.toISOString() || new Date().toISOString(),
+      organizerId: organizer.id,
+      events: catalog.events,
+      lastUpdated: catalog.lastUpdated?.toISOString() || new Date().toISOString(),
       sourceDetails,
+      changes: catalog.changes,
     });
 
   } catch (error) {
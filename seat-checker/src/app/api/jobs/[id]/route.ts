@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { cancelJob, isFinished, loadJob, toJobSummary } from '@/lib/jobs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+function unknownJob(id: string) {
+  return NextResponse.json({ success: false, error: `Unknown job: ${id}` }, { status: 404 });
+}
+
+// GET - one job with its status and per-platform progress
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const { id } = await params;
+  const job = loadJob(id);
+  if (!job) return unknownJob(id);
+
+  return NextResponse.json({ success: true, job: toJobSummary(job) });
+}
+
+// DELETE - cancel a queued or running job (operator)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'operator');
+  if (auth instanceof Response) return auth;
+
+  const { id } = await params;
+  const existing = loadJob(id);
+  if (!existing) return unknownJob(id);
+  if (isFinished(existing)) {
+    return NextResponse.json({ success: false, error: `Job already ${existing.status}` }, { status: 409 });
+  }
+
+  const job = cancelJob(id) || existing;
+  return NextResponse.json({ success: true, job: toJobSummary(job) });
+}
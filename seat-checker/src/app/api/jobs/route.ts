@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { listJobs, toJobSummary, type JobStatus } from '@/lib/jobs';
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'running', 'done', 'failed', 'cancelled'];
+const DEFAULT_LIMIT = 50;
+
+// GET - stats refresh jobs, newest first;
+// ?status=queued,running (comma-separated), ?event=<id>, ?limit=N (default 50)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const { searchParams } = new URL(request.url);
+  const statusParam = searchParams.get('status');
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+
+  const statuses = statusParam ? statusParam.split(',').map(s => s.trim()) : undefined;
+  const unknown = statuses?.find(status => !JOB_STATUSES.includes(status as JobStatus));
+  if (unknown) {
+    return NextResponse.json({ success: false, error: `Unknown status: ${unknown}` }, { status: 400 });
+  }
+
+  const jobs = listJobs({
+    statuses: statuses as JobStatus[] | undefined,
+    eventId: searchParams.get('event') || undefined,
+    limit: isNaN(limit) || limit <= 0 ? DEFAULT_LIMIT : limit,
+  });
+  return NextResponse.json({ success: true, jobs: jobs.map(toJobSummary) });
+}
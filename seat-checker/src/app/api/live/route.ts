@@ -0,0 +1,34 @@
+import { NextRequest } from 'next/server';
+import { requireRole } from '@/lib/auth';
+import { resolveEventId } from '@/lib/eventIdentity';
+import { listJobs, toJobSummary } from '@/lib/jobs';
+import { createLiveStream, type LiveUpdate } from '@/lib/liveUpdates';
+
+// Never cached or pre-rendered - every request is its own long-lived stream
+export const dynamic = 'force-dynamic';
+
+// GET - Server-Sent Events: "job" (refresh progress), "stats" (finished CombinedEventStats)
+// and "sales" (seats sold/returned in a refresh); ?event=<id> limits them to one event
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  // Former IDs (before a title/time edit) point to the current one
+  const requested = new URL(request.url).searchParams.get('event');
+  const eventId = requested ? resolveEventId(requested) : null;
+
+  // Pending refreshes first, so a reloaded page shows their progress right away
+  const initial: LiveUpdate[] = listJobs({ statuses: ['queued', 'running'], eventId: eventId || undefined })
+    .reverse()
+    .map(job => ({ type: 'job', eventId: job.eventId, job: toJobSummary(job) }));
+
+  return new Response(createLiveStream(eventId, request.signal, initial), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // nginx: pass events through without buffering
+      'X-Accel-Buffering': 'no',
+    },
+  });
+}
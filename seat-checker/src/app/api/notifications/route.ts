@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describeChannels, loadDeliveryRecords } from '@/lib/notifications';
+import { requireRole } from '@/lib/auth';
+
+const DEFAULT_LIMIT = 100;
+
+// GET - configured notification channels (without secrets) and the delivery log, newest first;
+// ?channel=<id>, ?since=<date or ISO timestamp>, ?limit=N (default 100)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  const { searchParams } = new URL(request.url);
+  const channelId = searchParams.get('channel') || undefined;
+  const sinceParam = searchParams.get('since');
+  const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT), 10);
+
+  const since = sinceParam ? new Date(sinceParam) : undefined;
+  if (since && isNaN(since.getTime())) {
+    return NextResponse.json({ success: false, error: 'Invalid "since" date' }, { status: 400 });
+  }
+
+  return NextResponse.json({
+    success: true,
+    channels: describeChannels(),
+    deliveries: loadDeliveryRecords({
+      channelId,
+      since,
+      limit: isNaN(limit) || limit <= 0 ? DEFAULT_LIMIT : limit,
+    }),
+  });
+}
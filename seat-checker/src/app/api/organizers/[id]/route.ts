@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_ORGANIZER_ID } from '@/lib/types';
+import { deleteOrganizer, getOrganizer, loadOrganizers } from '@/lib/organizers';
+import { requireRole } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// DELETE - remove an organizer from the list (its events and their data stay in storage).
+// The default organizer cannot be removed - deleting it restores its built-in listing URLs.
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  const { id } = await params;
+
+  try {
+    if (!getOrganizer(id)) {
+      return NextResponse.json({ success: false, error: `Unknown organizer: ${id}` }, { status: 404 });
+    }
+
+    deleteOrganizer(id);
+    return NextResponse.json({
+      success: true,
+      message: id === DEFAULT_ORGANIZER_ID ? 'Default organizer reset' : 'Organizer removed',
+      organizers: loadOrganizers(),
+    });
+  } catch (error) {
+    console.error('Error deleting organizer:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete organizer',
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Organizer, SourceType } from '@/lib/types';
+import { isSourceType } from '@/lib/sources/meta';
+import { isValidOrganizerId, loadOrganizers, saveOrganizer } from '@/lib/organizers';
+import { requireRole } from '@/lib/auth';
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// GET - list organizers (the default one first)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'viewer');
+  if (auth instanceof Response) return auth;
+
+  return NextResponse.json({
+    success: true,
+    organizers: loadOrganizers(),
+  });
+}
+
+// POST - create or replace an organizer
+//   { id: "nazwa-organizatora", name: "Nazwa", listingUrls: { biletyna?, ebilet?, kupbilecik? } }
+export async function POST(request: NextRequest) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  try {
+    const { id, name, listingUrls } = await request.json();
+
+    if (!isValidOrganizerId(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid "id" (lowercase letters, digits and dashes, up to 40 characters)',
+      }, { status: 400 });
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ success: false, error: 'Missing "name"' }, { status: 400 });
+    }
+    if (!listingUrls || typeof listingUrls !== 'object') {
+      return NextResponse.json({ success: false, error: 'Missing "listingUrls"' }, { status: 400 });
+    }
+
+    const urls: Partial<Record<SourceType, string>> = {};
+    for (const [source, url] of Object.entries(listingUrls)) {
+      if (!url) continue;
+      if (!isSourceType(source)) {
+        return NextResponse.json({ success: false, error: `Unknown source: ${source}` }, { status: 400 });
+      }
+      if (!isHttpUrl(url)) {
+        return NextResponse.json({ success: false, error: `Invalid listing URL for ${source}` }, { status: 400 });
+      }
+      urls[source] = url;
+    }
+    if (Object.keys(urls).length === 0) {
+      return NextResponse.json({ success: false, error: 'At least one listing URL is required' }, { status: 400 });
+    }
+
+    const organizer: Organizer = { id, name: name.trim(), listingUrls: urls };
+    saveOrganizer(organizer);
+
+    return NextResponse.json({
+      success: true,
+      organizer,
+      organizers: loadOrganizers(),
+    });
+  } catch (error) {
+    console.error('Error saving organizer:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save organizer',
+    }, { status: 500 });
+  }
+}
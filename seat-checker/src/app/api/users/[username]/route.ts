@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteUser, deleteUserSessions, getUser, listUsers, requireRole } from '@/lib/auth';
+
+interface RouteParams {
+  params: Promise<{ username: string }>;
+}
+
+// DELETE - remove a user and their sessions (admin)
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  const { username } = await params;
+
+  try {
+    const user = getUser(username);
+    if (!user) {
+      return NextResponse.json({ success: false, error: `Unknown user: ${username}` }, { status: 404 });
+    }
+    if (user.role === 'admin' && listUsers().filter(u => u.role === 'admin').length <= 1) {
+      return NextResponse.json({ success: false, error: 'Cannot delete the last admin' }, { status: 409 });
+    }
+
+    deleteUser(user.username);
+    deleteUserSessions(user.username);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to delete user',
+    }, { status: 500 });
+  }
+}
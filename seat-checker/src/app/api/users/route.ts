@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  MIN_PASSWORD_LENGTH,
+  deleteUserSessions,
+  getUser,
+  isRole,
+  isValidUsername,
+  listUsers,
+  requireRole,
+  saveUser,
+  toPublicUser,
+} from '@/lib/auth';
+
+// GET - list users (admin)
+export async function GET(request: NextRequest) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  try {
+    return NextResponse.json({ success: true, users: listUsers().map(toPublicUser) });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to list users',
+    }, { status: 500 });
+  }
+}
+
+// POST - create a user or change one: { username, role?, password? } (admin)
+// A new user needs both role and password; a new password logs the user out everywhere.
+export async function POST(request: NextRequest) {
+  const auth = requireRole(request, 'admin');
+  if (auth instanceof Response) return auth;
+
+  try {
+    const body = await request.json();
+    const { username, role, password } = body || {};
+
+    if (!isValidUsername(username)) {
+      return NextResponse.json({ success: false, error: 'Invalid username (letters, digits, "_" and "-", up to 64)' }, { status: 400 });
+    }
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json({ success: false, error: `Unknown role: ${JSON.stringify(role)}` }, { status: 400 });
+    }
+    if (password !== undefined && (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH)) {
+      return NextResponse.json({ success: false, error: `Password must have at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+
+    const existing = getUser(username);
+    if (!existing && (!role || !password)) {
+      return NextResponse.json({ success: false, error: 'A new user needs "role" and "password"' }, { status: 400 });
+    }
+    // Keep at least one admin, otherwise nobody could manage users any more
+    if (existing?.role === 'admin' && role && role !== 'admin' && countAdmins() <= 1) {
+      return NextResponse.json({ success: false, error: 'Cannot demote the last admin' }, { status: 409 });
+    }
+
+    const user = saveUser(username, { role, password });
+    if (existing && password) deleteUserSessions(user.username);
+
+    return NextResponse.json({ success: true, user: toPublicUser(user) }, { status: existing ? 200 : 201 });
+  } catch (error) {
+    console.error('Error saving user:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to save user',
+    }, { status: 500 });
+  }
+}
+
+function countAdmins(): number {
+  return listUsers().filter(user => user.role === 'admin').length;
+}
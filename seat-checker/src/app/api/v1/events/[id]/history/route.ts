@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { getEventHistory, handleApiRequest } from '@/lib/publicApi';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - stats time series of an event (?from, ?to, ?limit, ?offset), see /api/v1/openapi.json
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return handleApiRequest(request, searchParams => getEventHistory(id, searchParams));
+}
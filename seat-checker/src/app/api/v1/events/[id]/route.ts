@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { getEvent, handleApiRequest } from '@/lib/publicApi';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// GET - one event, see /api/v1/openapi.json
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id } = await params;
+  return handleApiRequest(request, () => getEvent(id));
+}
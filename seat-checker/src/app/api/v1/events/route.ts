@@ -0,0 +1,7 @@
+import { NextRequest } from 'next/server';
+import { handleApiRequest, listEvents } from '@/lib/publicApi';
+
+// GET - events (?organizer, ?from, ?to, ?city, ?source, ?limit, ?offset), see /api/v1/openapi.json
+export async function GET(request: NextRequest) {
+  return handleApiRequest(request, params => listEvents(params));
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getOpenApiDocument } from '@/lib/publicApi';
+
+// GET - OpenAPI document of the public API (no API key needed)
+export async function GET() {
+  return NextResponse.json(getOpenApiDocument());
+}
@@ -1,113 +1,50 @@
 'use client';
 
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 
-// Types
-interface SourceData {
-  eventCardUrl: string;
-  buyButtonSelector: string;
-  venue?: string;
-}
-
-interface JoinedEvent {
-  globalEventId: string;
-  title: string;
-  date: string;
-  time: string;
-  city: string;
-  sources: {
-    biletyna?: SourceData;
-    ebilet?: SourceData;
-    kupbilecik?: SourceData;
-  };
-  hasCache?: boolean;
-  cacheTimestamp?: number;
-  isNew?: boolean;
-}
+import { DEFAULT_ORGANIZER_ID } from '@/lib/types';
+import type { JoinedEvent, RowStats, SectorStats, SourceStats, CombinedEventStats, SourceType, EventChange, Organizer } from '@/lib/types';
+import { SOURCE_META, SOURCE_IDS, SECTOR_REFERENCE_SOURCE, isSourceType, perSourceRecord } from '@/lib/sources/meta';
+import type { StatsHistoryEntry } from '@/lib/statsHistory';
+import { areTitlesSimilar } from '@/lib/eventMatch';
+import type { PublicUser, Role } from '@/lib/auth';
+import type { JobSummary, SourceProgress } from '@/lib/jobs';
 
-interface RowStats {
-  total: number;
-  free: number;
-  taken: number;
-}
-
-interface SectorStats {
-  sectorName: string;
-  rows: Record<string, RowStats>;
-  freeSeats: string[];
-  takenSeats: string[];
-  totals: {
-    total: number;
-    free: number;
-    taken: number;
-  };
-}
+type SeatStatus = 'free' | 'taken' | null;
 
-interface SourceStats {
-  source: 'biletyna' | 'ebilet' | 'kupbilecik';
-  totals: {
-    total: number;
-    free: number;
-    taken: number;
-  };
-  rows: Record<string, RowStats>;
-  freeSeats: string[];
-  takenSeats: string[];
-  sectors?: SectorStats[];
-  finalUrl?: string;
-}
-
-interface CombinedEventStats {
-  globalEventId: string;
-  title: string;
-  date: string;
-  perSource: {
-    biletyna?: SourceStats;
-    ebilet?: SourceStats;
-    kupbilecik?: SourceStats;
-  };
-  combinedTotals: {
-    total: number;
-    free: number;
-    taken: number;
-  };
-  inferredSold?: Record<string, 'biletyna' | 'ebilet' | 'kupbilecik'>;
-  diff?: {
-    biletynaSold: number;
-    ebiletSold: number;
-    kupbilecikSold: number;
-    lastUpdated: string;
-  };
-}
+// Last selected organizer (per browser)
+const ORGANIZER_STORAGE_KEY = 'seat-checker.organizer';
 
-type SourceType = 'biletyna' | 'ebilet' | 'kupbilecik';
+// Same order as ROLES in lib/auth (the server enforces it, this only hides buttons)
+const ROLE_LEVEL: Record<Role, number> = { viewer: 0, operator: 1, admin: 2 };
 
-const SOURCE_COLORS = {
-  biletyna: { bg: 'bg-purple-100', text: 'text-purple-700', border: 'border-purple-500' },
-  ebilet: { bg: 'bg-yellow-100', text: 'text-yellow-700', border: 'border-yellow-500' },
-  kupbilecik: { bg: 'bg-red-100', text: 'text-red-700', border: 'border-red-500' },
+// Seats that just sold / came back (live update), pulsing for a few seconds
+const SEAT_FLASH_CLASSES: Record<'sold' | 'returned', string> = {
+  sold: 'ring-4 ring-red-400 animate-pulse',
+  returned: 'ring-4 ring-green-400 animate-pulse',
 };
 
-const SOURCE_LABELS = {
-  biletyna: 'B',
-  ebilet: 'E',
-  kupbilecik: 'K',
+// Platform badges of a running refresh job
+const JOB_PROGRESS_STYLES: Record<SourceProgress, string> = {
+  pending: 'bg-gray-600 text-gray-300',
+  running: 'bg-blue-500 text-white animate-pulse',
+  done: 'bg-green-600 text-white',
+  failed: 'bg-red-600 text-white',
 };
 
-// Kolory dla wizualizacji miejsc (7 kolorow)
+// Snapshot statystyk przy zapisie overrides (do porownywania zmian)
+interface StatsSnapshot {
+  taken: Partial<Record<SourceType, number>>;
+}
+
+function emptySeatStatuses(): Record<SourceType, SeatStatus> {
+  return perSourceRecord<SeatStatus>(() => null);
+}
+
+// Kolory dla wizualizacji miejsc (2 na portal + specjalne)
+// Kolory portali pochodza z rejestru zrodel (SOURCE_META)
 const SEAT_COLORS = {
-  biletyna: {
-    free: '#DDA0DD',      // jasny fioletowy
-    taken: '#800080',     // ciemny fioletowy
-  },
-  ebilet: {
-    free: '#FFFF99',      // jasny zolty
-    taken: '#DAA520',     // ciemny zloty/zolty (goldenrod - jasniejszy)
-  },
-  kupbilecik: {
-    free: '#FF9999',      // jasny czerwony
-    taken: '#8B0000',     // ciemny czerwony
-  },
+  ...perSourceRecord(source => SOURCE_META[source].seatColors),
   noData: '#808080',      // szary
   // Kolory specjalne (tylko do recznego malowania)
   notForSale: '#000000',  // czarny - miejsca nie w sprzedazy
@@ -145,15 +82,24 @@ function normalizeSeatKey(seatKey: string): string {
   return seatKey;
 }
 
-// Helper: check if kupbilecik has multiple sectors
+// Helper: check if the reference source (kupbilecik) has multiple sectors
 function hasMultipleSectors(perSource: CombinedEventStats['perSource']): boolean {
-  const kupbilecik = perSource.kupbilecik;
-  return !!(kupbilecik?.sectors && kupbilecik.sectors.length > 1);
+  const reference = perSource[SECTOR_REFERENCE_SOURCE];
+  return !!(reference?.sectors && reference.sectors.length > 1);
 }
 
-// Get kupbilecik sectors as the base
-function getKupbilecikSectors(perSource: CombinedEventStats['perSource']): SectorStats[] {
-  return perSource.kupbilecik?.sectors || [];
+// Get reference source sectors as the base
+function getReferenceSectors(perSource: CombinedEventStats['perSource']): SectorStats[] {
+  return perSource[SECTOR_REFERENCE_SOURCE]?.sectors || [];
+}
+
+// Per-source free/taken counters for the seat map
+function emptyColorStats() {
+  return {
+    free: perSourceRecord(() => 0),
+    taken: perSourceRecord(() => 0),
+    noData: 0,
+  };
 }
 
 // Helper to get sector data from source stats
@@ -166,7 +112,7 @@ function getSectorData(sourceStats: SourceStats | undefined, sectorName: string)
 function getUnifiedSectors(perSource: CombinedEventStats['perSource']): string[] {
   const sectorNames = new Set<string>();
 
-  for (const portal of ['biletyna', 'ebilet', 'kupbilecik'] as SourceType[]) {
+  for (const portal of SOURCE_IDS) {
     const sourceStats = perSource[portal];
     if (sourceStats?.sectors) {
       for (const sector of sourceStats.sectors) {
@@ -232,16 +178,16 @@ function calculateSectorVisualizationWithBase(
   perSource: CombinedEventStats['perSource'],
   inferredSold?: Record<string, SourceType>
 ) {
-  const portals: SourceType[] = ['biletyna', 'ebilet', 'kupbilecik'];
+  const portals = SOURCE_IDS;
 
   // Use kupbilecik's seat layout as the base
   const seatsPerRow = new Map<string, string[]>();
-  const seatStatuses = new Map<string, Record<SourceType, 'free' | 'taken' | null>>();
+  const seatStatuses = new Map<string, Record<SourceType, SeatStatus>>();
 
   // Initialize from kupbilecik sector
   for (const seat of kbSector.freeSeats) {
     const normalizedSeat = normalizeSeatKey(seat);
-    seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: 'free' });
+    seatStatuses.set(normalizedSeat, { ...emptySeatStatuses(), [SECTOR_REFERENCE_SOURCE]: 'free' });
 
     const parts = normalizedSeat.split('-');
     const row = parts[0];
@@ -252,7 +198,7 @@ function calculateSectorVisualizationWithBase(
 
   for (const seat of kbSector.takenSeats) {
     const normalizedSeat = normalizeSeatKey(seat);
-    seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: 'taken' });
+    seatStatuses.set(normalizedSeat, { ...emptySeatStatuses(), [SECTOR_REFERENCE_SOURCE]: 'taken' });
 
     const parts = normalizedSeat.split('-');
     const row = parts[0];
@@ -263,8 +209,8 @@ function calculateSectorVisualizationWithBase(
     }
   }
 
-  // Find matching sectors from biletyna and ebilet
-  for (const portal of ['biletyna', 'ebilet'] as SourceType[]) {
+  // Find matching sectors from the other sources (biletyna, ebilet)
+  for (const portal of portals.filter(p => p !== SECTOR_REFERENCE_SOURCE)) {
     const sourceStats = perSource[portal];
     if (!sourceStats?.sectors) continue;
 
@@ -328,9 +274,7 @@ function calculateSectorVisualizationWithBase(
   }
 
   // Determine rows with free seats per portal
-  const rowsWithFree: Record<SourceType, Set<string>> = {
-    biletyna: new Set(), ebilet: new Set(), kupbilecik: new Set(),
-  };
+  const rowsWithFree = perSourceRecord(() => new Set<string>());
 
   for (const [seatKey, statuses] of seatStatuses) {
     const row = seatKey.split('-')[0];
@@ -344,19 +288,14 @@ function calculateSectorVisualizationWithBase(
   // Calculate colors
   const seatColors = new Map<string, string>();
   let totalSeatsCount = 0;
-  const colorStats = {
-    biletynaFree: 0, biletynaTaken: 0,
-    ebiletFree: 0, ebiletTaken: 0,
-    kupbilecikFree: 0, kupbilecikTaken: 0,
-    noData: 0,
-  };
+  const colorStats = emptyColorStats();
 
   for (const [row, seatNames] of seatsPerRow) {
     for (const seatName of seatNames) {
       const seatKey = `${row}-${seatName}`;
       totalSeatsCount++;
 
-      const statuses = seatStatuses.get(seatKey) || { biletyna: null, ebilet: null, kupbilecik: null };
+      const statuses = seatStatuses.get(seatKey) || emptySeatStatuses();
 
       // Check if free on any portal
       let freeOnPortal: SourceType | null = null;
@@ -369,9 +308,7 @@ function calculateSectorVisualizationWithBase(
 
       if (freeOnPortal) {
         seatColors.set(seatKey, SEAT_COLORS[freeOnPortal].free);
-        if (freeOnPortal === 'biletyna') colorStats.biletynaFree++;
-        else if (freeOnPortal === 'ebilet') colorStats.ebiletFree++;
-        else colorStats.kupbilecikFree++;
+        colorStats.free[freeOnPortal]++;
 
         continue;
       }
@@ -384,9 +321,7 @@ function calculateSectorVisualizationWithBase(
         const soldSource = inferredSold[uniqueKey];
         seatColors.set(seatKey, SEAT_COLORS[soldSource].taken);
 
-        if (soldSource === 'biletyna') colorStats.biletynaTaken++;
-        else if (soldSource === 'ebilet') colorStats.ebiletTaken++;
-        else colorStats.kupbilecikTaken++;
+        colorStats.taken[soldSource]++;
         continue;
       }
 
@@ -418,8 +353,8 @@ function calculateSectorVisualization(
   sectorName: string,
   perSource: CombinedEventStats['perSource']
 ) {
-  const portals: SourceType[] = ['biletyna', 'ebilet', 'kupbilecik'];
-  const seatStatuses = new Map<string, Record<SourceType, 'free' | 'taken' | null>>();
+  const portals = SOURCE_IDS;
+  const seatStatuses = new Map<string, Record<SourceType, SeatStatus>>();
 
   // Collect seats for this sector from each portal
   for (const portal of portals) {
@@ -432,7 +367,7 @@ function calculateSectorVisualization(
     for (const seat of sector.freeSeats) {
       const normalizedSeat = normalizeSeatKey(seat);
       if (!seatStatuses.has(normalizedSeat)) {
-        seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: null });
+        seatStatuses.set(normalizedSeat, emptySeatStatuses());
       }
       seatStatuses.get(normalizedSeat)![portal] = 'free';
     }
@@ -440,7 +375,7 @@ function calculateSectorVisualization(
     for (const seat of sector.takenSeats) {
       const normalizedSeat = normalizeSeatKey(seat);
       if (!seatStatuses.has(normalizedSeat)) {
-        seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: null });
+        seatStatuses.set(normalizedSeat, emptySeatStatuses());
       }
       seatStatuses.get(normalizedSeat)![portal] = 'taken';
     }
@@ -487,9 +422,7 @@ function calculateSectorVisualization(
   }
 
   // Determine rows with free seats per portal
-  const rowsWithFree: Record<SourceType, Set<string>> = {
-    biletyna: new Set(), ebilet: new Set(), kupbilecik: new Set(),
-  };
+  const rowsWithFree = perSourceRecord(() => new Set<string>());
   for (const portal of portals) {
     const sectorData = getSectorData(perSource[portal], sectorName);
     if (!sectorData) continue;
@@ -503,19 +436,14 @@ function calculateSectorVisualization(
   // Calculate colors
   const seatColors = new Map<string, string>();
   let totalSeatsCount = 0;
-  const colorStats = {
-    biletynaFree: 0, biletynaTaken: 0,
-    ebiletFree: 0, ebiletTaken: 0,
-    kupbilecikFree: 0, kupbilecikTaken: 0,
-    noData: 0,
-  };
+  const colorStats = emptyColorStats();
 
   for (const [row, seatNums] of seatsPerRow) {
     for (const seatNum of seatNums) {
       const seatKey = `${row}-${seatNum}`;
       totalSeatsCount++;
 
-      const statuses = seatStatuses.get(seatKey) || { biletyna: null, ebilet: null, kupbilecik: null };
+      const statuses = seatStatuses.get(seatKey) || emptySeatStatuses();
 
       // Check if free on any portal
       let freeOnPortal: SourceType | null = null;
@@ -528,9 +456,7 @@ function calculateSectorVisualization(
 
       if (freeOnPortal) {
         seatColors.set(seatKey, SEAT_COLORS[freeOnPortal].free);
-        if (freeOnPortal === 'biletyna') colorStats.biletynaFree++;
-        else if (freeOnPortal === 'ebilet') colorStats.ebiletFree++;
-        else colorStats.kupbilecikFree++;
+        colorStats.free[freeOnPortal]++;
         continue;
       }
 
@@ -545,9 +471,7 @@ function calculateSectorVisualization(
       if (portalsWithFreeInRow.length === 1) {
         const takenOnPortal = portalsWithFreeInRow[0];
         seatColors.set(seatKey, SEAT_COLORS[takenOnPortal].taken);
-        if (takenOnPortal === 'biletyna') colorStats.biletynaTaken++;
-        else if (takenOnPortal === 'ebilet') colorStats.ebiletTaken++;
-        else colorStats.kupbilecikTaken++;
+        colorStats.taken[takenOnPortal]++;
         continue;
       }
 
@@ -580,11 +504,11 @@ function calculateSeatVisualization(
   inferredSold?: Record<string, SourceType>,
   defaultSectorName?: string
 ) {
-  const portals: SourceType[] = ['biletyna', 'ebilet', 'kupbilecik'];
+  const portals = SOURCE_IDS;
 
   // Zbierz statusy miejsc z kazdego portalu (z normalizacja)
   // Klucz: znormalizowany seatKey, wartosc: status per portal
-  const seatStatuses = new Map<string, Record<SourceType, 'free' | 'taken' | null>>();
+  const seatStatuses = new Map<string, Record<SourceType, SeatStatus>>();
 
   for (const portal of portals) {
     const stats = perSource[portal];
@@ -593,7 +517,7 @@ function calculateSeatVisualization(
     for (const seat of stats.freeSeats) {
       const normalizedSeat = normalizeSeatKey(seat);
       if (!seatStatuses.has(normalizedSeat)) {
-        seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: null });
+        seatStatuses.set(normalizedSeat, emptySeatStatuses());
       }
       seatStatuses.get(normalizedSeat)![portal] = 'free';
     }
@@ -601,7 +525,7 @@ function calculateSeatVisualization(
     for (const seat of stats.takenSeats) {
       const normalizedSeat = normalizeSeatKey(seat);
       if (!seatStatuses.has(normalizedSeat)) {
-        seatStatuses.set(normalizedSeat, { biletyna: null, ebilet: null, kupbilecik: null });
+        seatStatuses.set(normalizedSeat, emptySeatStatuses());
       }
       seatStatuses.get(normalizedSeat)![portal] = 'taken';
     }
@@ -678,11 +602,7 @@ function calculateSeatVisualization(
   }
 
   // Okresl ktore rzedy maja wolne miejsca na kazdym portalu
-  const rowsWithFree: Record<SourceType, Set<string>> = {
-    biletyna: new Set(),
-    ebilet: new Set(),
-    kupbilecik: new Set(),
-  };
+  const rowsWithFree = perSourceRecord(() => new Set<string>());
 
   for (const portal of portals) {
     const stats = perSource[portal];
@@ -702,22 +622,10 @@ function calculateSeatVisualization(
   const seatColors = new Map<string, string>();
 
   // Statystyki per portal
-  const portalStats: Record<SourceType, { free: number; taken: number; noData: number }> = {
-    biletyna: { free: 0, taken: 0, noData: 0 },
-    ebilet: { free: 0, taken: 0, noData: 0 },
-    kupbilecik: { free: 0, taken: 0, noData: 0 },
-  };
+  const portalStats = perSourceRecord(() => ({ free: 0, taken: 0, noData: 0 }));
 
   // Globalne statystyki (per typ koloru)
-  const colorStats = {
-    biletynaFree: 0,
-    biletynaTaken: 0,
-    ebiletFree: 0,
-    ebiletTaken: 0,
-    kupbilecikFree: 0,
-    kupbilecikTaken: 0,
-    noData: 0,
-  };
+  const colorStats = emptyColorStats();
 
   // Iteruj tylko po miejscach z wybranego ukladu
   let totalSeatsCount = 0;
@@ -726,7 +634,7 @@ function calculateSeatVisualization(
       const seatKey = `${row}-${seatNum}`;
       totalSeatsCount++;
 
-      const statuses = seatStatuses.get(seatKey) || { biletyna: null, ebilet: null, kupbilecik: null };
+      const statuses = seatStatuses.get(seatKey) || emptySeatStatuses();
 
       // 1. Sprawdz czy miejsce jest WOLNE na ktorymkolwiek portalu
       let freeOnPortal: SourceType | null = null;
@@ -740,9 +648,7 @@ function calculateSeatVisualization(
       if (freeOnPortal) {
         // Miejsce wolne - jasny kolor tego portalu
         seatColors.set(seatKey, SEAT_COLORS[freeOnPortal].free);
-        if (freeOnPortal === 'biletyna') colorStats.biletynaFree++;
-        else if (freeOnPortal === 'ebilet') colorStats.ebiletFree++;
-        else colorStats.kupbilecikFree++;
+        colorStats.free[freeOnPortal]++;
         portalStats[freeOnPortal].free++;
         portalStats[freeOnPortal].free++;
         continue;
@@ -758,9 +664,7 @@ function calculateSeatVisualization(
           const soldSource = inferredSold[uniqueKey];
           seatColors.set(seatKey, SEAT_COLORS[soldSource].taken);
 
-          if (soldSource === 'biletyna') colorStats.biletynaTaken++;
-          else if (soldSource === 'ebilet') colorStats.ebiletTaken++;
-          else colorStats.kupbilecikTaken++;
+          colorStats.taken[soldSource]++;
           portalStats[soldSource].taken++;
           continue;
         }
@@ -817,6 +721,16 @@ export default function Home() {
   const [statsLoading, setStatsLoading] = useState(false);
   const [statsError, setStatsError] = useState<string | null>(null);
   const [titleFilter, setTitleFilter] = useState<string | null>(null);
+  const [eventChanges, setEventChanges] = useState<EventChange[]>([]);
+  const [organizers, setOrganizers] = useState<Organizer[]>([]);
+  const [organizerId, setOrganizerId] = useState<string | null>(null);
+  // Responses for a previously selected organizer must not overwrite the current list
+  const organizerIdRef = useRef<string | null>(null);
+  organizerIdRef.current = organizerId;
+  // Logged-in user; undefined until /api/auth/me answered, null when login is needed
+  const [authUser, setAuthUser] = useState<PublicUser | null | undefined>(undefined);
+  const [authEnabled, setAuthEnabled] = useState(false);
+  const canUse = (role: Role) => !!authUser && ROLE_LEVEL[authUser.role] >= ROLE_LEVEL[role];
 
   // Stan do edycji kolorow miejsc
   const [editedColors, setEditedColors] = useState<Map<string, string>>(new Map());
@@ -832,29 +746,23 @@ export default function Home() {
   const [isSaving, setIsSaving] = useState(false);
   const [overridesLastUpdated, setOverridesLastUpdated] = useState<string | null>(null);
   // Snapshot statystyk z ostatniego zapisu (do pokazywania zmian)
-  const [savedStatsSnapshot, setSavedStatsSnapshot] = useState<{
-    biletynaTaken: number;
-    ebiletTaken: number;
-    kupbilecikTaken: number;
-  } | null>(null);
+  const [savedStatsSnapshot, setSavedStatsSnapshot] = useState<StatsSnapshot | null>(null);
 
   // Background Refresh States
   const [backgroundRefreshId, setBackgroundRefreshId] = useState<string | null>(null);
-  const [updateAvailable, setUpdateAvailable] = useState(false);
-  const [lastRefreshStartTime, setLastRefreshStartTime] = useState<number | null>(null);
+  // Seats sold / returned in the last live update ("Sector:Row-Seat"), highlighted for a moment
+  const [flashingSeats, setFlashingSeats] = useState<Record<string, 'sold' | 'returned'>>({});
+  // Job of the background refresh (/api/jobs), with per-platform progress
+  const [backgroundJob, setBackgroundJob] = useState<JobSummary | null>(null);
 
   // Pomocnik: czy kolor jest "ciemny" (sold/taken)
   const isDarkColor = (color: string): boolean => {
-    return color === SEAT_COLORS.biletyna.taken ||
-      color === SEAT_COLORS.ebilet.taken ||
-      color === SEAT_COLORS.kupbilecik.taken;
+    return SOURCE_IDS.some(source => color === SEAT_COLORS[source].taken);
   };
 
   // Pomocnik: czy kolor jest "jasny" (free)
   const isLightColor = (color: string): boolean => {
-    return color === SEAT_COLORS.biletyna.free ||
-      color === SEAT_COLORS.ebilet.free ||
-      color === SEAT_COLORS.kupbilecik.free;
+    return SOURCE_IDS.some(source => color === SEAT_COLORS[source].free);
   };
 
   // Pomocnik: czy kolor to "brak danych" (szary)
@@ -921,7 +829,7 @@ export default function Home() {
   };
 
   // Zapisz overrides do serwera
-  const saveOverrides = async (statsSnapshot?: { biletynaTaken: number; ebiletTaken: number; kupbilecikTaken: number }) => {
+  const saveOverrides = async (statsSnapshot?: StatsSnapshot) => {
     if (!selectedEvent) return;
 
     setIsSaving(true);
@@ -977,12 +885,10 @@ export default function Home() {
 
   // Lista wszystkich dostepnych kolorow do wyboru
   const ALL_COLORS = [
-    { key: 'biletynaFree', color: SEAT_COLORS.biletyna.free, label: 'Wolne (Biletyna)' },
-    { key: 'biletynaTaken', color: SEAT_COLORS.biletyna.taken, label: 'Kupione (Biletyna)' },
-    { key: 'ebiletFree', color: SEAT_COLORS.ebilet.free, label: 'Wolne (eBilet)' },
-    { key: 'ebiletTaken', color: SEAT_COLORS.ebilet.taken, label: 'Kupione (eBilet)' },
-    { key: 'kupbilecikFree', color: SEAT_COLORS.kupbilecik.free, label: 'Wolne (KupBilecik)' },
-    { key: 'kupbilecikTaken', color: SEAT_COLORS.kupbilecik.taken, label: 'Kupione (KupBilecik)' },
+    ...SOURCE_IDS.flatMap(source => [
+      { key: `${source}Free`, color: SEAT_COLORS[source].free, label: `Wolne (${SOURCE_META[source].label})` },
+      { key: `${source}Taken`, color: SEAT_COLORS[source].taken, label: `Kupione (${SOURCE_META[source].label})` },
+    ]),
     { key: 'noData', color: SEAT_COLORS.noData, label: 'Brak danych' },
     // Kolory specjalne (reczne malowanie)
     { key: 'notForSale', color: SEAT_COLORS.notForSale, label: 'Nie w sprzedazy' },
@@ -1019,13 +925,7 @@ export default function Home() {
     totalSeats: number
   ) => {
     const stats = {
-      biletynaFree: 0,
-      biletynaTaken: 0,
-      ebiletFree: 0,
-      ebiletTaken: 0,
-      kupbilecikFree: 0,
-      kupbilecikTaken: 0,
-      noData: 0,
+      ...emptyColorStats(),
       // Nowe kategorie specjalne
       notForSale: 0,
       otherSource: 0,
@@ -1039,29 +939,110 @@ export default function Home() {
       if (color === SEAT_COLORS.notForSale) stats.notForSale++;
       else if (color === SEAT_COLORS.otherSource) stats.otherSource++;
       else if (color === SEAT_COLORS.boxOffice) stats.boxOffice++;
-      else if (color === SEAT_COLORS.biletyna.free) stats.biletynaFree++;
-      else if (color === SEAT_COLORS.biletyna.taken) stats.biletynaTaken++;
-      else if (color === SEAT_COLORS.ebilet.free) stats.ebiletFree++;
-      else if (color === SEAT_COLORS.ebilet.taken) stats.ebiletTaken++;
-      else if (color === SEAT_COLORS.kupbilecik.free) stats.kupbilecikFree++;
-      else if (color === SEAT_COLORS.kupbilecik.taken) stats.kupbilecikTaken++;
-      else stats.noData++;
+      else {
+        const freeSource = SOURCE_IDS.find(source => color === SEAT_COLORS[source].free);
+        const takenSource = SOURCE_IDS.find(source => color === SEAT_COLORS[source].taken);
+        if (freeSource) stats.free[freeSource]++;
+        else if (takenSource) stats.taken[takenSource]++;
+        else stats.noData++;
+      }
     }
 
     return stats;
   };
 
-  // Fetch events on mount
+  // Check the session on mount, then load organizers and restore the last selected one
   useEffect(() => {
-    fetchEvents();
+    fetchAuth();
   }, []);
 
+  const fetchAuth = async () => {
+    try {
+      const response = await fetch('/api/auth/me');
+      const data = await response.json();
+      setAuthEnabled(!!data.authEnabled);
+      setAuthUser(data.user || null);
+      if (data.user) fetchOrganizers();
+    } catch (err) {
+      console.error('Failed to check login:', err);
+      setAuthUser(null);
+    }
+  };
+
+  const handleLogin = (user: PublicUser) => {
+    setAuthUser(user);
+    fetchOrganizers();
+  };
+
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.error('Failed to log out:', err);
+    }
+    closeModal();
+    setOrganizerId(null);
+    setOrganizers([]);
+    setEvents([]);
+    setEventChanges([]);
+    setAuthUser(null);
+  };
+
+  // Fetch events of the selected organizer (each organizer has its own list)
+  useEffect(() => {
+    if (!organizerId) return;
+    localStorage.setItem(ORGANIZER_STORAGE_KEY, organizerId);
+    closeModal();
+    setTitleFilter(null);
+    setSourceDetails(null);
+    setLastUpdated(null);
+    setEvents([]);
+    setEventChanges([]);
+    fetchEvents();
+    fetchEventChanges();
+  }, [organizerId]);
+
+  const fetchOrganizers = async () => {
+    let list: Organizer[] = [];
+    try {
+      const response = await fetch('/api/organizers');
+      const data = await response.json();
+      if (data.success) list = data.organizers;
+    } catch (err) {
+      console.error('Failed to fetch organizers:', err);
+    }
+    setOrganizers(list);
+    const stored = localStorage.getItem(ORGANIZER_STORAGE_KEY);
+    setOrganizerId(list.some(o => o.id === stored) ? stored : DEFAULT_ORGANIZER_ID);
+  };
+
+  const organizerQuery = () => `?organizer=${encodeURIComponent(organizerId || DEFAULT_ORGANIZER_ID)}`;
+
+  const fetchEventChanges = async () => {
+    const requestedFor = organizerId;
+    try {
+      const response = await fetch(`/api/events/changes${organizerQuery()}`);
+      const data = await response.json();
+      if (requestedFor !== organizerIdRef.current) return;
+      if (data.success) setEventChanges(data.changes);
+    } catch (err) {
+      console.error('Failed to fetch event changes:', err);
+    }
+  };
+
   const fetchEvents = async () => {
+    const requestedFor = organizerId;
     try {
       setLoading(true);
       setError(null);
-      const response = await fetch('/api/events');
+      const response = await fetch(`/api/events${organizerQuery()}`);
+      // Session expired or removed
+      if (response.status === 401) {
+        setAuthUser(null);
+        return;
+      }
       const data = await response.json();
+      if (requestedFor !== organizerIdRef.current) return;
 
       if (data.success) {
         setEvents(data.events);
@@ -1073,7 +1054,7 @@ export default function Home() {
     } catch (err) {
       setError('Connection error');
     } finally {
-      setLoading(false);
+      if (requestedFor === organizerIdRef.current) setLoading(false);
     }
   };
 
@@ -1081,13 +1062,16 @@ export default function Home() {
     try {
       setRefreshing(true);
       setError(null);
-      const response = await fetch('/api/events', { method: 'POST' });
+      const requestedFor = organizerId;
+      const response = await fetch(`/api/events${organizerQuery()}`, { method: 'POST' });
       const data = await response.json();
+      if (requestedFor !== organizerIdRef.current) return;
 
       if (data.success) {
         setEvents(data.events);
         setLastUpdated(data.lastUpdated);
         setSourceDetails(data.sourceDetails || null);
+        fetchEventChanges();
       } else {
         setError(data.error || 'Failed to refresh events');
       }
@@ -1098,34 +1082,61 @@ export default function Home() {
     }
   };
 
-  // Polling Effect for Background Refresh
+  // Live updates of the open event (/api/live, Server-Sent Events): refresh progress,
+  // new stats in place of the old ones and the seats that just sold
+  const liveEventId = selectedEvent?.globalEventId;
   useEffect(() => {
-    if (!backgroundRefreshId) return;
+    if (!liveEventId) return;
 
-    const interval = setInterval(async () => {
-      try {
-        const res = await fetch(`/api/events/${backgroundRefreshId}/stats`);
-        if (res.ok) {
-          const data = await res.json();
-          if (data.success && data.stats) {
-            // Check if stats are newer than when we started the refresh
-            const fetchedTime = new Date(data.stats.lastFetched || 0).getTime();
-            const startTime = lastRefreshStartTime || 0;
-
-            if (fetchedTime > startTime) {
-              setUpdateAvailable(true);
-              setBackgroundRefreshId(null); // Stop polling
-              clearInterval(interval);
-            }
-          }
-        }
-      } catch (e) {
-        // Ignore polling errors
+    const source = new EventSource(`/api/live?event=${encodeURIComponent(liveEventId)}`);
+    let flashTimer: ReturnType<typeof setTimeout> | null = null;
+
+    source.addEventListener('job', (e) => {
+      const { job } = JSON.parse((e as MessageEvent).data) as { job: JobSummary };
+      if (job.status === 'queued' || job.status === 'running') {
+        setBackgroundRefreshId(liveEventId);
+        setBackgroundJob(job);
+        return;
       }
-    }, 3000); // Check every 3 seconds
+      setBackgroundJob(prev => (prev && prev.id !== job.id ? prev : null));
+      setBackgroundRefreshId(null);
+      if (job.status === 'failed') setStatsError(job.error || 'Failed to refresh stats');
+    });
 
-    return () => clearInterval(interval);
-  }, [backgroundRefreshId, lastRefreshStartTime]);
+    source.addEventListener('stats', (e) => {
+      const { stats } = JSON.parse((e as MessageEvent).data) as { stats: CombinedEventStats };
+      setEventStats(stats);
+      setStatsError(null);
+      setEvents(prev => prev.map(ev => ev.globalEventId === liveEventId
+        ? { ...ev, hasCache: true, cacheTimestamp: Date.now() }
+        : ev));
+    });
+
+    source.addEventListener('sales', (e) => {
+      const { sold, returned } = JSON.parse((e as MessageEvent).data) as { sold: Record<string, SourceType>; returned: Record<string, SourceType> };
+      const flashing: Record<string, 'sold' | 'returned'> = {};
+      for (const seat of Object.keys(sold)) flashing[seat] = 'sold';
+      for (const seat of Object.keys(returned)) flashing[seat] = 'returned';
+      setFlashingSeats(flashing);
+      if (flashTimer) clearTimeout(flashTimer);
+      flashTimer = setTimeout(() => setFlashingSeats({}), 8000);
+    });
+
+    return () => {
+      source.close();
+      if (flashTimer) clearTimeout(flashTimer);
+      setFlashingSeats({});
+    };
+  }, [liveEventId]);
+
+  const cancelBackgroundJob = async () => {
+    if (!backgroundJob) return;
+    try {
+      await fetch(`/api/jobs/${backgroundJob.id}`, { method: 'DELETE' });
+    } catch (err) {
+      console.error('Failed to cancel refresh:', err);
+    }
+  };
 
   const fetchEventStats = async (event: JoinedEvent, forceRefresh: boolean = false) => {
     // Jeśli nie wymuszamy odświeżenia, możemy od razu ustawić zdarzenie (pokazując stare dane/loader)
@@ -1140,7 +1151,7 @@ export default function Home() {
       setOverridesLastUpdated(null);
       // Reset background state on new selection
       setBackgroundRefreshId(null);
-      setUpdateAvailable(false);
+      setBackgroundJob(null);
     } else {
       // Start loading indicator for a moment
       setStatsLoading(true);
@@ -1155,17 +1166,18 @@ export default function Home() {
         fetch(`/api/events/${event.globalEventId}/stats`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ event, forceRefresh, background }),
+          body: JSON.stringify({ forceRefresh, background }),
         }),
         loadOverrides(event.globalEventId),
       ]);
 
       if (statsResponse.status === 202) {
         // Background execution started
+        const started = await statsResponse.json();
         setBackgroundRefreshId(event.globalEventId);
-        setLastRefreshStartTime(Date.now());
+        setBackgroundJob(started.job);
         setStatsLoading(false); // Stop blocking UI immediately
-        // Do not update stats yet
+        // New stats arrive through the live stream (/api/live)
         return;
       }
 
@@ -1235,8 +1247,7 @@ export default function Home() {
   };
 
   const getSourcesList = (event: JoinedEvent): SourceType[] => {
-    return (['biletyna', 'ebilet', 'kupbilecik'] as SourceType[])
-      .filter(source => event.sources[source]);
+    return SOURCE_IDS.filter(source => event.sources[source]);
   };
 
   const formatDate = (dateStr: string) => {
@@ -1281,6 +1292,13 @@ export default function Home() {
     ? groupedEvents.find(g => g.label === titleFilter)?.events || []
     : events;
 
+  if (authUser === undefined) {
+    return <main className="container mx-auto px-4 py-8 max-w-5xl" />;
+  }
+  if (authUser === null) {
+    return <LoginForm onLogin={handleLogin} />;
+  }
+
   return (
     <main className="container mx-auto px-4 py-8 max-w-5xl">
       <h1 className="text-3xl font-bold text-gray-800 mb-2 text-center">
@@ -1289,18 +1307,43 @@ export default function Home() {
       <p className="text-gray-500 text-center mb-8">
         Zbiorcza lista wydarzen z trzech portali biletowych
       </p>
+      {authEnabled && (
+        <div className="flex justify-end items-center gap-3 text-sm text-gray-500 mb-2">
+          <span>
+            Zalogowano: <span className="font-medium text-gray-700">{authUser.username}</span> ({authUser.role})
+          </span>
+          <button onClick={logout} className="text-blue-600 hover:underline">
+            Wyloguj
+          </button>
+        </div>
+      )}
 
       {/* Header with refresh */}
       <div className="bg-white rounded-lg shadow-md p-4 mb-6">
         <div className="flex justify-between items-center mb-3">
-          <div className="text-sm text-gray-500">
+          <div className="flex items-center gap-4 text-sm text-gray-500">
+            {organizers.length > 0 && (
+              <label className="flex items-center gap-2">
+                <span className="font-medium text-gray-700">Organizator:</span>
+                <select
+                  className="border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm py-1.5"
+                  value={organizerId || ''}
+                  onChange={(e) => setOrganizerId(e.target.value)}
+                  disabled={refreshing}
+                >
+                  {organizers.map(o => (
+                    <option key={o.id} value={o.id}>{o.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
             {lastUpdated && (
               <span>Ostatnia aktualizacja: {new Date(lastUpdated).toLocaleString('pl-PL')}</span>
             )}
           </div>
           <button
             onClick={refreshEvents}
-            disabled={refreshing || loading}
+            disabled={refreshing || loading || !canUse('operator')}
             className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
           >
             {refreshing ? (
@@ -1327,8 +1370,8 @@ export default function Home() {
           <div className="flex gap-4 text-sm">
             {sourceDetails.map(s => (
               <div key={s.source} className="flex items-center gap-1">
-                <span className={`w-5 h-5 flex items-center justify-center rounded-full text-xs font-bold ${SOURCE_COLORS[s.source as SourceType]?.bg} ${SOURCE_COLORS[s.source as SourceType]?.text}`}>
-                  {SOURCE_LABELS[s.source as SourceType]}
+                <span className={`w-5 h-5 flex items-center justify-center rounded-full text-xs font-bold ${isSourceType(s.source) ? `${SOURCE_META[s.source].badge.bg} ${SOURCE_META[s.source].badge.text}` : ''}`}>
+                  {isSourceType(s.source) ? SOURCE_META[s.source].shortLabel : s.source}
                 </span>
                 <span className="text-gray-600">{s.count}</span>
                 {s.error && <span className="text-red-500" title={s.error}>(!)</span>}
@@ -1367,6 +1410,9 @@ export default function Home() {
 
 
 
+      {/* Event list changes (rescheduled, cancelled, removed from a platform) */}
+      <EventChangesPanel changes={eventChanges} />
+
       {/* Error */}
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-md mb-6">
@@ -1404,6 +1450,17 @@ export default function Home() {
                       {event.isNew && (
                         <span className="shrink-0 px-2 py-0.5 text-xs font-bold text-white bg-green-600 rounded-full animate-pulse">NOWE</span>
                       )}
+                      {(() => {
+                        const rescheduled = eventChanges.find(c => c.eventId === event.globalEventId && c.type === 'rescheduled');
+                        return rescheduled && (
+                          <span
+                            className="shrink-0 px-2 py-0.5 text-xs font-bold text-amber-800 bg-amber-100 rounded-full"
+                            title={`Wcześniej: ${formatDate(rescheduled.previousDate || '')} ${rescheduled.previousTime || ''}`}
+                          >
+                            PRZEŁOŻONE
+                          </span>
+                        );
+                      })()}
                       {event.hasCache ? (
                         <div className="flex items-center gap-1">
                           <span className="shrink-0 text-blue-600" title="Dane zapisane w pamięci lokalnej (szybki dostęp)">
@@ -1463,10 +1520,10 @@ export default function Home() {
                       {getSourcesList(event).map((source) => (
                         <span
                           key={source}
-                          className={`w-7 h-7 flex items-center justify-center rounded-full text-xs font-bold ${SOURCE_COLORS[source].bg} ${SOURCE_COLORS[source].text}`}
-                          title={source}
+                          className={`w-7 h-7 flex items-center justify-center rounded-full text-xs font-bold ${SOURCE_META[source].badge.bg} ${SOURCE_META[source].badge.text}`}
+                          title={SOURCE_META[source].label}
                         >
-                          {SOURCE_LABELS[source]}
+                          {SOURCE_META[source].shortLabel}
                         </span>
                       ))}
                     </div>
@@ -1510,25 +1567,9 @@ export default function Home() {
                 </p>
               </div>
               <div className="flex items-center gap-3">
-                {/* Load Button (visible when background refresh finishes) */}
-                {updateAvailable && selectedEvent && (
-                  <button
-                    onClick={() => {
-                      if (selectedEvent) {
-                        fetchEventStats(selectedEvent, false);
-                        setUpdateAvailable(false);
-                      }
-                    }}
-                    className="mr-2 px-3 py-1 text-xs font-bold text-white bg-green-500 rounded hover:bg-green-600 transition-all animate-pulse"
-                    title="Nowe dane są gotowe. Kliknij, aby załadować."
-                  >
-                    Załaduj dane
-                  </button>
-                )}
-
                 <button
                   onClick={() => fetchEventStats(selectedEvent, true)}
-                  disabled={statsLoading || (backgroundRefreshId === selectedEvent.globalEventId)}
+                  disabled={statsLoading || (backgroundRefreshId === selectedEvent.globalEventId) || !canUse('operator')}
                   className="px-3 py-1 text-xs font-medium bg-blue-50 text-blue-600 border border-blue-200 rounded hover:bg-blue-100 transition-colors flex items-center gap-1 disabled:opacity-50 disabled:cursor-not-allowed"
                   title="Wymuś pobranie nowych danych z portali"
                 >
@@ -1537,13 +1578,15 @@ export default function Home() {
                   </svg>
                   {(statsLoading || (backgroundRefreshId === selectedEvent.globalEventId)) ? 'Odświeżanie...' : 'Odśwież'}
                 </button>
-                <button
-                  onClick={clearCache}
-                  className="px-3 py-1 text-xs font-medium bg-red-50 text-red-600 border border-red-200 rounded hover:bg-red-100 transition-colors"
-                  title="Usuń wszystkie zapamiętane dane (statusy miejsc, linki) i pobierz je od nowa"
-                >
-                  Resetuj dane
-                </button>
+                {canUse('admin') && (
+                  <button
+                    onClick={clearCache}
+                    className="px-3 py-1 text-xs font-medium bg-red-50 text-red-600 border border-red-200 rounded hover:bg-red-100 transition-colors"
+                    title="Usuń wszystkie zapamiętane dane (statusy miejsc, linki) i pobierz je od nowa"
+                  >
+                    Resetuj dane
+                  </button>
+                )}
                 <button
                   onClick={closeModal}
                   className="text-gray-400 hover:text-gray-600 p-1"
@@ -1579,9 +1622,8 @@ export default function Home() {
 
               {/* Stats content */}
               {eventStats && (() => {
-                const defaultSectorName = getKupbilecikSectors(eventStats.perSource)[0]?.sectorName;
+                const defaultSectorName = getReferenceSectors(eventStats.perSource)[0]?.sectorName;
                 const viz = calculateSeatVisualization(eventStats.perSource, eventStats.inferredSold, defaultSectorName);
-                const portals: SourceType[] = ['biletyna', 'ebilet', 'kupbilecik'];
                 const isMultiSector = hasMultipleSectors(eventStats.perSource);
 
                 // Dla multi-sector, zbierz wszystkie seatColors ze wszystkich sektorów
@@ -1591,7 +1633,7 @@ export default function Home() {
                 if (isMultiSector) {
                   allSeatColors = new Map<string, string>();
                   totalSeatsCount = 0;
-                  const kbSectors = getKupbilecikSectors(eventStats.perSource);
+                  const kbSectors = getReferenceSectors(eventStats.perSource);
                   for (const kbSector of kbSectors) {
                     const sectorViz = calculateSectorVisualizationWithBase(kbSector, eventStats.perSource, eventStats.inferredSold);
                     for (const [seatKey, color] of sectorViz.seatColors) {
@@ -1608,29 +1650,15 @@ export default function Home() {
 
                 // Fallback: If map rendering yielded 0 seats for a source (e.g. unmapped SmartCache data without geometry),
                 // use the real backend totals so the overview cards still display correct numbers.
-                if (currentStats.biletynaFree + currentStats.biletynaTaken === 0 && eventStats.perSource.biletyna) {
-                  currentStats.biletynaFree = eventStats.perSource.biletyna.totals.free;
-                  currentStats.biletynaTaken = eventStats.perSource.biletyna.totals.taken;
-                }
-                if (currentStats.ebiletFree + currentStats.ebiletTaken === 0 && eventStats.perSource.ebilet) {
-                  currentStats.ebiletFree = eventStats.perSource.ebilet.totals.free;
-                  currentStats.ebiletTaken = eventStats.perSource.ebilet.totals.taken;
-                }
-                if (currentStats.kupbilecikFree + currentStats.kupbilecikTaken === 0 && eventStats.perSource.kupbilecik) {
-                  currentStats.kupbilecikFree = eventStats.perSource.kupbilecik.totals.free;
-                  currentStats.kupbilecikTaken = eventStats.perSource.kupbilecik.totals.taken;
+                for (const source of SOURCE_IDS) {
+                  const sourceStats = eventStats.perSource[source];
+                  if (sourceStats && currentStats.free[source] + currentStats.taken[source] === 0) {
+                    currentStats.free[source] = sourceStats.totals.free;
+                    currentStats.taken[source] = sourceStats.totals.taken;
+                  }
                 }
 
-                const totalFree = currentStats.biletynaFree + currentStats.ebiletFree + currentStats.kupbilecikFree;
-
-                // Oblicz procent sprzedanych per portal (kupione / (kupione + wolne) dla danego portalu)
-                const biletynaTotal = currentStats.biletynaFree + currentStats.biletynaTaken;
-                const ebiletTotal = currentStats.ebiletFree + currentStats.ebiletTaken;
-                const kupbilecikTotal = currentStats.kupbilecikFree + currentStats.kupbilecikTaken;
-
-                const biletynaSoldPct = biletynaTotal > 0 ? ((currentStats.biletynaTaken / biletynaTotal) * 100).toFixed(1) : '0.0';
-                const ebiletSoldPct = ebiletTotal > 0 ? ((currentStats.ebiletTaken / ebiletTotal) * 100).toFixed(1) : '0.0';
-                const kupbilecikSoldPct = kupbilecikTotal > 0 ? ((currentStats.kupbilecikTaken / kupbilecikTotal) * 100).toFixed(1) : '0.0';
+                const totalFree = SOURCE_IDS.reduce((sum, source) => sum + currentStats.free[source], 0);
 
                 return (
                   <div className="space-y-6">
@@ -1661,77 +1689,42 @@ export default function Home() {
 
                       {/* Rozklad per portal */}
                       <div className="grid grid-cols-3 gap-4">
-                        {/* Biletyna */}
-                        <div className="border rounded-lg p-3" style={{ borderColor: SEAT_COLORS.biletyna.taken }}>
-                          <div className="font-medium text-gray-700 mb-2">Biletyna</div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.biletyna.free }}></span>
-                            <span>Wolne: {currentStats.biletynaFree}</span>
-                          </div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.biletyna.taken }}></span>
-                            <span>Kupione: {currentStats.biletynaTaken}</span>
-                            {eventStats.diff && (
-                              <span className="text-xs text-green-600 font-medium" title={`Nowo sprzedane od ostatniej aktualizacji: ${new Date(eventStats.diff.lastUpdated).toLocaleTimeString()}`}>+{eventStats.diff.biletynaSold}</span>
-                            )}
-                            {!eventStats.diff && savedStatsSnapshot && currentStats.biletynaTaken > savedStatsSnapshot.biletynaTaken && (
-                              <span className="text-xs text-green-600 font-medium">+{currentStats.biletynaTaken - savedStatsSnapshot.biletynaTaken}</span>
-                            )}
-                          </div>
-                          {biletynaTotal > 0 && (
-                            <div className="text-xs text-gray-500 mt-1 pt-1 border-t">
-                              Sprzedane: {biletynaSoldPct}%
-                            </div>
-                          )}
-                        </div>
-
-                        {/* eBilet */}
-                        <div className="border rounded-lg p-3" style={{ borderColor: SEAT_COLORS.ebilet.taken }}>
-                          <div className="font-medium text-gray-700 mb-2">eBilet</div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.ebilet.free }}></span>
-                            <span>Wolne: {currentStats.ebiletFree}</span>
-                          </div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.ebilet.taken }}></span>
-                            <span>Kupione: {currentStats.ebiletTaken}</span>
-                            {eventStats.diff && (
-                              <span className="text-xs text-green-600 font-medium" title={`Nowo sprzedane od ostatniej aktualizacji: ${new Date(eventStats.diff.lastUpdated).toLocaleTimeString()}`}>+{eventStats.diff.ebiletSold}</span>
-                            )}
-                            {!eventStats.diff && savedStatsSnapshot && currentStats.ebiletTaken > savedStatsSnapshot.ebiletTaken && (
-                              <span className="text-xs text-green-600 font-medium">+{currentStats.ebiletTaken - savedStatsSnapshot.ebiletTaken}</span>
-                            )}
-                          </div>
-                          {ebiletTotal > 0 && (
-                            <div className="text-xs text-gray-500 mt-1 pt-1 border-t">
-                              Sprzedane: {ebiletSoldPct}%
-                            </div>
-                          )}
-                        </div>
-
-                        {/* KupBilecik */}
-                        <div className="border rounded-lg p-3" style={{ borderColor: SEAT_COLORS.kupbilecik.taken }}>
-                          <div className="font-medium text-gray-700 mb-2">KupBilecik</div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.kupbilecik.free }}></span>
-                            <span>Wolne: {currentStats.kupbilecikFree}</span>
-                          </div>
-                          <div className="flex items-center gap-2 text-sm mb-1">
-                            <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS.kupbilecik.taken }}></span>
-                            <span>Kupione: {currentStats.kupbilecikTaken}</span>
-                            {eventStats.diff && (
-                              <span className="text-xs text-green-600 font-medium" title={`Nowo sprzedane od ostatniej aktualizacji: ${new Date(eventStats.diff.lastUpdated).toLocaleTimeString()}`}>+{eventStats.diff.kupbilecikSold}</span>
-                            )}
-                            {!eventStats.diff && savedStatsSnapshot && currentStats.kupbilecikTaken > savedStatsSnapshot.kupbilecikTaken && (
-                              <span className="text-xs text-green-600 font-medium">+{currentStats.kupbilecikTaken - savedStatsSnapshot.kupbilecikTaken}</span>
-                            )}
-                          </div>
-                          {kupbilecikTotal > 0 && (
-                            <div className="text-xs text-gray-500 mt-1 pt-1 border-t">
-                              Sprzedane: {kupbilecikSoldPct}%
+                        {SOURCE_IDS.map((source) => {
+                          const free = currentStats.free[source];
+                          const taken = currentStats.taken[source];
+                          const sourceTotal = free + taken;
+                          // Procent sprzedanych (kupione / (kupione + wolne) dla danego portalu)
+                          const soldPct = sourceTotal > 0 ? ((taken / sourceTotal) * 100).toFixed(1) : '0.0';
+                          const savedTaken = savedStatsSnapshot?.taken[source];
+
+                          return (
+                            <div key={source} className="border rounded-lg p-3" style={{ borderColor: SEAT_COLORS[source].taken }}>
+                              <div className="font-medium text-gray-700 mb-2">{SOURCE_META[source].label}</div>
+                              <div className="flex items-center gap-2 text-sm mb-1">
+                                <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS[source].free }}></span>
+                                <span>Wolne: {free}</span>
+                              </div>
+                              <div className="flex items-center gap-2 text-sm mb-1">
+                                <span className="w-4 h-4 rounded-full" style={{ backgroundColor: SEAT_COLORS[source].taken }}></span>
+                                <span>Kupione: {taken}</span>
+                                {eventStats.diff && (
+                                  <span className="text-xs text-green-600 font-medium" title={`Nowo sprzedane od ostatniej aktualizacji: ${new Date(eventStats.diff.lastUpdated).toLocaleTimeString()}`}>+{eventStats.diff.sold[source] ?? 0}</span>
+                                )}
+                                {(eventStats.diff?.returned?.[source] ?? 0) > 0 && (
+                                  <span className="text-xs text-amber-600 font-medium" title="Zwroty: wcześniej sprzedane miejsca znów wolne na tym portalu">↩{eventStats.diff?.returned?.[source]}</span>
+                                )}
+                                {!eventStats.diff && savedTaken !== undefined && taken > savedTaken && (
+                                  <span className="text-xs text-green-600 font-medium">+{taken - savedTaken}</span>
+                                )}
+                              </div>
+                              {sourceTotal > 0 && (
+                                <div className="text-xs text-gray-500 mt-1 pt-1 border-t">
+                                  Sprzedane: {soldPct}%
+                                </div>
+                              )}
                             </div>
-                          )}
-                        </div>
+                          );
+                        })}
                       </div>
 
                       {/* Brak danych i specjalne kategorie */}
@@ -1761,57 +1754,38 @@ export default function Home() {
                       </div>
 
                       {/* Source Verification Links */}
-                      {(eventStats.perSource.biletyna?.finalUrl || eventStats.perSource.ebilet?.finalUrl || eventStats.perSource.kupbilecik?.finalUrl) && (
+                      {SOURCE_IDS.some(source => eventStats.perSource[source]?.finalUrl) && (
                         <div className="mt-4 pt-4 border-t">
                           <div className="text-sm font-medium text-gray-700 mb-2">Linki do zrodel (weryfikacja):</div>
                           <div className="flex flex-wrap gap-3 text-sm">
-                            {eventStats.perSource.biletyna?.finalUrl && (
-                              <a
-                                href={eventStats.perSource.biletyna.finalUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-1 px-2 py-1 rounded bg-purple-100 text-purple-700 hover:bg-purple-200 transition-colors"
-                              >
-                                <span className="w-4 h-4 flex items-center justify-center rounded-full bg-purple-500 text-white text-xs font-bold">B</span>
-                                Biletyna
-                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
-                              </a>
-                            )}
-                            {eventStats.perSource.ebilet?.finalUrl && (
-                              <a
-                                href={eventStats.perSource.ebilet.finalUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-1 px-2 py-1 rounded bg-yellow-100 text-yellow-700 hover:bg-yellow-200 transition-colors"
-                              >
-                                <span className="w-4 h-4 flex items-center justify-center rounded-full bg-yellow-500 text-white text-xs font-bold">E</span>
-                                eBilet
-                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
-                              </a>
-                            )}
-                            {eventStats.perSource.kupbilecik?.finalUrl && (
-                              <a
-                                href={eventStats.perSource.kupbilecik.finalUrl}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex items-center gap-1 px-2 py-1 rounded bg-red-100 text-red-700 hover:bg-red-200 transition-colors"
-                              >
-                                <span className="w-4 h-4 flex items-center justify-center rounded-full bg-red-500 text-white text-xs font-bold">K</span>
-                                KupBilecik
-                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
-                                </svg>
-                              </a>
-                            )}
+                            {SOURCE_IDS.map((source) => {
+                              const finalUrl = eventStats.perSource[source]?.finalUrl;
+                              if (!finalUrl) return null;
+                              const { badge, shortLabel, label } = SOURCE_META[source];
+                              return (
+                                <a
+                                  key={source}
+                                  href={finalUrl}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className={`flex items-center gap-1 px-2 py-1 rounded ${badge.bg} ${badge.text} ${badge.hover} transition-colors`}
+                                >
+                                  <span className={`w-4 h-4 flex items-center justify-center rounded-full ${badge.dot} text-white text-xs font-bold`}>{shortLabel}</span>
+                                  {label}
+                                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                                  </svg>
+                                </a>
+                              );
+                            })}
                           </div>
                         </div>
                       )}
                     </div>
 
+                    {/* Krzywa sprzedazy */}
+                    <SalesChart eventId={eventStats.globalEventId} refreshKey={eventStats.lastFetched} />
+
                     {/* Wizualizacja miejsc */}
                     <div className="bg-white border rounded-lg overflow-hidden">
                       <div className="px-4 py-3 bg-gray-50 border-b flex justify-between items-center">
@@ -1820,7 +1794,7 @@ export default function Home() {
                             Mapa miejsc
                             {hasMultipleSectors(eventStats.perSource) && (
                               <span className="text-sm font-normal text-gray-500 ml-2">
-                                ({getKupbilecikSectors(eventStats.perSource).length} sektorów z KupBilecik)
+                                ({getReferenceSectors(eventStats.perSource).length} sektorów z {SOURCE_META[SECTOR_REFERENCE_SOURCE].label})
                               </span>
                             )}
                           </span>
@@ -1839,13 +1813,9 @@ export default function Home() {
                               Resetuj zmiany ({editedColors.size})
                             </button>
                           )}
-                          {(editedColors.size > 0 || Object.keys(savedOverrides).length > 0) && (
+                          {canUse('operator') && (editedColors.size > 0 || Object.keys(savedOverrides).length > 0) && (
                             <button
-                              onClick={() => saveOverrides({
-                                biletynaTaken: currentStats.biletynaTaken,
-                                ebiletTaken: currentStats.ebiletTaken,
-                                kupbilecikTaken: currentStats.kupbilecikTaken,
-                              })}
+                              onClick={() => saveOverrides({ taken: { ...currentStats.taken } })}
                               disabled={isSaving}
                               className="flex items-center gap-1 px-3 py-1 bg-green-600 text-white text-sm rounded hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
                             >
@@ -1905,18 +1875,15 @@ export default function Home() {
                       {/* Statystyki procentowe */}
                       <div className="px-4 py-3 bg-gray-100 border-b text-sm">
                         <div className="flex flex-wrap gap-4 justify-center">
-                          <span className="flex items-center gap-1">
-                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SEAT_COLORS.biletyna.free }}></span>
-                            Biletyna: {currentStats.biletynaFree + currentStats.biletynaTaken} ({totalSeatsCount > 0 ? (((currentStats.biletynaFree + currentStats.biletynaTaken) / totalSeatsCount) * 100).toFixed(1) : 0}%)
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SEAT_COLORS.ebilet.free }}></span>
-                            eBilet: {currentStats.ebiletFree + currentStats.ebiletTaken} ({totalSeatsCount > 0 ? (((currentStats.ebiletFree + currentStats.ebiletTaken) / totalSeatsCount) * 100).toFixed(1) : 0}%)
-                          </span>
-                          <span className="flex items-center gap-1">
-                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SEAT_COLORS.kupbilecik.free }}></span>
-                            KupBilecik: {currentStats.kupbilecikFree + currentStats.kupbilecikTaken} ({totalSeatsCount > 0 ? (((currentStats.kupbilecikFree + currentStats.kupbilecikTaken) / totalSeatsCount) * 100).toFixed(1) : 0}%)
-                          </span>
+                          {SOURCE_IDS.map((source) => {
+                            const sourceSeats = currentStats.free[source] + currentStats.taken[source];
+                            return (
+                              <span key={source} className="flex items-center gap-1">
+                                <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SEAT_COLORS[source].free }}></span>
+                                {SOURCE_META[source].label}: {sourceSeats} ({totalSeatsCount > 0 ? ((sourceSeats / totalSeatsCount) * 100).toFixed(1) : 0}%)
+                              </span>
+                            );
+                          })}
                           {currentStats.boxOffice > 0 && (
                             <span className="flex items-center gap-1">
                               <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SEAT_COLORS.boxOffice }}></span>
@@ -1932,7 +1899,7 @@ export default function Home() {
                       {/* Multi-sector view - uses kupbilecik as base map */}
                       {hasMultipleSectors(eventStats.perSource) ? (
                         <div className="p-4 overflow-y-auto max-h-[80vh]">
-                          {getKupbilecikSectors(eventStats.perSource).map((kbSector) => {
+                          {getReferenceSectors(eventStats.perSource).map((kbSector) => {
                             const sectorViz = calculateSectorVisualizationWithBase(kbSector, eventStats.perSource, eventStats.inferredSold);
                             if (sectorViz.totalSeats === 0) return null;
 
@@ -2044,10 +2011,12 @@ export default function Home() {
 
                                               const isInferred = eventStats.inferredSold && eventStats.inferredSold[`${kbSector.sectorName}:${seatKey}`];
                                               const isPickerOpen = colorPickerSeat === fullSeatKey;
+                                              const flash = flashingSeats[`${kbSector.sectorName}:${seatKey}`];
 
                                               let borderClass = 'border-gray-400';
                                               if (isUnsaved) borderClass = 'border-blue-500 border-2';
                                               else if (isInferred) borderClass = 'border-green-500 border-2';
+                                              if (flash) borderClass += ` ${SEAT_FLASH_CLASSES[flash]}`;
 
                                               return (
                                                 <div key={`${kbSector.sectorName}-${seatKey}`} className="relative">
@@ -2224,12 +2193,14 @@ export default function Home() {
                                       // Inferred logic for single sector
                                       const uniqueKey = defaultSectorName ? `${defaultSectorName}:${seatKey}` : '';
                                       const isInferred = uniqueKey && eventStats.inferredSold && eventStats.inferredSold[uniqueKey];
+                                      const flash = uniqueKey ? flashingSeats[uniqueKey] : undefined;
 
                                       const isPickerOpen = colorPickerSeat === seatKey;
 
                                       let borderClass = 'border-gray-400';
                                       if (isUnsaved) borderClass = 'border-blue-500 border-2';
                                       else if (isInferred) borderClass = 'border-green-500 border-2';
+                                      if (flash) borderClass += ` ${SEAT_FLASH_CLASSES[flash]}`;
 
                                       return (
                                         <div key={seatKey} className="relative">
@@ -2305,39 +2276,18 @@ export default function Home() {
                           <div className="text-sm text-gray-600">
                             <div className="font-medium mb-2">Legenda:</div>
                             <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-                              {/* Biletyna */}
-                              <div className="space-y-1">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.biletyna.free }}></div>
-                                  <span>Wolne (Biletyna)</span>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.biletyna.taken }}></div>
-                                  <span>Kupione (Biletyna)</span>
-                                </div>
-                              </div>
-                              {/* eBilet */}
-                              <div className="space-y-1">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.ebilet.free }}></div>
-                                  <span>Wolne (eBilet)</span>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.ebilet.taken }}></div>
-                                  <span>Kupione (eBilet)</span>
-                                </div>
-                              </div>
-                              {/* KupBilecik */}
-                              <div className="space-y-1">
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.kupbilecik.free }}></div>
-                                  <span>Wolne (KupBilecik)</span>
-                                </div>
-                                <div className="flex items-center gap-2">
-                                  <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS.kupbilecik.taken }}></div>
-                                  <span>Kupione (KupBilecik)</span>
+                              {SOURCE_IDS.map((source) => (
+                                <div key={source} className="space-y-1">
+                                  <div className="flex items-center gap-2">
+                                    <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS[source].free }}></div>
+                                    <span>Wolne ({SOURCE_META[source].label})</span>
+                                  </div>
+                                  <div className="flex items-center gap-2">
+                                    <div className="w-4 h-4 rounded-full border border-gray-400" style={{ backgroundColor: SEAT_COLORS[source].taken }}></div>
+                                    <span>Kupione ({SOURCE_META[source].label})</span>
+                                  </div>
                                 </div>
-                              </div>
+                              ))}
                               {/* Brak danych */}
                               <div className="space-y-1">
                                 <div className="flex items-center gap-2">
@@ -2363,7 +2313,17 @@ export default function Home() {
         <div className="fixed bottom-6 right-6 z-40">
           <div className="bg-gray-800 text-white px-4 py-2 rounded-lg shadow-lg flex items-center gap-2 opacity-80 text-sm">
             <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-            Aktualizacja w tle...
+            {backgroundJob?.status === 'queued' ? 'Oczekuje w kolejce...' : 'Aktualizacja w tle...'}
+            {backgroundJob && Object.entries(backgroundJob.progress).map(([source, progress]) => (
+              <span key={source} className={`px-1.5 rounded text-xs font-bold ${JOB_PROGRESS_STYLES[progress as SourceProgress]}`}>
+                {isSourceType(source) ? SOURCE_META[source].shortLabel : source}
+              </span>
+            ))}
+            {backgroundJob && canUse('operator') && (
+              <button onClick={cancelBackgroundJob} className="ml-1 text-xs text-gray-300 hover:text-white underline">
+                Anuluj
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -2371,24 +2331,257 @@ export default function Home() {
   );
 }
 
-function normalizeTitle(title: string): string {
-  return title.toLowerCase().replace(/[^a-z0-9\s]/g, '').trim();
+// Zakresy czasu wykresu sprzedazy (liczba dni wstecz, null = cala historia)
+const SALES_CHART_RANGES: Array<{ label: string; days: number | null }> = [
+  { label: '7 dni', days: 7 },
+  { label: '30 dni', days: 30 },
+  { label: 'Wszystko', days: null },
+];
+
+// Krzywa sprzedazy: liczba kupionych miejsc per portal w kolejnych pomiarach
+function SalesChart({ eventId, refreshKey }: { eventId: string; refreshKey?: string }) {
+  const [points, setPoints] = useState<StatsHistoryEntry[]>([]);
+  const [rangeDays, setRangeDays] = useState<number | null>(null);
+  const [sector, setSector] = useState<string>('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const query = rangeDays ? `?from=${encodeURIComponent(new Date(Date.now() - rangeDays * 24 * 60 * 60 * 1000).toISOString())}` : '';
+    setLoading(true);
+    fetch(`/api/events/${eventId}/history${query}`)
+      .then(res => res.json())
+      .then(data => {
+        if (!cancelled && data.success) setPoints(data.points);
+      })
+      .catch(() => {
+        // Wykres jest dodatkiem - brak historii nie blokuje widoku
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [eventId, rangeDays, refreshKey]);
+
+  // Sektory wystepujace w historii (dla starszych pomiarow brak rozbicia)
+  const sectorNames = useMemo(() => {
+    const names = new Set<string>();
+    for (const point of points) {
+      for (const sourceSectors of Object.values(point.sectors || {})) {
+        Object.keys(sourceSectors || {}).forEach(name => names.add(name));
+      }
+    }
+    return Array.from(names);
+  }, [points]);
+
+  const getTaken = (point: StatsHistoryEntry, source: SourceType): number | undefined =>
+    sector ? point.sectors?.[source]?.[sector]?.taken : point.taken[source];
+
+  const width = 600;
+  const height = 200;
+  const pad = { top: 10, right: 10, bottom: 24, left: 40 };
+
+  const times = points.map(p => new Date(p.timestamp).getTime());
+  const minTime = Math.min(...times);
+  const maxTime = Math.max(...times);
+  const totals = points.map(p => SOURCE_IDS.reduce((sum, source) => sum + (getTaken(p, source) ?? 0), 0));
+  const maxY = Math.max(1, ...totals);
+
+  const x = (time: number) => pad.left + (maxTime > minTime ? (time - minTime) / (maxTime - minTime) : 0.5) * (width - pad.left - pad.right);
+  const y = (value: number) => height - pad.bottom - (value / maxY) * (height - pad.top - pad.bottom);
+
+  const buildPath = (values: Array<number | undefined>) =>
+    values
+      .map((value, i) => (value === undefined ? null : `${x(times[i]).toFixed(1)},${y(value).toFixed(1)}`))
+      .filter(Boolean)
+      .map((coords, i) => `${i === 0 ? 'M' : 'L'}${coords}`)
+      .join(' ');
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleString('pl-PL', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white border rounded-lg overflow-hidden">
+      <div className="px-4 py-3 bg-gray-50 border-b flex flex-wrap justify-between items-center gap-2">
+        <span className="font-medium text-gray-700">Krzywa sprzedaży</span>
+        <div className="flex items-center gap-2 text-sm">
+          {sectorNames.length > 1 && (
+            <select
+              value={sector}
+              onChange={(e) => setSector(e.target.value)}
+              className="border rounded px-2 py-1 text-sm"
+            >
+              <option value="">Wszystkie sektory</option>
+              {sectorNames.map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          )}
+          {SALES_CHART_RANGES.map(range => (
+            <button
+              key={range.label}
+              onClick={() => setRangeDays(range.days)}
+              className={`px-2 py-1 rounded ${rangeDays === range.days ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+            >
+              {range.label}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="p-4">
+        {loading && points.length === 0 ? (
+          <div className="text-sm text-gray-500">Ładowanie historii...</div>
+        ) : points.length < 2 ? (
+          <div className="text-sm text-gray-500">Za mało pomiarów, aby narysować wykres (odśwież statystyki później).</div>
+        ) : (
+          <>
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto">
+              <line x1={pad.left} y1={y(0)} x2={width - pad.right} y2={y(0)} stroke="#e5e7eb" />
+              <line x1={pad.left} y1={y(maxY)} x2={width - pad.right} y2={y(maxY)} stroke="#f3f4f6" />
+              <text x={pad.left - 4} y={y(0)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">0</text>
+              <text x={pad.left - 4} y={y(maxY)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="#6b7280">{maxY}</text>
+              <text x={pad.left} y={height - 6} fontSize="10" fill="#6b7280">{formatTime(minTime)}</text>
+              <text x={width - pad.right} y={height - 6} textAnchor="end" fontSize="10" fill="#6b7280">{formatTime(maxTime)}</text>
+
+              {SOURCE_IDS.map(source => (
+                <path key={source} d={buildPath(points.map(p => getTaken(p, source)))} fill="none" stroke={SEAT_COLORS[source].taken} strokeWidth={2} />
+              ))}
+              <path d={buildPath(totals)} fill="none" stroke="#1f2937" strokeWidth={2} strokeDasharray="4 3" />
+              {totals.map((total, i) => (
+                <circle key={i} cx={x(times[i])} cy={y(total)} r={2.5} fill="#1f2937">
+                  <title>{`${formatTime(times[i])}: ${total} kupionych`}</title>
+                </circle>
+              ))}
+            </svg>
+            <div className="mt-2 flex flex-wrap gap-4 text-xs text-gray-600">
+              {SOURCE_IDS.map(source => (
+                <div key={source} className="flex items-center gap-1">
+                  <span className="w-3 h-1 rounded" style={{ backgroundColor: SEAT_COLORS[source].taken }}></span>
+                  {SOURCE_META[source].label}
+                </div>
+              ))}
+              <div className="flex items-center gap-1">
+                <span className="w-3 h-1 rounded bg-gray-800"></span>
+                Razem kupione
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
 }
 
-function areTitlesSimilar(title1: string, title2: string): boolean {
-  if (title1 === title2) return true;
+const EVENT_CHANGE_STYLES: Record<EventChange['type'], { label: string; className: string }> = {
+  cancelled: { label: 'Odwołane', className: 'bg-red-100 text-red-800' },
+  rescheduled: { label: 'Przełożone', className: 'bg-amber-100 text-amber-800' },
+  source_removed: { label: 'Zniknęło z platformy', className: 'bg-orange-100 text-orange-800' },
+  added: { label: 'Nowe', className: 'bg-green-100 text-green-800' },
+};
 
-  const norm1 = normalizeTitle(title1);
-  const norm2 = normalizeTitle(title2);
+// Recent changes of the event list, newest first; new events are already marked on the list
+function EventChangesPanel({ changes }: { changes: EventChange[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const relevant = changes.filter(c => c.type !== 'added');
+  if (relevant.length === 0) return null;
 
-  if (norm1 === norm2) return true;
+  const visible = expanded ? relevant : relevant.slice(0, 5);
 
-  // Check if one contains the other
-  if (norm1.includes(norm2) || norm2.includes(norm1)) {
-    // Only allow if length difference is small (e.g. " - VIP" or " 2024")
-    const lenDiff = Math.abs(norm1.length - norm2.length);
-    if (lenDiff < 10) return true;
-  }
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-6">
+      <h2 className="text-sm font-semibold text-gray-700 mb-2">Zmiany na liście wydarzeń (ostatnie 7 dni)</h2>
+      <ul className="space-y-1 text-sm">
+        {visible.map((change, i) => (
+          <li key={`${change.eventId}-${change.type}-${change.source || ''}-${i}`} className="flex flex-wrap items-center gap-2">
+            <span className={`px-2 py-0.5 text-xs font-bold rounded-full ${EVENT_CHANGE_STYLES[change.type].className}`}>
+              {EVENT_CHANGE_STYLES[change.type].label}
+              {change.source && ` · ${SOURCE_META[change.source].label}`}
+            </span>
+            <span className="font-medium text-gray-900">{change.title}</span>
+            <span className="text-gray-500">
+              {change.city}, {change.type === 'rescheduled'
+                ? `${change.previousDate} ${change.previousTime} → ${change.date} ${change.time}`
+                : `${change.date} ${change.time}`}
+            </span>
+            <span className="text-xs text-gray-400">
+              {new Date(change.timestamp).toLocaleString('pl-PL', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {relevant.length > 5 && (
+        <button className="mt-2 text-xs text-blue-600 hover:underline" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Pokaż mniej' : `Pokaż wszystkie (${relevant.length})`}
+        </button>
+      )}
+    </div>
+  );
+}
 
-  return false;
+function LoginForm({ onLogin }: { onLogin: (user: PublicUser) => void }) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        onLogin(data.user);
+      } else {
+        setError(data.error || 'Logowanie nie powiodło się');
+      }
+    } catch (err) {
+      setError('Connection error');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-sm">
+      <h1 className="text-3xl font-bold text-gray-800 mb-8 text-center">
+        Seat Checker
+      </h1>
+      <form onSubmit={submit} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Użytkownik</span>
+          <input
+            className="mt-1 w-full border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="font-medium text-gray-700">Hasło</span>
+          <input
+            type="password"
+            className="mt-1 w-full border-gray-300 rounded-md shadow-sm focus:border-blue-500 focus:ring-blue-500 text-sm"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+          />
+        </label>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={submitting || !username || !password}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-colors"
+        >
+          {submitting ? 'Logowanie...' : 'Zaloguj'}
+        </button>
+      </form>
+    </main>
+  );
 }
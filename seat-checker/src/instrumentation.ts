@@ -0,0 +1,14 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Playwright and fs are only available in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('./lib/scheduler');
+    startScheduler();
+    // Refreshes queued before a restart
+    const { pumpQueue } = await import('./lib/jobs');
+    pumpQueue();
+    // Close the browser pool gracefully on SIGTERM/SIGINT
+    const { installShutdownHandlers } = await import('./lib/globalBrowser');
+    installShutdownHandlers();
+  }
+}
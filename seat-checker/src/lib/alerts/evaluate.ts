@@ -0,0 +1,200 @@
+import type { Notification } from '../notifications/types';
+import { buildAlertNotification, buildReturnNotification, buildSaleNotification } from '../notifications/messages';
+import type { AlertContext, AlertRule, AlertState } from './types';
+
+// Pure rule evaluation - no storage, testable offline.
+
+export interface TriggeredAlert {
+    ruleId: string;
+    // Condition key for deduplication ("ruleId" or "ruleId:sector"); null = reported every time (sales, returns)
+    key: string | null;
+    notification: Notification;
+}
+
+const DEFAULT_VELOCITY_WINDOW_MINUTES = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "SectorName:Row-Seat" -> parts for the seat list
+function splitSeatKey(uniqueKey: string): { sector: string; row: string; seat: string } {
+    const [sector, seatKey] = uniqueKey.split(':');
+    const [row, seat] = (seatKey || '').split('-');
+    return { sector, row, seat };
+}
+
+function percent(part: number, total: number): number {
+    return Math.round((part / total) * 1000) / 10;
+}
+
+// Whole days from today (local time) to the event date; negative once it took place
+function daysUntil(date: string, now: Date): number {
+    const [year, month, day] = date.split('-').map(Number);
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    return Math.round((new Date(year, month - 1, day).getTime() - today.getTime()) / DAY_MS);
+}
+
+// Free/total per sector over all platforms (each platform sells its own pool of seats)
+function sectorTotals(context: AlertContext): Map<string, { name: string; total: number; free: number }> {
+    const sectors = new Map<string, { name: string; total: number; free: number }>();
+    for (const stats of Object.values(context.stats.perSource)) {
+        for (const sector of stats?.sectors || []) {
+            const key = sector.sectorName.trim().toLowerCase();
+            const entry = sectors.get(key) || { name: sector.sectorName.trim(), total: 0, free: 0 };
+            entry.total += sector.totals.total;
+            entry.free += sector.totals.free;
+            sectors.set(key, entry);
+        }
+    }
+    return sectors;
+}
+
+/**
+ * Evaluate rules against one refresh. Returns every alert whose condition holds now;
+ * deduplication against the previous evaluation is done by applyAlertState.
+ */
+export function evaluateAlertRules(rules: AlertRule[], context: AlertContext): TriggeredAlert[] {
+    const { event, stats, now } = context;
+    const { total, free, taken } = stats.combinedTotals;
+    const triggered: TriggeredAlert[] = [];
+
+    const alert = (rule: AlertRule, key: string, headline: string, details: string, metrics: Record<string, unknown>) => {
+        triggered.push({
+            ruleId: rule.id,
+            key,
+            notification: buildAlertNotification({
+                ruleId: rule.id,
+                ruleType: rule.type,
+                eventId: event.globalEventId,
+                organizerId: event.organizerId,
+                eventTitle: event.title,
+                eventDate: `${event.date} ${event.time}`,
+                headline,
+                details,
+                metrics,
+            }),
+        });
+    };
+
+    for (const rule of rules) {
+        if (rule.enabled === false) continue;
+
+        switch (rule.type) {
+            case 'new_sales': {
+                const seats = Object.entries(context.newlySold);
+                if (seats.length === 0 || seats.length < (rule.minSeats ?? 1)) break;
+                const notification = buildSaleNotification({
+                    eventId: event.globalEventId,
+                    organizerId: event.organizerId,
+                    eventTitle: event.title,
+                    soldSeatsCount: seats.length,
+                    details: seats.map(([uniqueKey, source]) => ({ ...splitSeatKey(uniqueKey), source })),
+                });
+                if (notification) triggered.push({ ruleId: rule.id, key: null, notification });
+                break;
+            }
+
+            case 'returns': {
+                const seats = Object.entries(context.newlyReturned);
+                if (seats.length === 0) break;
+                // The log state before this refresh tells on which platform the seat was sold
+                const soldBefore = new Map(
+                    context.seatLog.filter(t => t.type === 'returned').map(t => [t.seat, t.from])
+                );
+                const notification = buildReturnNotification({
+                    eventId: event.globalEventId,
+                    organizerId: event.organizerId,
+                    eventTitle: event.title,
+                    returnedSeatsCount: seats.length,
+                    details: seats.map(([uniqueKey, source]) => ({
+                        ...splitSeatKey(uniqueKey),
+                        source,
+                        soldOn: soldBefore.get(uniqueKey),
+                    })),
+                });
+                if (notification) triggered.push({ ruleId: rule.id, key: null, notification });
+                break;
+            }
+
+            case 'free_below': {
+                // No seat data (all platforms failed) says nothing about availability
+                if (total <= 0) break;
+                const freePercent = percent(free, total);
+                const belowSeats = rule.seats !== undefined && free < rule.seats;
+                const belowPercent = rule.percent !== undefined && freePercent < rule.percent;
+                if (!belowSeats && !belowPercent) break;
+                const limits = [
+                    rule.seats !== undefined ? `${rule.seats} miejsc` : null,
+                    rule.percent !== undefined ? `${rule.percent}%` : null,
+                ].filter(Boolean).join(' / ');
+                alert(rule, rule.id, 'Kończą się wolne miejsca',
+                    `Wolnych miejsc: **${free}** z ${total} (${freePercent}%), próg: ${limits}.`,
+                    { free, total, freePercent });
+                break;
+            }
+
+            case 'sector_sold_out': {
+                const only = rule.sectors?.map(s => s.trim().toLowerCase());
+                for (const [key, sector] of sectorTotals(context)) {
+                    if (only && !only.includes(key)) continue;
+                    if (sector.total <= 0 || sector.free > 0) continue;
+                    alert(rule, `${rule.id}:${key}`, 'Sektor wyprzedany',
+                        `Sektor **${sector.name}** nie ma już wolnych miejsc (${sector.total} miejsc).`,
+                        { sector: sector.name, total: sector.total });
+                }
+                break;
+            }
+
+            case 'sales_velocity': {
+                const windowMinutes = rule.windowMinutes ?? DEFAULT_VELOCITY_WINDOW_MINUTES;
+                const since = now.getTime() - windowMinutes * 60 * 1000;
+                // Seats rebuilt from the pre-log history have no real sale time
+                const sold = context.seatLog.filter(t =>
+                    t.type === 'sold' && !t.migrated && new Date(t.timestamp).getTime() >= since
+                ).length;
+                if (sold <= rule.seats) break;
+                alert(rule, rule.id, 'Szybka sprzedaż',
+                    `Sprzedano **${sold}** miejsc w ciągu ostatnich ${windowMinutes} min (próg: ${rule.seats}).`,
+                    { sold, windowMinutes });
+                break;
+            }
+
+            case 'days_before': {
+                if (total <= 0 || !event.date) break;
+                const days = daysUntil(event.date, now);
+                if (days < 0 || days > rule.days) break;
+                const soldPercent = percent(taken, total);
+                if (soldPercent >= rule.maxSoldPercent) break;
+                alert(rule, rule.id, 'Słaba sprzedaż przed wydarzeniem',
+                    `Do wydarzenia zostało **${days}** dni, sprzedano **${soldPercent}%** miejsc (${taken} z ${total}), próg: ${rule.maxSoldPercent}%.`,
+                    { days, soldPercent, taken, total });
+                break;
+            }
+        }
+    }
+
+    return triggered;
+}
+
+/**
+ * Deduplicate against the previous evaluation: a condition alert fires when its key becomes
+ * true and again only after it was false in between. Returns what to send and the new state.
+ */
+export function applyAlertState(
+    triggered: TriggeredAlert[],
+    previous: AlertState | null,
+    now: Date
+): { fire: TriggeredAlert[]; state: AlertState } {
+    const active: Record<string, string> = {};
+    const fire: TriggeredAlert[] = [];
+
+    for (const alert of triggered) {
+        if (alert.key === null) {
+            fire.push(alert);
+            continue;
+        }
+        const firedAt = previous?.active[alert.key];
+        active[alert.key] = firedAt || now.toISOString();
+        if (!firedAt) fire.push(alert);
+    }
+
+    return { fire, state: { active } };
+}
@@ -0,0 +1,163 @@
+import type { Notification } from '../notifications/types';
+import { getStorage } from '../storage';
+import type { AlertContext, AlertRule, AlertRuleType, AlertState, EventAlertRule } from './types';
+import { applyAlertState, evaluateAlertRules } from './evaluate';
+
+// Alert rules: one global list ("alert_rules"/"global") plus optional lists per event ID.
+// Until the global list is saved the defaults keep the old behaviour - every sale and return.
+// Dedup state per event lives in "alert_state".
+
+const GLOBAL_SCOPE = 'global';
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+    { id: 'sales', type: 'new_sales' },
+    { id: 'returns', type: 'returns' },
+];
+
+const RULE_ID_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+// Required numeric fields per rule type ("seats|percent" = at least one of them)
+const NUMERIC_FIELDS: Record<AlertRuleType, string[]> = {
+    new_sales: [],
+    returns: [],
+    free_below: ['seats|percent'],
+    sector_sold_out: [],
+    sales_velocity: ['seats'],
+    days_before: ['days', 'maxSoldPercent'],
+};
+
+const OPTIONAL_NUMERIC_FIELDS = ['minSeats', 'seats', 'percent', 'windowMinutes', 'days', 'maxSoldPercent'];
+
+/**
+ * Check a rule list sent to the API. Returns an error message, or null when valid.
+ * Event lists may contain { id, enabled: false } entries muting a global rule.
+ */
+export function validateAlertRules(input: unknown, allowMuteOnly = false): string | null {
+    if (!Array.isArray(input)) return '"rules" must be an array';
+    const ids = new Set<string>();
+
+    for (const rule of input) {
+        if (!rule || typeof rule !== 'object') return 'Every rule must be an object';
+        if (typeof rule.id !== 'string' || !RULE_ID_PATTERN.test(rule.id)) return `Invalid rule id: ${JSON.stringify(rule.id)}`;
+        if (ids.has(rule.id)) return `Duplicate rule id: ${rule.id}`;
+        ids.add(rule.id);
+        if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') return `Rule ${rule.id}: "enabled" must be a boolean`;
+
+        if (rule.type === undefined && allowMuteOnly && rule.enabled === false) continue;
+        const required = NUMERIC_FIELDS[rule.type as AlertRuleType];
+        if (!required) return `Rule ${rule.id}: unknown type ${JSON.stringify(rule.type)}`;
+
+        for (const field of OPTIONAL_NUMERIC_FIELDS) {
+            if (rule[field] !== undefined && (typeof rule[field] !== 'number' || rule[field] < 0)) {
+                return `Rule ${rule.id}: "${field}" must be a non-negative number`;
+            }
+        }
+        for (const field of required) {
+            if (!field.split('|').some(name => typeof rule[name] === 'number')) {
+                return `Rule ${rule.id}: "${field.replace('|', '" or "')}" is required`;
+            }
+        }
+        if (rule.sectors !== undefined && (!Array.isArray(rule.sectors) || rule.sectors.some((s: unknown) => typeof s !== 'string'))) {
+            return `Rule ${rule.id}: "sectors" must be a list of sector names`;
+        }
+    }
+    return null;
+}
+
+export function loadGlobalAlertRules(): AlertRule[] {
+    try {
+        return getStorage().getDocument<AlertRule[]>('alert_rules', GLOBAL_SCOPE) ?? DEFAULT_ALERT_RULES;
+    } catch (error) {
+        console.error('Error loading alert rules:', error);
+        return DEFAULT_ALERT_RULES;
+    }
+}
+
+export function loadEventAlertRules(eventId: string): EventAlertRule[] {
+    try {
+        return getStorage().getDocument<EventAlertRule[]>('alert_rules', eventId) || [];
+    } catch (error) {
+        console.error('Error loading alert rules:', error);
+        return [];
+    }
+}
+
+// Input is validated by the API route; an empty event list removes it
+export function saveGlobalAlertRules(rules: AlertRule[]): void {
+    getStorage().putDocument('alert_rules', GLOBAL_SCOPE, rules);
+}
+
+export function saveEventAlertRules(eventId: string, rules: EventAlertRule[]): void {
+    if (rules.length === 0) {
+        getStorage().deleteDocument('alert_rules', eventId);
+    } else {
+        getStorage().putDocument('alert_rules', eventId, rules);
+    }
+}
+
+/**
+ * Rules applied to an event: global ones, with event rules of the same ID replacing them,
+ * followed by the event's own rules.
+ */
+export function getEffectiveAlertRules(eventId: string): AlertRule[] {
+    const eventRules = loadEventAlertRules(eventId);
+    const overrides = new Map(eventRules.map(rule => [rule.id, rule]));
+    const merged = loadGlobalAlertRules().map(rule => {
+        const override = overrides.get(rule.id);
+        if (!override) return rule;
+        overrides.delete(rule.id);
+        // { id, enabled: false } only mutes the global rule
+        return 'type' in override ? override : { ...rule, enabled: false };
+    });
+    const own = Array.from(overrides.values()).filter((rule): rule is AlertRule => 'type' in rule);
+    return [...merged, ...own];
+}
+
+export function loadAlertState(eventId: string): AlertState | null {
+    try {
+        return getStorage().getDocument<AlertState>('alert_state', eventId);
+    } catch (error) {
+        console.error('Error loading alert state:', error);
+        return null;
+    }
+}
+
+/**
+ * Evaluate the event's rules after a refresh and return the notifications to send.
+ * Conditions still true since the last refresh are not reported again.
+ */
+export function processEventAlerts(context: AlertContext): Notification[] {
+    // Every platform failed - no data to judge by, keep the previous state
+    if (context.stats.combinedTotals.total <= 0) return [];
+
+    const eventId = context.event.globalEventId;
+    const triggered = evaluateAlertRules(getEffectiveAlertRules(eventId), context);
+
+    // Without the state only sales and returns are safe to send (conditions would repeat)
+    let fire: Notification[] = triggered.filter(alert => alert.key === null).map(alert => alert.notification);
+    try {
+        getStorage().updateDocument<AlertState>('alert_state', eventId, previous => {
+            const result = applyAlertState(triggered, previous, context.now);
+            fire = result.fire.map(alert => alert.notification);
+            return Object.keys(result.state.active).length > 0 ? result.state : null;
+        });
+    } catch (error) {
+        console.error('Error saving alert state:', error);
+    }
+
+    if (fire.length > 0) {
+        console.log(`Alerts: ${fire.length} alert(s) for ${eventId}`);
+    }
+    return fire;
+}
+
+export { evaluateAlertRules, applyAlertState } from './evaluate';
+export type { TriggeredAlert } from './evaluate';
+export type {
+    AlertRule,
+    AlertRuleType,
+    AlertRuleMute,
+    EventAlertRule,
+    AlertContext,
+    AlertState,
+} from './types';
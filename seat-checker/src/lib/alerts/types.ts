@@ -0,0 +1,75 @@
+import type { CombinedEventStats, JoinedEvent, SourceType } from '../types';
+import type { SeatTransition } from '../seatLog';
+
+// Alert rules evaluated after every stats refresh of an event.
+//   new_sales       - seats sold since the previous refresh (at least minSeats)
+//   returns         - sold seats free again
+//   free_below      - free seats under a number and/or a percentage of all seats
+//   sector_sold_out - a sector has no free seat left on any platform
+//   sales_velocity  - more than "seats" sold within the last windowMinutes
+//   days_before     - event at most "days" away and under maxSoldPercent sold
+export type AlertRuleType = 'new_sales' | 'returns' | 'free_below' | 'sector_sold_out' | 'sales_velocity' | 'days_before';
+
+interface AlertRuleBase {
+    id: string;             // unique within its list; an event rule with a global rule's ID replaces it
+    enabled?: boolean;      // default true; { id, enabled: false } on an event mutes a global rule there
+}
+
+export interface NewSalesRule extends AlertRuleBase {
+    type: 'new_sales';
+    minSeats?: number;      // default 1
+}
+
+export interface ReturnsRule extends AlertRuleBase {
+    type: 'returns';
+}
+
+export interface FreeBelowRule extends AlertRuleBase {
+    type: 'free_below';
+    seats?: number;         // fires when free < seats ...
+    percent?: number;       // ... or free / total < percent %
+}
+
+export interface SectorSoldOutRule extends AlertRuleBase {
+    type: 'sector_sold_out';
+    sectors?: string[];     // only these sectors (case-insensitive), default all
+}
+
+export interface SalesVelocityRule extends AlertRuleBase {
+    type: 'sales_velocity';
+    seats: number;
+    windowMinutes?: number; // default 60
+}
+
+export interface DaysBeforeRule extends AlertRuleBase {
+    type: 'days_before';
+    days: number;
+    maxSoldPercent: number;
+}
+
+export type AlertRule = NewSalesRule | ReturnsRule | FreeBelowRule | SectorSoldOutRule | SalesVelocityRule | DaysBeforeRule;
+
+// Entry of an event's own list that only switches a global rule off for that event
+export interface AlertRuleMute {
+    id: string;
+    enabled: false;
+}
+
+export type EventAlertRule = AlertRule | AlertRuleMute;
+
+// Everything a rule can look at after one refresh
+export interface AlertContext {
+    event: JoinedEvent;
+    stats: CombinedEventStats;
+    // Seats sold / returned in this refresh ("Sector:Row-Seat" -> platform)
+    newlySold: Record<string, SourceType>;
+    newlyReturned: Record<string, SourceType>;
+    // Full seat log including this refresh (sales history)
+    seatLog: SeatTransition[];
+    now: Date;
+}
+
+// Dedup state per event: condition keys that were true at the last evaluation
+export interface AlertState {
+    active: Record<string, string>;     // key -> when it fired
+}
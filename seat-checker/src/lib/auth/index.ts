@@ -0,0 +1,130 @@
+import { getUser, hasRole, hasUsers, toPublicUser, verifyPassword, type PublicUser, type Role } from './users';
+import { createSession, deleteSession, getSession, SESSION_COOKIE, SESSION_TTL_MS } from './sessions';
+
+// Login and role checks for the internal API (/api/*, not the key-based /api/v1).
+// Roles: viewer (reads), operator (refreshes, overrides, event alerts, links), admin (caches,
+// organizers, global alerts, users). Until the first user exists authentication is off and
+// every request acts as admin, so an existing installation keeps working after an update.
+
+const MAX_FAILED_LOGINS = 5;
+const LOGIN_LOCK_MS = 15 * 60 * 1000;
+
+// Failed logins per username (in memory - a restart clears it)
+const failedLogins = new Map<string, { count: number; lockedUntil: number }>();
+
+// Acts as the user when authentication is off
+const IMPLICIT_ADMIN: PublicUser = { username: 'admin', role: 'admin' };
+
+let warnedDisabled = false;
+
+export function isAuthEnabled(): boolean {
+    let enabled: boolean;
+    try {
+        enabled = hasUsers();
+    } catch (error) {
+        // Unknown users must not open the API - assume they exist, so requests are denied
+        console.error('Auth: error loading users, denying access:', error);
+        return true;
+    }
+    if (!enabled && !warnedDisabled) {
+        warnedDisabled = true;
+        console.warn('Auth: no users configured - the API is open to everyone. Create an admin with scripts/users.ts or AUTH_ADMIN_USER/AUTH_ADMIN_PASSWORD.');
+    }
+    return enabled;
+}
+
+function getCookie(request: Request, name: string): string | null {
+    for (const part of (request.headers.get('cookie') || '').split(';')) {
+        const [key, ...value] = part.trim().split('=');
+        if (key === name) return decodeURIComponent(value.join('='));
+    }
+    return null;
+}
+
+/**
+ * The logged-in user of a request (the implicit admin when authentication is off), or null.
+ */
+export function getRequestUser(request: Request): PublicUser | null {
+    if (!isAuthEnabled()) return IMPLICIT_ADMIN;
+
+    const token = getCookie(request, SESSION_COOKIE);
+    const session = token ? getSession(token) : null;
+    const user = session ? getUser(session.username) : null;
+    return user ? toPublicUser(user) : null;
+}
+
+/**
+ * Route guard: the user when they have at least the given role, otherwise the
+ * 401/403 response to return.
+ */
+export function requireRole(request: Request, role: Role): PublicUser | Response {
+    const user = getRequestUser(request);
+    if (!user) {
+        return Response.json({ success: false, error: 'Login required' }, { status: 401 });
+    }
+    if (!hasRole(user.role, role)) {
+        return Response.json({ success: false, error: `Requires the ${role} role` }, { status: 403 });
+    }
+    return user;
+}
+
+/**
+ * Check the credentials and start a session. Returns the user and the session cookie,
+ * or an error message (bad credentials, too many failed attempts).
+ */
+export function login(username: string, password: string): { user: PublicUser; cookie: string } | { error: string } {
+    const key = username.toLowerCase();
+    const failed = failedLogins.get(key);
+    if (failed && failed.lockedUntil > Date.now()) {
+        return { error: 'Too many failed logins - try again later' };
+    }
+
+    const user = verifyPassword(username, password);
+    if (!user) {
+        const count = (failed && failed.lockedUntil === 0 ? failed.count : 0) + 1;
+        failedLogins.set(key, { count, lockedUntil: count >= MAX_FAILED_LOGINS ? Date.now() + LOGIN_LOCK_MS : 0 });
+        console.warn(`Auth: failed login for "${username}"`);
+        return { error: 'Invalid username or password' };
+    }
+
+    failedLogins.delete(key);
+    const { token } = createSession(user.username);
+    console.log(`Auth: ${user.username} logged in`);
+    return { user: toPublicUser(user), cookie: sessionCookie(token, SESSION_TTL_MS / 1000) };
+}
+
+/**
+ * End the request's session; returns the cookie clearing it.
+ */
+export function logout(request: Request): string {
+    const token = getCookie(request, SESSION_COOKIE);
+    if (token) {
+        try {
+            deleteSession(token);
+        } catch (error) {
+            console.error('Error deleting session:', error);
+        }
+    }
+    return sessionCookie('', 0);
+}
+
+// Secure only behind HTTPS (AUTH_COOKIE_SECURE=true), so plain http://localhost keeps working
+function sessionCookie(token: string, maxAgeSeconds: number): string {
+    const secure = process.env.AUTH_COOKIE_SECURE === 'true' ? '; Secure' : '';
+    return `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${maxAgeSeconds}${secure}`;
+}
+
+export {
+    ROLES,
+    MIN_PASSWORD_LENGTH,
+    hasRole,
+    isRole,
+    isValidUsername,
+    listUsers,
+    getUser,
+    saveUser,
+    deleteUser,
+    toPublicUser,
+} from './users';
+export { deleteUserSessions } from './sessions';
+export type { Role, PublicUser, UserRecord } from './users';
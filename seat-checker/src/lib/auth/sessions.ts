@@ -0,0 +1,79 @@
+import crypto from 'crypto';
+import { getStorage } from '../storage';
+
+// Login sessions ("sessions"), stored under the SHA-256 hash of the cookie token like API keys,
+// so a copy of the data directory does not contain usable sessions. The role is not stored -
+// it is read from the user on every request, so a changed role applies at once.
+
+export const SESSION_COOKIE = 'seat-checker.session';
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface SessionRecord {
+    username: string;
+    createdAt: string;
+    expiresAt: string;
+}
+
+function hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function isExpired(session: SessionRecord, now = Date.now()): boolean {
+    return new Date(session.expiresAt).getTime() <= now;
+}
+
+// Drop expired sessions and, when given, every session of one user (deleted user, new password)
+function pruneSessions(username?: string): void {
+    const storage = getStorage();
+    const now = Date.now();
+    for (const [key, session] of Object.entries(storage.listDocuments<SessionRecord>('sessions'))) {
+        if (isExpired(session, now) || (username && session.username.toLowerCase() === username.toLowerCase())) {
+            storage.deleteDocument('sessions', key);
+        }
+    }
+}
+
+/**
+ * Start a session; returns the token for the cookie.
+ */
+export function createSession(username: string): { token: string; session: SessionRecord } {
+    try {
+        pruneSessions();
+    } catch (error) {
+        console.error('Error pruning sessions:', error);
+    }
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = Date.now();
+    const session: SessionRecord = {
+        username,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + SESSION_TTL_MS).toISOString(),
+    };
+    getStorage().putDocument('sessions', hashToken(token), session);
+    return { token, session };
+}
+
+export function getSession(token: string): SessionRecord | null {
+    try {
+        const storage = getStorage();
+        const session = storage.getDocument<SessionRecord>('sessions', hashToken(token));
+        if (!session) return null;
+        if (isExpired(session)) {
+            storage.deleteDocument('sessions', hashToken(token));
+            return null;
+        }
+        return session;
+    } catch (error) {
+        console.error('Error loading session:', error);
+        return null;
+    }
+}
+
+export function deleteSession(token: string): void {
+    getStorage().deleteDocument('sessions', hashToken(token));
+}
+
+export function deleteUserSessions(username: string): void {
+    pruneSessions(username);
+}
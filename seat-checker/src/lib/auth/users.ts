@@ -0,0 +1,149 @@
+import crypto from 'crypto';
+import { getStorage } from '../storage';
+
+// Local user store ("users", one document per username). Passwords are kept as scrypt hashes
+// with a random salt. AUTH_ADMIN_USER / AUTH_ADMIN_PASSWORD create the first admin when the
+// store is empty, e.g. for a container without a shell (scripts/users.ts otherwise).
+
+// Each role includes the ones before it
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export interface UserRecord {
+    username: string;
+    role: Role;
+    passwordHash: string;   // "scrypt:<salt hex>:<hash hex>"
+    createdAt: string;
+    updatedAt: string;
+}
+
+// What the API returns - never the hash
+export interface PublicUser {
+    username: string;
+    role: Role;
+}
+
+// Same characters as other storage keys - the file backend maps anything else to "_"
+const USERNAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+const KEY_LENGTH = 64;
+
+export function isValidUsername(username: unknown): username is string {
+    return typeof username === 'string' && USERNAME_PATTERN.test(username);
+}
+
+export function isRole(role: unknown): role is Role {
+    return typeof role === 'string' && (ROLES as readonly string[]).includes(role);
+}
+
+export function hasRole(role: Role, required: Role): boolean {
+    return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function toPublicUser(user: UserRecord): PublicUser {
+    return { username: user.username, role: user.role };
+}
+
+function hashPassword(password: string): string {
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.scryptSync(password, salt, KEY_LENGTH);
+    return `scrypt:${salt.toString('hex')}:${hash.toString('hex')}`;
+}
+
+function checkPassword(password: string, stored: string): boolean {
+    const [scheme, salt, hash] = stored.split(':');
+    if (scheme !== 'scrypt' || !salt || !hash) return false;
+    const expected = Buffer.from(hash, 'hex');
+    const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+    return crypto.timingSafeEqual(actual, expected);
+}
+
+// Usernames are case-insensitive
+function userKey(username: string): string {
+    return username.toLowerCase();
+}
+
+let envAdminChecked = false;
+
+function ensureEnvAdmin(): void {
+    if (envAdminChecked) return;
+    envAdminChecked = true;
+
+    const username = process.env.AUTH_ADMIN_USER;
+    const password = process.env.AUTH_ADMIN_PASSWORD;
+    if (!username || !password) return;
+    if (!isValidUsername(username) || password.length < MIN_PASSWORD_LENGTH) {
+        console.error(`AUTH_ADMIN_USER / AUTH_ADMIN_PASSWORD ignored: invalid username or password shorter than ${MIN_PASSWORD_LENGTH} characters`);
+        return;
+    }
+    try {
+        if (Object.keys(getStorage().listDocuments<UserRecord>('users')).length > 0) return;
+        saveUser(username, { role: 'admin', password });
+        console.log(`Auth: created admin "${username}" from AUTH_ADMIN_USER`);
+    } catch (error) {
+        console.error('Error creating admin from AUTH_ADMIN_USER:', error);
+    }
+}
+
+// Throws when the store cannot be read - an empty list would switch authentication off
+export function listUsers(): UserRecord[] {
+    ensureEnvAdmin();
+    return Object.values(getStorage().listDocuments<UserRecord>('users'))
+        .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+export function hasUsers(): boolean {
+    return listUsers().length > 0;
+}
+
+export function getUser(username: string): UserRecord | null {
+    ensureEnvAdmin();
+    try {
+        return getStorage().getDocument<UserRecord>('users', userKey(username));
+    } catch (error) {
+        console.error('Error loading user:', error);
+        return null;
+    }
+}
+
+/**
+ * Create a user or change an existing one's role and/or password.
+ * A new user needs both. Input is validated by the caller (API route, script).
+ */
+export function saveUser(username: string, changes: { role?: Role; password?: string }): UserRecord {
+    const now = new Date().toISOString();
+    const saved = getStorage().updateDocument<UserRecord>('users', userKey(username), existing => {
+        if (!existing && (!changes.role || !changes.password)) {
+            throw new Error(`User ${username} does not exist - role and password are required`);
+        }
+        return {
+            username: existing?.username || username,
+            role: changes.role || existing!.role,
+            passwordHash: changes.password ? hashPassword(changes.password) : existing!.passwordHash,
+            createdAt: existing?.createdAt || now,
+            updatedAt: now,
+        };
+    });
+    return saved!;
+}
+
+// False when there is no such user
+export function deleteUser(username: string): boolean {
+    const storage = getStorage();
+    if (!storage.getDocument<UserRecord>('users', userKey(username))) return false;
+    storage.deleteDocument('users', userKey(username));
+    return true;
+}
+
+/**
+ * The user when the password matches, null otherwise.
+ */
+export function verifyPassword(username: string, password: string): UserRecord | null {
+    const user = isValidUsername(username) ? getUser(username) : null;
+    if (!user) {
+        // Same work as for a real user, so response time does not reveal which usernames exist
+        checkPassword(password, `scrypt:${'0'.repeat(32)}:${'0'.repeat(KEY_LENGTH * 2)}`);
+        return null;
+    }
+    return checkPassword(password, user.passwordHash) ? user : null;
+}
@@ -0,0 +1,173 @@
+import type { JoinedEvent, SourceType } from '../types';
+import { SOURCE_IDS } from '../sources/meta';
+import { loadEventsFromFile } from '../eventsFileCache';
+import { loadSeatLog, type SeatTransition } from '../seatLog';
+import { loadStatsTimeSeries } from '../statsHistory';
+import type { AtRiskEvent, DigestPeriod, DigestRange, EventSalesSummary, PlatformShare, SalesDigest } from './types';
+
+// Digest data: sales per platform come from the seat log ("sold"/"returned" transitions),
+// seat counts from the stats time series.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   DIGEST_RISK_DAYS=14           - wydarzenie zagrożone: najwyżej tyle dni po końcu zakresu...
+//   DIGEST_RISK_SOLD_PERCENT=50   - ...i sprzedane mniej niż tyle procent miejsc
+//   DIGEST_TOP_EVENTS=5           - ile najlepiej sprzedających się wydarzeń pokazać
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DigestOptions {
+    riskDays?: number;
+    riskSoldPercent?: number;
+    topCount?: number;
+}
+
+function envNumber(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return isNaN(value) || value < 0 ? fallback : value;
+}
+
+function getDigestOptions(options: DigestOptions): Required<DigestOptions> {
+    return {
+        riskDays: options.riskDays ?? envNumber('DIGEST_RISK_DAYS', 14),
+        riskSoldPercent: options.riskSoldPercent ?? envNumber('DIGEST_RISK_SOLD_PERCENT', 50),
+        topCount: options.topCount ?? envNumber('DIGEST_TOP_EVENTS', 5),
+    };
+}
+
+// Local calendar day of a date
+export function toDayKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function startOfDay(day: string): Date {
+    const [year, month, date] = day.split('-').map(Number);
+    return new Date(year, month - 1, date);
+}
+
+export function isValidDay(value: unknown): value is string {
+    return typeof value === 'string' && DAY_PATTERN.test(value) && !isNaN(startOfDay(value).getTime());
+}
+
+// Range covered by a scheduled digest sent at "now": yesterday, or the 7 days ending yesterday
+export function getDigestRange(period: DigestPeriod, now: Date = new Date()): DigestRange {
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const yesterday = new Date(today.getFullYear(), today.getMonth(), today.getDate() - 1);
+    const from = period === 'weekly'
+        ? new Date(today.getFullYear(), today.getMonth(), today.getDate() - 7)
+        : yesterday;
+    return { from: toDayKey(from), to: toDayKey(yesterday) };
+}
+
+function percent(part: number, total: number): number {
+    return Math.round((part / total) * 1000) / 10;
+}
+
+function sum(counts: Partial<Record<SourceType, number>>): number {
+    return Object.values(counts).reduce((acc, n) => acc + (n || 0), 0);
+}
+
+/**
+ * Seats sold and returned between from (inclusive) and to (exclusive), per platform.
+ * Entries rebuilt from the pre-log history have no real sale time and are skipped.
+ */
+export function summarizeSeatSales(transitions: SeatTransition[], from: Date, to: Date): {
+    sold: Partial<Record<SourceType, number>>;
+    returned: Partial<Record<SourceType, number>>;
+} {
+    const sold: Partial<Record<SourceType, number>> = {};
+    const returned: Partial<Record<SourceType, number>> = {};
+    for (const t of transitions) {
+        if (t.migrated || (t.type !== 'sold' && t.type !== 'returned')) continue;
+        const time = new Date(t.timestamp).getTime();
+        if (time < from.getTime() || time >= to.getTime()) continue;
+        if (t.type === 'sold') {
+            sold[t.source] = (sold[t.source] || 0) + 1;
+        } else {
+            const soldOn = t.from ?? t.source;
+            returned[soldOn] = (returned[soldOn] || 0) + 1;
+        }
+    }
+    return { sold, returned };
+}
+
+async function summarizeEvent(event: JoinedEvent, from: Date, to: Date): Promise<EventSalesSummary> {
+    const { sold, returned } = summarizeSeatSales(await loadSeatLog(event.globalEventId), from, to);
+
+    // Seat counts as of the end of the range
+    const series = await loadStatsTimeSeries(event.globalEventId, { to: new Date(to.getTime() - 1) });
+    const last = series[series.length - 1];
+    const taken = last ? sum(last.taken) : null;
+    const total = last ? taken! + sum(last.free) : null;
+
+    return {
+        eventId: event.globalEventId,
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        city: event.cityOriginal || event.city,
+        sold,
+        returned,
+        net: sum(sold) - sum(returned),
+        taken,
+        total,
+        soldPercent: total ? percent(taken!, total) : null,
+    };
+}
+
+/**
+ * Build the sales digest of an organizer's events for a range of days.
+ */
+export async function buildSalesDigest(
+    organizer: { id: string; name: string },
+    range: DigestRange,
+    options: DigestOptions = {}
+): Promise<SalesDigest> {
+    const { riskDays, riskSoldPercent, topCount } = getDigestOptions(options);
+    const from = startOfDay(range.from);
+    const to = new Date(startOfDay(range.to).getTime() + DAY_MS);
+
+    const summaries: EventSalesSummary[] = [];
+    for (const event of loadEventsFromFile(organizer.id)) {
+        summaries.push(await summarizeEvent(event, from, to));
+    }
+
+    const events = summaries
+        .filter(s => sum(s.sold) > 0 || sum(s.returned) > 0)
+        .sort((a, b) => sum(b.sold) - sum(a.sold) || b.net - a.net);
+
+    const atRisk: AtRiskEvent[] = [];
+    for (const summary of summaries) {
+        if (!isValidDay(summary.date) || summary.soldPercent === null) continue;
+        const daysLeft = Math.round((startOfDay(summary.date).getTime() - to.getTime()) / DAY_MS);
+        if (daysLeft < 0 || daysLeft > riskDays || summary.soldPercent >= riskSoldPercent) continue;
+        atRisk.push({ ...summary, daysLeft });
+    }
+    atRisk.sort((a, b) => a.daysLeft - b.daysLeft || a.soldPercent! - b.soldPercent!);
+
+    const soldPerSource: Partial<Record<SourceType, number>> = {};
+    for (const summary of events) {
+        for (const source of SOURCE_IDS) {
+            soldPerSource[source] = (soldPerSource[source] || 0) + (summary.sold[source] || 0);
+        }
+    }
+    const sold = sum(soldPerSource);
+    const returned = events.reduce((acc, s) => acc + sum(s.returned), 0);
+    const platformShare: PlatformShare[] = SOURCE_IDS
+        .filter(source => soldPerSource[source])
+        .map(source => ({ source, sold: soldPerSource[source]!, percent: percent(soldPerSource[source]!, sold) }))
+        .sort((a, b) => b.sold - a.sold);
+
+    return {
+        organizerId: organizer.id,
+        organizerName: organizer.name,
+        range,
+        generatedAt: new Date().toISOString(),
+        totals: { sold, returned, net: sold - returned },
+        events,
+        topEvents: events.filter(s => sum(s.sold) > 0).slice(0, topCount),
+        atRisk,
+        platformShare,
+    };
+}
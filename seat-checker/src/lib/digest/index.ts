@@ -0,0 +1,14 @@
+// Sales digests: build (seat log + stats history), render (Markdown / HTML), send on a schedule.
+export { buildSalesDigest, getDigestRange, isValidDay, summarizeSeatSales, toDayKey } from './build';
+export type { DigestOptions } from './build';
+export { renderDigestMarkdown, renderDigestHtml, getDigestTitle, getDigestSummary, getDigestSections } from './render';
+export { runDueDigests, loadDigestState, parseDigestSchedule, getLastSlot } from './schedule';
+export type { DigestState } from './schedule';
+export type {
+    DigestPeriod,
+    DigestRange,
+    EventSalesSummary,
+    AtRiskEvent,
+    PlatformShare,
+    SalesDigest,
+} from './types';
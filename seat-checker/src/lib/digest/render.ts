@@ -0,0 +1,153 @@
+import type { SourceType } from '../types';
+import { SOURCE_META } from '../sources/meta';
+import type { EventSalesSummary, SalesDigest } from './types';
+
+// Digest rendering: Markdown with **bold** markers (notification channels, API) and a standalone HTML page
+
+function formatRange(digest: SalesDigest): string {
+    return digest.range.from === digest.range.to ? digest.range.from : `${digest.range.from} – ${digest.range.to}`;
+}
+
+export function getDigestTitle(digest: SalesDigest): string {
+    return `📊 Podsumowanie sprzedaży - ${digest.organizerName} (${formatRange(digest)})`;
+}
+
+function formatPerSource(counts: Partial<Record<SourceType, number>>): string {
+    return (Object.entries(counts) as [SourceType, number][])
+        .filter(([, n]) => n > 0)
+        .sort((a, b) => b[1] - a[1])
+        .map(([source, n]) => `${SOURCE_META[source].label} ${n}`)
+        .join(', ');
+}
+
+function formatFillRate(summary: EventSalesSummary): string {
+    return summary.soldPercent === null ? 'brak danych' : `${summary.soldPercent}% (${summary.taken}/${summary.total})`;
+}
+
+function describeEvent(summary: EventSalesSummary): string {
+    return `**${summary.title}** (${summary.city}, ${summary.date} ${summary.time})`;
+}
+
+function sumReturned(summary: EventSalesSummary): number {
+    return Object.values(summary.returned).reduce((acc, n) => acc + (n || 0), 0);
+}
+
+export function getDigestSummary(digest: SalesDigest): string {
+    const { totals } = digest;
+    const summary = `Sprzedano **${totals.sold}** miejsc, zwroty: **${totals.returned}**, netto: **${totals.net}**.`;
+    return digest.events.length > 0 ? summary : `${summary}\n\nBrak sprzedaży w tym okresie.`;
+}
+
+// Lists of the digest (platforms, top events, events at risk, per-event sales)
+export function getDigestSections(digest: SalesDigest): Array<{ heading: string; lines: string[] }> {
+    const sections: Array<{ heading: string; lines: string[] }> = [];
+
+    if (digest.platformShare.length > 0) {
+        sections.push({
+            heading: 'Udział platform',
+            lines: digest.platformShare.map(share => `• ${SOURCE_META[share.source].label}: **${share.sold}** (${share.percent}%)`),
+        });
+    }
+
+    if (digest.topEvents.length > 0) {
+        sections.push({
+            heading: 'Najlepiej sprzedające się',
+            lines: digest.topEvents.map((summary, i) =>
+                `${i + 1}. ${describeEvent(summary)}: **${summary.net}** netto, sprzedane ${formatFillRate(summary)}`
+            ),
+        });
+    }
+
+    if (digest.atRisk.length > 0) {
+        sections.push({
+            heading: 'Zagrożone wydarzenia',
+            lines: digest.atRisk.map(summary =>
+                `• ${describeEvent(summary)}: sprzedane ${formatFillRate(summary)}, zostało ${summary.daysLeft} dni`
+            ),
+        });
+    }
+
+    if (digest.events.length > 0) {
+        sections.push({
+            heading: 'Sprzedaż według wydarzeń',
+            lines: digest.events.map(summary => {
+                const returned = sumReturned(summary);
+                const returns = returned > 0 ? `, zwroty: ${returned}` : '';
+                return `• ${describeEvent(summary)}: ${formatPerSource(summary.sold) || '0'}${returns}`;
+            }),
+        });
+    }
+
+    return sections;
+}
+
+export function renderDigestMarkdown(digest: SalesDigest): string {
+    const sections = getDigestSections(digest).map(section => `**${section.heading}:**\n${section.lines.join('\n')}`);
+    return [getDigestSummary(digest), ...sections].join('\n\n');
+}
+
+function escapeHtml(value: string): string {
+    return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+function htmlTable(headers: string[], rows: Array<Array<string | number>>): string {
+    const head = headers.map(h => `<th>${escapeHtml(h)}</th>`).join('');
+    const body = rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(String(cell))}</td>`).join('')}</tr>`).join('\n');
+    return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+export function renderDigestHtml(digest: SalesDigest): string {
+    const { totals } = digest;
+    const eventCell = (s: EventSalesSummary) => `${s.title} (${s.city}, ${s.date} ${s.time})`;
+    const parts: string[] = [
+        `<h1>${escapeHtml(getDigestTitle(digest))}</h1>`,
+        `<p>Sprzedano <b>${totals.sold}</b> miejsc, zwroty: <b>${totals.returned}</b>, netto: <b>${totals.net}</b>.</p>`,
+    ];
+
+    if (digest.platformShare.length > 0) {
+        parts.push('<h2>Udział platform</h2>', htmlTable(
+            ['Platforma', 'Sprzedane', 'Udział'],
+            digest.platformShare.map(share => [SOURCE_META[share.source].label, share.sold, `${share.percent}%`])
+        ));
+    }
+
+    if (digest.topEvents.length > 0) {
+        parts.push('<h2>Najlepiej sprzedające się</h2>', htmlTable(
+            ['Wydarzenie', 'Netto', 'Sprzedane łącznie'],
+            digest.topEvents.map(s => [eventCell(s), s.net, formatFillRate(s)])
+        ));
+    }
+
+    if (digest.atRisk.length > 0) {
+        parts.push('<h2>Zagrożone wydarzenia</h2>', htmlTable(
+            ['Wydarzenie', 'Dni do wydarzenia', 'Sprzedane łącznie'],
+            digest.atRisk.map(s => [eventCell(s), s.daysLeft, formatFillRate(s)])
+        ));
+    }
+
+    parts.push('<h2>Sprzedaż według wydarzeń</h2>');
+    parts.push(digest.events.length > 0
+        ? htmlTable(
+            ['Wydarzenie', 'Sprzedane (platformy)', 'Zwroty', 'Netto'],
+            digest.events.map(s => [eventCell(s), formatPerSource(s.sold) || '0', sumReturned(s), s.net])
+        )
+        : '<p>Brak sprzedaży w tym okresie.</p>');
+
+    return `<!DOCTYPE html>
+<html lang="pl">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(getDigestTitle(digest))}</title>
+<style>
+body { font-family: sans-serif; margin: 2rem; color: #222; }
+table { border-collapse: collapse; margin-bottom: 1.5rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; }
+th { background: #f3f3f3; }
+</style>
+</head>
+<body>
+${parts.join('\n')}
+</body>
+</html>
+`;
+}
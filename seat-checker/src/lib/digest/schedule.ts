@@ -0,0 +1,121 @@
+import type { DigestPeriod } from './types';
+import { buildSalesDigest, getDigestRange } from './build';
+import { loadOrganizers } from '../organizers';
+import { loadEventsFromFile } from '../eventsFileCache';
+import { dispatchNotification, buildDigestNotification } from '../notifications';
+import { getScrapeMode } from '../scrapeRecorder';
+import { getStorage } from '../storage';
+
+// Scheduled digests, checked on every scheduler tick (scheduler.ts). One message per organizer
+// with events; the last sent range per period is kept so a restart does not send it twice.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   DIGEST_DAILY_AT=08:00         - godzina dziennego podsumowania (poprzedni dzień), "off" wyłącza
+//   DIGEST_WEEKLY_AT=mon 08:00    - dzień i godzina tygodniowego (7 dni do wczoraj), "off" wyłącza
+
+const DEFAULT_SCHEDULE: Record<DigestPeriod, string> = {
+    daily: '08:00',
+    weekly: 'mon 08:00',
+};
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// A slot missed by more than this (server was off) is skipped, not sent late
+const MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+
+interface DigestSchedule {
+    weekday: number | null;     // null = every day
+    hours: number;
+    minutes: number;
+}
+
+export interface DigestState {
+    // Period -> last day ("to") of the range already sent
+    lastSent: Partial<Record<DigestPeriod, string>>;
+}
+
+export function parseDigestSchedule(value: string, weekly: boolean): DigestSchedule | null {
+    const match = value.trim().toLowerCase().match(/^(?:([a-z]{3})\s+)?(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+    const weekday = match[1] ? WEEKDAYS.indexOf(match[1]) : null;
+    const hours = parseInt(match[2], 10);
+    const minutes = parseInt(match[3], 10);
+    if (weekday === -1 || (weekday === null) === weekly || hours > 23 || minutes > 59) return null;
+    return { weekday, hours, minutes };
+}
+
+function getSchedule(period: DigestPeriod): DigestSchedule | null {
+    const envName = period === 'weekly' ? 'DIGEST_WEEKLY_AT' : 'DIGEST_DAILY_AT';
+    const value = process.env[envName] || DEFAULT_SCHEDULE[period];
+    if (value.trim().toLowerCase() === 'off') return null;
+
+    const schedule = parseDigestSchedule(value, period === 'weekly');
+    if (!schedule) console.warn(`Digest: ignoring invalid ${envName}="${value}"`);
+    return schedule;
+}
+
+// Latest scheduled time at or before now
+export function getLastSlot(schedule: DigestSchedule, now: Date): Date {
+    const slot = new Date(now.getFullYear(), now.getMonth(), now.getDate(), schedule.hours, schedule.minutes);
+    if (schedule.weekday !== null) {
+        slot.setDate(slot.getDate() - ((slot.getDay() - schedule.weekday + 7) % 7));
+    }
+    if (slot.getTime() > now.getTime()) {
+        slot.setDate(slot.getDate() - (schedule.weekday !== null ? 7 : 1));
+    }
+    return slot;
+}
+
+export function loadDigestState(): DigestState {
+    try {
+        const state = getStorage().getDocument<DigestState>('state', 'digest_state');
+        if (state) return state;
+    } catch (error) {
+        console.warn('Digest: failed to load state:', error);
+    }
+    return { lastSent: {} };
+}
+
+function saveDigestState(state: DigestState) {
+    try {
+        getStorage().putDocument('state', 'digest_state', state);
+    } catch (error) {
+        console.error('Digest: failed to save state:', error);
+    }
+}
+
+// Send every digest whose slot passed since the last one
+export async function runDueDigests(now: Date = new Date()): Promise<void> {
+    const state = loadDigestState();
+
+    for (const period of ['daily', 'weekly'] as DigestPeriod[]) {
+        const schedule = getSchedule(period);
+        if (!schedule) continue;
+
+        const slot = getLastSlot(schedule, now);
+        const range = getDigestRange(period, slot);
+        if (state.lastSent[period] === range.to || now.getTime() - slot.getTime() > MAX_DELAY_MS) continue;
+
+        // Mark first - a failing organizer must not make every tick resend the others
+        state.lastSent[period] = range.to;
+        saveDigestState(state);
+
+        if (getScrapeMode() === 'replay') {
+            console.log(`Replay: skipping ${period} digest`);
+            continue;
+        }
+
+        for (const organizer of loadOrganizers()) {
+            if (loadEventsFromFile(organizer.id).length === 0) continue;
+            try {
+                const digest = await buildSalesDigest(organizer, range);
+                console.log(`Digest: sending ${period} digest for ${organizer.id} (${range.from} - ${range.to})`);
+                // Background dispatch
+                dispatchNotification(buildDigestNotification(digest))
+                    .catch(e => console.error('Error dispatching notification:', e));
+            } catch (error) {
+                console.error(`Digest: ${period} digest for ${organizer.id} failed:`, error);
+            }
+        }
+    }
+}
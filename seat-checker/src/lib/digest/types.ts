@@ -0,0 +1,56 @@
+import type { SourceType } from '../types';
+
+// Sales digest of one organizer over whole days (local time), see lib/digest.
+//   daily  - the previous day
+//   weekly - the 7 days ending yesterday
+
+export type DigestPeriod = 'daily' | 'weekly';
+
+export interface DigestRange {
+    from: string;   // YYYY-MM-DD, inclusive
+    to: string;     // YYYY-MM-DD, inclusive
+}
+
+export interface EventSalesSummary {
+    eventId: string;
+    title: string;
+    date: string;
+    time: string;
+    city: string;
+    // Seats sold in the range per platform, and returned per platform they were sold on
+    sold: Partial<Record<SourceType, number>>;
+    returned: Partial<Record<SourceType, number>>;
+    net: number;
+    // Counts of the last refresh before the end of the range; null when never refreshed
+    taken: number | null;
+    total: number | null;
+    soldPercent: number | null;
+}
+
+export interface AtRiskEvent extends EventSalesSummary {
+    daysLeft: number;
+}
+
+export interface PlatformShare {
+    source: SourceType;
+    sold: number;
+    percent: number;
+}
+
+export interface SalesDigest {
+    organizerId: string;
+    organizerName: string;
+    range: DigestRange;
+    generatedAt: string;
+    totals: {
+        sold: number;
+        returned: number;
+        net: number;
+    };
+    // Events with any sale or return in the range, most sold first
+    events: EventSalesSummary[];
+    topEvents: EventSalesSummary[];
+    // Upcoming events that sell poorly
+    atRisk: AtRiskEvent[];
+    platformShare: PlatformShare[];
+}
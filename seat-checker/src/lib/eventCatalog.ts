@@ -0,0 +1,120 @@
+import { DEFAULT_ORGANIZER_ID, type EventChange, type JoinedEvent, type RawEvent, type SourceType } from './types';
+import { joinEvents } from './eventJoin';
+import { loadEventLinks } from './eventLinks';
+import { resolveEventIdentities, resolveEventId } from './eventIdentity';
+import { diffEventLists, appendEventChanges } from './eventChanges';
+import { dispatchNotification, buildEventChangesNotification } from './notifications';
+import { getScrapeMode } from './scrapeRecorder';
+import { getOrganizer } from './organizers';
+import { hasCachedData, getCacheTimestamp } from './urlCache';
+import { saveEventsToFile, loadEventsFromFile, saveRawEventsToFile, loadRawEventsFromFile } from './eventsFileCache';
+import { getStorage } from './storage';
+
+// The joined event lists served by /api/events, one per organizer: built from the raw listings
+// of the last scrape, the manual link table and the "seen" set, kept in memory and in storage.
+
+interface EventCatalog {
+    events: JoinedEvent[];
+    lastUpdated: Date | null;
+    // Changes found by the last build (empty when changes were not checked)
+    changes: EventChange[];
+}
+
+interface BuildOptions {
+    // Platforms whose scrape failed or returned nothing in this refresh
+    unavailableSources?: SourceType[];
+    // Diff against the previous list and report changes (off when only re-joining)
+    detectChanges?: boolean;
+}
+
+// In-memory cache for events per organizer ID (in production, use Redis or similar)
+const globalForCatalog = global as unknown as { _eventCatalogs: Record<string, EventCatalog> | undefined };
+
+function catalogs(): Record<string, EventCatalog> {
+    if (!globalForCatalog._eventCatalogs) globalForCatalog._eventCatalogs = {};
+    return globalForCatalog._eventCatalogs;
+}
+
+function loadSeenEvents(): Set<string> {
+    try {
+        const ids = getStorage().getDocument<string[]>('state', 'seen_events');
+        if (ids) return new Set(ids);
+    } catch (e) {
+        console.error('Failed to load seen events:', e);
+    }
+    return new Set();
+}
+
+// Merge instead of overwrite - another refresh may have recorded events in the meantime
+function saveSeenEvents(ids: Set<string>) {
+    try {
+        getStorage().updateDocument<string[]>('state', 'seen_events', current =>
+            Array.from(new Set([...(current || []), ...ids]))
+        );
+    } catch (e) {
+        console.error('Failed to save seen events:', e);
+    }
+}
+
+export function getEventCatalog(organizerId: string = DEFAULT_ORGANIZER_ID): EventCatalog {
+    return catalogs()[organizerId] || { events: [], lastUpdated: null, changes: [] };
+}
+
+/**
+ * Join raw listings of one organizer into events, mark new ones and persist the result.
+ */
+export function buildEventCatalog(organizerId: string, rawEvents: RawEvent[], options: BuildOptions = {}): EventCatalog {
+    rawEvents = rawEvents.map(e => e.organizerId === organizerId ? e : { ...e, organizerId });
+    const previousEvents = loadEventsFromFile(organizerId);
+    // Stable IDs: an edited title or time must not start a new history
+    const joinedEventsRaw = resolveEventIdentities(joinEvents(rawEvents, loadEventLinks()), previousEvents);
+
+    // First refresh ever has nothing to compare with
+    const changes = options.detectChanges && previousEvents.length > 0
+        ? diffEventLists(previousEvents, joinedEventsRaw, options.unavailableSources, resolveEventId)
+        : [];
+    if (changes.length > 0) {
+        console.log(`Events (${organizerId}): ${changes.length} change(s) since the previous refresh`);
+        appendEventChanges(organizerId, changes);
+        if (getScrapeMode() === 'replay') {
+            console.log('Replay: skipping notification for event list changes');
+        } else {
+            // Background dispatch
+            dispatchNotification(buildEventChangesNotification(changes, { id: organizerId, name: getOrganizer(organizerId)?.name }))
+                .catch(e => console.error('Error dispatching notification:', e));
+        }
+    }
+
+    // Enrich events
+    const seenEvents = loadSeenEvents();
+    const joinedEvents = joinedEventsRaw.map(evt => {
+        const isNew = !seenEvents.has(evt.globalEventId);
+        if (isNew) seenEvents.add(evt.globalEventId);
+
+        return {
+            ...evt,
+            hasCache: hasCachedData(evt.globalEventId),
+            cacheTimestamp: getCacheTimestamp(evt.globalEventId) || undefined,
+            isNew
+        };
+    });
+    saveSeenEvents(seenEvents);
+    saveRawEventsToFile(organizerId, rawEvents);
+    saveEventsToFile(organizerId, joinedEvents);
+
+    const catalog: EventCatalog = {
+        events: joinedEvents,
+        lastUpdated: new Date(),
+        changes,
+    };
+    catalogs()[organizerId] = catalog;
+    return catalog;
+}
+
+// Re-join the last scraped listings of an organizer, e.g. after the link table changed.
+// Null when there is nothing scraped yet.
+export function rebuildEventCatalog(organizerId: string): EventCatalog | null {
+    const rawEvents = loadRawEventsFromFile(organizerId);
+    if (rawEvents.length === 0) return null;
+    return buildEventCatalog(organizerId, rawEvents);
+}
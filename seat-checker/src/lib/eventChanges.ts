@@ -0,0 +1,97 @@
+import type { EventChange, JoinedEvent, SourceType } from './types';
+import { SOURCE_IDS } from './sources/meta';
+import { getStorage } from './storage';
+
+// Diff of the event list between two refreshes, kept as an append-only log per organizer.
+// Event IDs are stable (eventIdentity.ts), so a date change shows up as "rescheduled"
+// of the same ID rather than one event removed and another added.
+
+function localDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Classify the differences between the previous and the new event list.
+ *
+ * unavailableSources - platforms whose scrape failed or came back empty; their listings
+ * are missing for technical reasons, so nothing is reported as removed because of them.
+ * resolveId maps a former ID to the current one (events merged into another one are not "cancelled").
+ */
+export function diffEventLists(
+    previous: JoinedEvent[],
+    next: JoinedEvent[],
+    unavailableSources: SourceType[] = [],
+    resolveId: (id: string) => string = id => id,
+    now: Date = new Date()
+): EventChange[] {
+    const timestamp = now.toISOString();
+    const today = localDate(now);
+    const unavailable = new Set(unavailableSources);
+    const previousById = new Map(previous.map(e => [e.globalEventId, e]));
+    const nextById = new Map(next.map(e => [e.globalEventId, e]));
+    const changes: EventChange[] = [];
+
+    const base = (event: JoinedEvent) => ({
+        eventId: event.globalEventId,
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        city: event.cityOriginal || event.city,
+        timestamp,
+    });
+
+    for (const event of next) {
+        const before = previousById.get(event.globalEventId);
+        if (!before) {
+            changes.push({ type: 'added', ...base(event) });
+            continue;
+        }
+
+        if (before.date !== event.date || before.time !== event.time) {
+            changes.push({
+                type: 'rescheduled',
+                ...base(event),
+                previousDate: before.date,
+                previousTime: before.time,
+            });
+        }
+
+        for (const source of SOURCE_IDS) {
+            if (before.sources[source] && !event.sources[source] && !unavailable.has(source)) {
+                changes.push({ type: 'source_removed', ...base(event), source });
+            }
+        }
+    }
+
+    for (const before of previous) {
+        if (nextById.has(before.globalEventId) || nextById.has(resolveId(before.globalEventId))) continue;
+        // Past events just drop off the list
+        if (before.date && before.date < today) continue;
+        // A platform that failed to load may still list it
+        if (SOURCE_IDS.some(source => before.sources[source] && unavailable.has(source))) continue;
+        changes.push({ type: 'cancelled', ...base(before) });
+    }
+
+    return changes;
+}
+
+export function appendEventChanges(organizerId: string, changes: EventChange[]): void {
+    try {
+        getStorage().appendLog('event_changes', organizerId, changes);
+    } catch (error) {
+        console.error('Error saving event changes:', error);
+    }
+}
+
+// Changes in chronological order, optionally only those recorded after "since"
+export function loadEventChanges(organizerId: string, since?: Date): EventChange[] {
+    try {
+        const changes = getStorage().readLog<EventChange>('event_changes', organizerId);
+        if (!since) return changes;
+        return changes.filter(change => new Date(change.timestamp).getTime() >= since.getTime());
+    } catch (error) {
+        console.error('Error loading event changes:', error);
+        return [];
+    }
+}
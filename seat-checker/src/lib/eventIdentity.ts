@@ -0,0 +1,230 @@
+import { DEFAULT_ORGANIZER_ID, type JoinedEvent } from './types';
+import { SOURCE_IDS } from './sources/meta';
+import { canonicalCity, getCardKey, titleSimilarity } from './eventMatch';
+import { getStorage } from './storage';
+
+// Identity resolution: keeps globalEventId stable when a platform edits the title
+// or the time of a show. generateEventId derives the ID from date, time, city and title,
+// so without this an edit creates a new event and orphans its history.
+//
+// Resolution order for every joined event:
+//   1. listings  - an event card URL (per source) already seen under an ID keeps that ID;
+//                  a URL several events share (eBilet tour pages) identifies none of them
+//   2. fuzzy     - same date and city, very similar title, among events that vanished from the list
+//   3. otherwise - the freshly generated ID
+// The generated ID is then recorded as an alias of the stable one, and any data already
+// stored under it (e.g. after a manual link merged two events) is moved over.
+// An ID another event of the list carries is never given away.
+
+// Title similarity needed to treat a vanished event as the same show (fuzzy step)
+const FUZZY_TITLE_THRESHOLD = 0.8;
+
+interface EventIdentityTable {
+    // Listing key ("source|eventCardUrl", "organizerId|source|eventCardUrl" for other
+    // than the default organizer) -> stable globalEventId
+    listings: Record<string, string>;
+    // Generated (or former) ID -> stable ID
+    aliases: Record<string, string>;
+}
+
+function loadIdentityTable(): EventIdentityTable {
+    try {
+        return getStorage().getDocument<EventIdentityTable>('state', 'event_identities') || { listings: {}, aliases: {} };
+    } catch (error) {
+        console.error('Error loading event identities:', error);
+        return { listings: {}, aliases: {} };
+    }
+}
+
+// Scoped per organizer - two organizers selling the same show keep separate IDs
+function listingKeys(event: JoinedEvent): string[] {
+    const scope = event.organizerId && event.organizerId !== DEFAULT_ORGANIZER_ID ? `${event.organizerId}|` : '';
+    return SOURCE_IDS
+        .filter(source => event.sources[source])
+        .map(source => scope + getCardKey(source, event.sources[source]!.eventCardUrl));
+}
+
+// Listing keys that more than one event of the list has
+function sharedListingKeys(events: JoinedEvent[]): Set<string> {
+    const seen = new Set<string>();
+    const shared = new Set<string>();
+    for (const event of events) {
+        for (const key of listingKeys(event)) {
+            if (seen.has(key)) shared.add(key);
+            seen.add(key);
+        }
+    }
+    return shared;
+}
+
+/**
+ * Follow aliases to the current ID, e.g. for a link bookmarked before a title edit.
+ */
+export function resolveEventId(id: string): string {
+    const { aliases } = loadIdentityTable();
+    const seen = new Set<string>();
+    let current = id;
+    while (aliases[current] && !seen.has(current)) {
+        seen.add(current);
+        current = aliases[current];
+    }
+    return current;
+}
+
+function hasEventData(id: string): boolean {
+    const storage = getStorage();
+    return storage.getDocument('full_stats', id) !== null
+        || storage.hasLog('seat_log', id)
+        || storage.hasLog('stats_history', id)
+        || storage.getDocument('overrides', id) !== null;
+}
+
+/**
+ * Move everything stored per event from one ID to another.
+ * Data already present under the target wins - only missing pieces are moved,
+ * the rest stays under the old ID untouched.
+ */
+export function migrateEventData(fromId: string, toId: string): void {
+    if (fromId === toId) return;
+    const storage = getStorage();
+    let moved = 0;
+
+    storage.transaction(() => {
+        for (const collection of ['history', 'sold_history', 'stats_history_legacy', 'alert_rules', 'alert_state'] as const) {
+            const value = storage.getDocument(collection, fromId);
+            if (value === null || storage.getDocument(collection, toId) !== null) continue;
+            storage.putDocument(collection, toId, value);
+            storage.deleteDocument(collection, fromId);
+            moved++;
+        }
+
+        // Documents that carry their own ID
+        const fullStats = storage.getDocument<Record<string, unknown>>('full_stats', fromId);
+        if (fullStats && storage.getDocument('full_stats', toId) === null) {
+            storage.putDocument('full_stats', toId, { ...fullStats, globalEventId: toId });
+            storage.deleteDocument('full_stats', fromId);
+            moved++;
+        }
+        const overrides = storage.getDocument<Record<string, unknown>>('overrides', fromId);
+        if (overrides && storage.getDocument('overrides', toId) === null) {
+            storage.putDocument('overrides', toId, { ...overrides, eventId: toId });
+            storage.deleteDocument('overrides', fromId);
+            moved++;
+        }
+
+        for (const collection of ['seat_log', 'stats_history'] as const) {
+            if (!storage.hasLog(collection, fromId) || storage.hasLog(collection, toId)) continue;
+            storage.appendLog(collection, toId, storage.readLog(collection, fromId));
+            storage.deleteLog(collection, fromId);
+            moved++;
+        }
+
+        for (const source of SOURCE_IDS) {
+            const entry = storage.getDocument('url_cache', `${fromId}:${source}`);
+            if (entry === null || storage.getDocument('url_cache', `${toId}:${source}`) !== null) continue;
+            storage.putDocument('url_cache', `${toId}:${source}`, entry);
+            storage.deleteDocument('url_cache', `${fromId}:${source}`);
+            moved++;
+        }
+    });
+
+    if (moved > 0) console.log(`Event identity: migrated ${moved} stored item(s) ${fromId} -> ${toId}`);
+}
+
+/**
+ * Replace generated IDs of freshly joined events with their stable IDs.
+ * previousEvents is the list served before this refresh (seeds the table on first run
+ * and provides the candidates for fuzzy matching).
+ */
+export function resolveEventIdentities(events: JoinedEvent[], previousEvents: JoinedEvent[]): JoinedEvent[] {
+    const table = loadIdentityTable();
+
+    // IDs served so far are stable by definition
+    const sharedBefore = sharedListingKeys(previousEvents);
+    for (const previous of previousEvents) {
+        for (const key of listingKeys(previous)) {
+            if (!table.listings[key] && !sharedBefore.has(key)) table.listings[key] = previous.globalEventId;
+        }
+    }
+
+    // A shared key cannot tell its events apart - drop what it pointed to
+    const shared = sharedListingKeys(events);
+    for (const key of shared) delete table.listings[key];
+    const ownKeys = (event: JoinedEvent) => listingKeys(event).filter(key => !shared.has(key));
+
+    const claimed = new Set<string>();
+    // Generated IDs of the list; one of them goes to no other event
+    const generatedBy = new Map(events.map(event => [event.globalEventId, event]));
+    const available = (id: string, event: JoinedEvent) =>
+        !claimed.has(id) && (generatedBy.get(id) ?? event) === event;
+
+    const assigned = new Map<JoinedEvent, string>();
+    // Other IDs whose listings ended up in the event (two events joined into one)
+    const absorbed = new Map<JoinedEvent, string[]>();
+
+    // 1. Listings - events with more platforms first, so a split keeps the ID on the bigger part
+    const byListings = [...events].sort((a, b) => ownKeys(b).length - ownKeys(a).length);
+    for (const event of byListings) {
+        const votes = new Map<string, number>();
+        for (const key of ownKeys(event)) {
+            const id = table.listings[key];
+            if (id && available(id, event)) votes.set(id, (votes.get(id) || 0) + 1);
+        }
+        const best = Array.from(votes.entries()).sort((a, b) => b[1] - a[1])[0];
+        if (best) {
+            assigned.set(event, best[0]);
+            claimed.add(best[0]);
+            absorbed.set(event, Array.from(votes.keys()).filter(id => id !== best[0]));
+        }
+    }
+
+    // 2. Fuzzy - only against events that are gone from the new list
+    const currentIds = new Set(events.map(e => e.globalEventId));
+    const previousIds = new Set(previousEvents.map(p => p.globalEventId));
+    const vanished = previousEvents.filter(p => !claimed.has(p.globalEventId) && !currentIds.has(p.globalEventId));
+    for (const event of events) {
+        // Unchanged generated ID - nothing to resolve
+        if (assigned.has(event) || previousIds.has(event.globalEventId)) continue;
+
+        let bestMatch: { id: string; similarity: number } | null = null;
+        for (const previous of vanished) {
+            if (!available(previous.globalEventId, event)) continue;
+            if (previous.date !== event.date || canonicalCity(previous.city) !== canonicalCity(event.city)) continue;
+            const similarity = titleSimilarity(previous.title, event.title);
+            if (similarity >= FUZZY_TITLE_THRESHOLD && (!bestMatch || similarity > bestMatch.similarity)) {
+                bestMatch = { id: previous.globalEventId, similarity };
+            }
+        }
+        if (bestMatch) {
+            assigned.set(event, bestMatch.id);
+            claimed.add(bestMatch.id);
+        }
+    }
+
+    const resolved = events.map(event => {
+        const stableId = assigned.get(event) ?? event.globalEventId;
+        const formerIds = (absorbed.get(event) || []).filter(id => !claimed.has(id));
+        if (stableId !== event.globalEventId) formerIds.unshift(event.globalEventId);
+
+        for (const formerId of formerIds) {
+            if (table.aliases[formerId] !== stableId) {
+                console.log(`Event identity: ${formerId} -> ${stableId} (${event.title})`);
+                table.aliases[formerId] = stableId;
+            }
+            if (hasEventData(formerId)) migrateEventData(formerId, stableId);
+        }
+        delete table.aliases[stableId];
+        for (const key of ownKeys(event)) {
+            table.listings[key] = stableId;
+        }
+        return stableId === event.globalEventId ? event : { ...event, globalEventId: stableId };
+    });
+
+    try {
+        getStorage().putDocument('state', 'event_identities', table);
+    } catch (error) {
+        console.error('Error saving event identities:', error);
+    }
+
+    return resolved;
+}
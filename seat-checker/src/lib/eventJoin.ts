@@ -1,30 +1,114 @@
-import type { RawEvent, JoinedEvent, SourceType, SourceData } from './types';
+import { DEFAULT_ORGANIZER_ID, type RawEvent, type JoinedEvent, type SourceType, type SourceData } from './types';
+import { SOURCE_IDS } from './sources/meta';
+import { scoreEventMatch, getCardKey, getListingKey, MATCH_THRESHOLD, DEFAULT_TIME_TOLERANCE_MINUTES } from './eventMatch';
+import type { EventLinkTable } from './eventLinks';
 
 /**
- * Join events from multiple sources based on EXACT match of:
- * - date (YYYY-MM-DD)
- * - time (HH:MM)
- * - city (normalized)
+ * Join events from multiple sources.
  *
+ * Listings are matched fuzzily (see eventMatch.ts): same date and city (after aliases),
+ * start times within the tolerance, similar title and venue. The best-scoring pairs are
+ * merged first and a joined event never holds two listings from the same source.
+ *
+ * Manual rules from the link table win over the matcher:
+ * - "link" pairs are always joined
+ * - "split" pairs are never joined
+ *
+ * Listings of different organizers are never joined.
  * Events that don't match any other are kept as single-source events.
  */
-export function joinEvents(rawEvents: RawEvent[]): JoinedEvent[] {
-  // Group events by join key: date + time + city
-  const eventGroups = new Map<string, RawEvent[]>();
-
-  for (const event of rawEvents) {
-    const key = createJoinKey(event);
-    // Grupowanie po kluczu
-    if (!eventGroups.has(key)) {
-      eventGroups.set(key, []);
+export function joinEvents(
+  rawEvents: RawEvent[],
+  linkTable: EventLinkTable = { rules: [] },
+  timeToleranceMinutes: number = DEFAULT_TIME_TOLERANCE_MINUTES
+): JoinedEvent[] {
+  const organizerOf = (i: number) => rawEvents[i].organizerId || DEFAULT_ORGANIZER_ID;
+  const indexByKey = new Map(rawEvents.map((e, i) => [getListingKey(e.source, e), i]));
+  // Rules saved before listing keys had the date and time name only the card URL - they
+  // apply while one listing has that URL (an eBilet tour page is shared by all its shows)
+  const indexesByCard = new Map<string, number[]>();
+  rawEvents.forEach((e, i) => {
+    const key = getCardKey(e.source, e.eventCardUrl);
+    indexesByCard.set(key, [...(indexesByCard.get(key) || []), i]);
+  });
+  const findListing = (key: string): number | undefined => {
+    const byCard = indexesByCard.get(key);
+    return indexByKey.get(key) ?? (byCard?.length === 1 ? byCard[0] : undefined);
+  };
+
+  // Union-find over listing indexes
+  const parent = rawEvents.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const members = new Map<number, number[]>(rawEvents.map((_, i) => [i, [i]]));
+  const merge = (a: number, b: number) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) return;
+    parent[rootB] = rootA;
+    members.get(rootA)!.push(...members.get(rootB)!);
+    members.delete(rootB);
+  };
+
+  const splits = new Set<string>();
+  for (const rule of linkTable.rules) {
+    const a = findListing(rule.a);
+    const b = findListing(rule.b);
+    if (a === undefined || b === undefined || organizerOf(a) !== organizerOf(b)) continue;
+    if (rule.kind === 'link') {
+      merge(a, b);
+    } else {
+      splits.add(`${a}|${b}`).add(`${b}|${a}`);
+    }
+  }
+
+  const canMerge = (a: number, b: number): boolean => {
+    const groupA = members.get(find(a))!;
+    const groupB = members.get(find(b))!;
+    if (groupA === groupB) return false;
+    const sources = new Set(groupA.map(i => rawEvents[i].source));
+    if (groupB.some(i => sources.has(rawEvents[i].source))) return false;
+    return !groupA.some(i => groupB.some(j => splits.has(`${i}|${j}`)));
+  };
+
+  // Candidate pairs - only listings of one organizer, different sources and the same date can match
+  const buckets = new Map<string, number[]>();
+  rawEvents.forEach((event, i) => {
+    const bucket = `${organizerOf(i)}|${event.date || 'unknown'}`;
+    if (!buckets.has(bucket)) buckets.set(bucket, []);
+    buckets.get(bucket)!.push(i);
+  });
+
+  const candidates: Array<{ a: number; b: number; score: number }> = [];
+  for (const indexes of buckets.values()) {
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        const a = indexes[x];
+        const b = indexes[y];
+        if (rawEvents[a].source === rawEvents[b].source) continue;
+        const { score } = scoreEventMatch(rawEvents[a], rawEvents[b], timeToleranceMinutes);
+        if (score >= MATCH_THRESHOLD) candidates.push({ a, b, score });
+      }
     }
-    eventGroups.get(key)!.push(event);
+  }
+
+  // Best pairs first, so a weaker candidate cannot take the slot of a better one
+  candidates.sort((x, y) => y.score - x.score);
+  for (const { a, b } of candidates) {
+    if (canMerge(a, b)) merge(a, b);
   }
 
   // Convert groups to JoinedEvents
   const joinedEvents: JoinedEvent[] = [];
 
-  for (const [key, events] of eventGroups) {
+  for (const indexes of members.values()) {
+    const events = indexes.map(i => rawEvents[i]);
+
     // Pick the best title (prefer longer, more descriptive titles)
     const bestEvent = events.reduce((a, b) =>
       a.title.length >= b.title.length ? a : b
@@ -37,6 +121,7 @@ export function joinEvents(rawEvents: RawEvent[]): JoinedEvent[] {
         eventCardUrl: event.eventCardUrl,
         buyButtonSelector: event.buyButtonSelector,
         venue: event.venue,
+        time: event.time,
       };
     }
 
@@ -48,6 +133,7 @@ export function joinEvents(rawEvents: RawEvent[]): JoinedEvent[] {
 
     joinedEvents.push({
       globalEventId: globalId,
+      organizerId: bestEvent.organizerId || DEFAULT_ORGANIZER_ID,
       title: bestEvent.title,
       date: bestEvent.date,
       time: bestEvent.time,
@@ -66,20 +152,9 @@ export function joinEvents(rawEvents: RawEvent[]): JoinedEvent[] {
 }
 
 /**
- * Create join key from event data.
- * Key format: "YYYY-MM-DD|HH:MM|normalizedcity"
- */
-function createJoinKey(event: RawEvent): string {
-  const date = event.date || 'unknown';
-  const time = event.time || '00:00';
-  const city = event.city || 'unknown';
-  
-  // Klucz to np.: "2024-05-20|19:00|warszawa"
-  return `${date}|${time}|${city}`;
-}
-
-/**
- * Generate unique event ID
+ * Generate unique event ID.
+ * Events of other organizers get their ID as a prefix; the default organizer
+ * keeps the original format so its existing history stays attached.
  */
 function generateEventId(event: RawEvent): string {
   const datePart = event.date.replace(/-/g, '');
@@ -89,7 +164,9 @@ function generateEventId(event: RawEvent): string {
   // Add short hash of title
   const titleHash = hashString(event.title).toString(36).substring(0, 6);
 
-  return `${datePart}-${timePart}-${cityPart}-${titleHash}`;
+  const id = `${datePart}-${timePart}-${cityPart}-${titleHash}`;
+  const organizerId = event.organizerId || DEFAULT_ORGANIZER_ID;
+  return organizerId === DEFAULT_ORGANIZER_ID ? id : `${organizerId}-${id}`;
 }
 
 /**
@@ -109,8 +186,7 @@ function hashString(str: string): number {
  * Get list of sources for an event
  */
 export function getSourcesList(event: JoinedEvent): SourceType[] {
-  return (['biletyna', 'ebilet', 'kupbilecik'] as SourceType[])
-    .filter(source => event.sources[source]);
+  return SOURCE_IDS.filter(source => event.sources[source]);
 }
 
 /**
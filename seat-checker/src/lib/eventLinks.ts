@@ -0,0 +1,56 @@
+import { getStorage } from './storage';
+
+// Manual corrections of the cross-platform join, set by an operator.
+//   link  - these two listings are the same event, whatever the matcher says
+//   split - these two listings are different events, never join them
+// Listings are identified by source + event card URL + date and time (getListingKey), which
+// survive re-scraping; eBilet shares one card URL between all shows of a tour.
+export type EventLinkKind = 'link' | 'split';
+
+export interface EventLinkRule {
+    kind: EventLinkKind;
+    a: string;
+    b: string;
+    createdAt: string;
+}
+
+export interface EventLinkTable {
+    rules: EventLinkRule[];
+}
+
+function samePair(rule: EventLinkRule, a: string, b: string): boolean {
+    return (rule.a === a && rule.b === b) || (rule.a === b && rule.b === a);
+}
+
+export function loadEventLinks(): EventLinkTable {
+    try {
+        return getStorage().getDocument<EventLinkTable>('state', 'event_links') || { rules: [] };
+    } catch (error) {
+        console.error('Error loading event links:', error);
+        return { rules: [] };
+    }
+}
+
+/**
+ * Add link/split rules between listing pairs. A new rule replaces the opposite rule
+ * for the same pair, so "unlink" after "link" (and the other way round) just flips it.
+ */
+export function addEventLinkRules(kind: EventLinkKind, pairs: Array<[string, string]>): EventLinkTable {
+    const createdAt = new Date().toISOString();
+    return getStorage().updateDocument<EventLinkTable>('state', 'event_links', current => {
+        let rules = current?.rules || [];
+        for (const [a, b] of pairs) {
+            if (a === b) continue;
+            rules = rules.filter(rule => !samePair(rule, a, b));
+            rules.push({ kind, a, b, createdAt });
+        }
+        return { rules };
+    }) || { rules: [] };
+}
+
+// Remove any rule for the pair - the matcher decides again
+export function removeEventLinkRule(a: string, b: string): EventLinkTable {
+    return getStorage().updateDocument<EventLinkTable>('state', 'event_links', current => ({
+        rules: (current?.rules || []).filter(rule => !samePair(rule, a, b)),
+    })) || { rules: [] };
+}
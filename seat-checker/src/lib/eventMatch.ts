@@ -0,0 +1,220 @@
+import type { SourceType } from './types';
+
+/**
+ * Fuzzy matching of event listings across platforms.
+ *
+ * Pure functions only - shared by the server-side join (eventJoin.ts)
+ * and the client-side title grouping (page.tsx).
+ */
+
+// Listings of the same show on different platforms may differ by a door-opening time
+export const DEFAULT_TIME_TOLERANCE_MINUTES = 45;
+
+// Minimal score for two listings to be treated as the same event
+export const MATCH_THRESHOLD = 0.55;
+
+// Weights of the score components (sum = 1)
+const WEIGHTS = {
+  title: 0.6,
+  venue: 0.2,
+  time: 0.2,
+};
+
+// Alternative spellings of cities -> canonical name (already lowercase, without diacritics)
+const CITY_ALIASES: Record<string, string> = {
+  'warsaw': 'warszawa',
+  'm st warszawa': 'warszawa',
+  'cracow': 'krakow',
+  'krakow nowa huta': 'krakow',
+  'gdansk oliwa': 'gdansk',
+  'gdynia orlowo': 'gdynia',
+  'wroclaw fabryczna': 'wroclaw',
+  'breslau': 'wroclaw',
+  'posen': 'poznan',
+  'danzig': 'gdansk',
+  'bielsko biala': 'bielsko-biala',
+  'kedzierzyn kozle': 'kedzierzyn-kozle',
+};
+
+// Words that say nothing about which show it is
+const TITLE_STOPWORDS = new Set([
+  'i', 'w', 'z', 'na', 'do', 'oraz', 'the', 'and', 'a',
+  'koncert', 'spektakl', 'kabaret', 'bilety', 'nowy', 'program',
+]);
+
+export interface MatchCandidate {
+  title: string;
+  date: string;       // YYYY-MM-DD
+  time: string;       // HH:MM
+  city: string;
+  venue?: string;
+}
+
+export interface MatchScore {
+  score: number;
+  title: number;
+  venue: number | null;   // null when one of the listings has no venue
+  timeDiffMinutes: number;
+}
+
+// Identifies one platform listing across scrapes (used by the manual link table).
+// eBilet uses one card URL for every show of a tour, so the date and time are part of the key
+export function getListingKey(source: SourceType, listing: { eventCardUrl: string; date: string; time: string }): string {
+  return `${getCardKey(source, listing.eventCardUrl)}|${listing.date} ${listing.time}`;
+}
+
+// Source + event card URL alone - rule keys saved before the date and time were added, and
+// event identities (which must survive a time edit); may be shared by several shows
+export function getCardKey(source: SourceType, eventCardUrl: string): string {
+  return `${source}|${eventCardUrl}`;
+}
+
+function stripDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // "ł" has no decomposed form
+    .replace(/ł/g, 'l')
+    .replace(/Ł/g, 'L');
+}
+
+export function normalizeTitle(title: string): string {
+  return stripDiacritics(title).toLowerCase().replace(/[^a-z0-9\s]/g, '').trim();
+}
+
+/**
+ * Loose title comparison used for grouping events in the UI
+ * (same show, different date/city)
+ */
+export function areTitlesSimilar(title1: string, title2: string): boolean {
+  if (title1 === title2) return true;
+
+  const norm1 = normalizeTitle(title1);
+  const norm2 = normalizeTitle(title2);
+
+  if (norm1 === norm2) return true;
+
+  // Check if one contains the other
+  if (norm1.includes(norm2) || norm2.includes(norm1)) {
+    // Only allow if length difference is small (e.g. " - VIP" or " 2024")
+    const lenDiff = Math.abs(norm1.length - norm2.length);
+    if (lenDiff < 10) return true;
+  }
+
+  return false;
+}
+
+/**
+ * Canonical city name: "Kraków", "krakow", "Cracow", "Kraków (Nowa Huta)" -> "krakow"
+ */
+export function canonicalCity(city: string): string {
+  let normalized = stripDiacritics(city || '')
+    .toLowerCase()
+    // District or region after a comma, bracket or spaced dash
+    .split(/,|\(| - /)[0]
+    .replace(/^m\.\s*(st\.\s*)?/, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (CITY_ALIASES[normalized]) return CITY_ALIASES[normalized];
+  normalized = normalized.replace(/-/g, ' ');
+  return CITY_ALIASES[normalized] || normalized;
+}
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    normalizeTitle(title)
+      .split(/\s+/)
+      .filter(token => token && !TITLE_STOPWORDS.has(token))
+  );
+}
+
+function bigrams(text: string): Map<string, number> {
+  const compact = text.replace(/\s+/g, ' ');
+  const counts = new Map<string, number>();
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient on character bigrams - tolerant to typos and inflection
+function bigramSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let sizeA = 0;
+  let sizeB = 0;
+  let overlap = 0;
+  for (const count of gramsA.values()) sizeA += count;
+  for (const [gram, count] of gramsB) {
+    sizeB += count;
+    overlap += Math.min(count, gramsA.get(gram) || 0);
+  }
+  return sizeA + sizeB === 0 ? 0 : (2 * overlap) / (sizeA + sizeB);
+}
+
+/**
+ * Title similarity in [0, 1].
+ * Takes the best of: token overlap, one title containing all words of the other
+ * ("Artysta" vs "Artysta - trasa 2025") and character-level similarity.
+ */
+export function titleSimilarity(title1: string, title2: string): number {
+  const norm1 = normalizeTitle(title1);
+  const norm2 = normalizeTitle(title2);
+  if (!norm1 || !norm2) return 0;
+  if (norm1 === norm2) return 1;
+
+  const tokens1 = titleTokens(title1);
+  const tokens2 = titleTokens(title2);
+  let common = 0;
+  for (const token of tokens1) {
+    if (tokens2.has(token)) common++;
+  }
+
+  const tokenDice = tokens1.size + tokens2.size === 0 ? 0 : (2 * common) / (tokens1.size + tokens2.size);
+  const smaller = Math.min(tokens1.size, tokens2.size);
+  const containment = smaller > 0 && common === smaller ? 0.9 : 0;
+
+  return Math.max(tokenDice, containment, bigramSimilarity(norm1, norm2));
+}
+
+function toMinutes(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})/.exec(time || '');
+  if (!match) return null;
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
+
+/**
+ * Score how likely two listings are the same event.
+ * Different date or city, or a time difference above the tolerance, gives 0.
+ */
+export function scoreEventMatch(
+  a: MatchCandidate,
+  b: MatchCandidate,
+  timeToleranceMinutes: number = DEFAULT_TIME_TOLERANCE_MINUTES
+): MatchScore {
+  const minutesA = toMinutes(a.time);
+  const minutesB = toMinutes(b.time);
+  // Unknown time on either side: rely on the other signals
+  const timeDiffMinutes = minutesA === null || minutesB === null ? 0 : Math.abs(minutesA - minutesB);
+
+  const title = titleSimilarity(a.title, b.title);
+  const venue = a.venue && b.venue ? titleSimilarity(a.venue, b.venue) : null;
+  const noMatch: MatchScore = { score: 0, title, venue, timeDiffMinutes };
+
+  if (a.date !== b.date) return noMatch;
+  if (canonicalCity(a.city) !== canonicalCity(b.city)) return noMatch;
+  if (timeDiffMinutes > timeToleranceMinutes) return noMatch;
+
+  const time = 1 - timeDiffMinutes / (timeToleranceMinutes + 1);
+
+  // Without both venues the title and time carry the whole score
+  const score = venue === null
+    ? (title * WEIGHTS.title + time * WEIGHTS.time) / (WEIGHTS.title + WEIGHTS.time)
+    : title * WEIGHTS.title + venue * WEIGHTS.venue + time * WEIGHTS.time;
+
+  return { score, title, venue, timeDiffMinutes };
+}
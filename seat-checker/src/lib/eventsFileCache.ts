@@ -1,26 +1,60 @@
-import fs from 'fs';
-import path from 'path';
-import type { JoinedEvent } from './types';
+import { DEFAULT_ORGANIZER_ID, type JoinedEvent, type RawEvent } from './types';
+import { loadOrganizers } from './organizers';
+import { getStorage } from './storage';
 
-const EVENTS_CACHE_FILE = path.join(process.cwd(), 'data', 'events_cache.json');
+// Event lists are kept per organizer. Before organizers existed they lived in
+// state/events_cache and state/raw_events - those belong to the default organizer.
 
-export function saveEventsToFile(events: JoinedEvent[]): void {
+function loadOrganizerEvents(organizerId: string): JoinedEvent[] {
+  const storage = getStorage();
+  const events = storage.getDocument<JoinedEvent[]>('organizer_events', organizerId)
+    ?? (organizerId === DEFAULT_ORGANIZER_ID ? storage.getDocument<JoinedEvent[]>('state', 'events_cache') : null)
+    ?? [];
+  return events.map(e => e.organizerId ? e : { ...e, organizerId });
+}
+
+export function saveEventsToFile(organizerId: string, events: JoinedEvent[]): void {
   try {
-    const dir = path.dirname(EVENTS_CACHE_FILE);
-    if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
-    fs.writeFileSync(EVENTS_CACHE_FILE, JSON.stringify(events, null, 2));
+    getStorage().putDocument('organizer_events', organizerId, events);
   } catch (e) {
     console.error('Failed to save events to file:', e);
   }
 }
 
+// Events of one organizer, or of all configured organizers when no ID is given
+export function loadEventsFromFile(organizerId?: string): JoinedEvent[] {
+  try {
+    if (organizerId) return loadOrganizerEvents(organizerId);
+    return loadOrganizers().flatMap(organizer => loadOrganizerEvents(organizer.id));
+  } catch (e) {
+    console.error('Failed to load events from file:', e);
+    return [];
+  }
+}
+
 export function loadEventFromFile(id: string): JoinedEvent | null {
+  return loadEventsFromFile().find(e => e.globalEventId === id) ?? null;
+}
+
+// Raw per-source listings of the last scrape - lets the join be recomputed
+// (e.g. after a manual link/unlink) without scraping again
+export function saveRawEventsToFile(organizerId: string, events: RawEvent[]): void {
+  try {
+    getStorage().putDocument('organizer_raw_events', organizerId, events);
+  } catch (e) {
+    console.error('Failed to save raw events to file:', e);
+  }
+}
+
+export function loadRawEventsFromFile(organizerId: string): RawEvent[] {
   try {
-    if (!fs.existsSync(EVENTS_CACHE_FILE)) return null;
-    const events: JoinedEvent[] = JSON.parse(fs.readFileSync(EVENTS_CACHE_FILE, 'utf-8'));
-    return events.find(e => e.globalEventId === id) ?? null;
+    const storage = getStorage();
+    const events = storage.getDocument<RawEvent[]>('organizer_raw_events', organizerId)
+      ?? (organizerId === DEFAULT_ORGANIZER_ID ? storage.getDocument<RawEvent[]>('state', 'raw_events') : null)
+      ?? [];
+    return events.map(e => e.organizerId ? e : { ...e, organizerId });
   } catch (e) {
-    console.error('Failed to load event from file:', e);
-    return null;
+    console.error('Failed to load raw events from file:', e);
+    return [];
   }
 }
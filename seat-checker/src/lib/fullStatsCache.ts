@@ -1,32 +1,24 @@
-import fs from 'fs';
-import path from 'path';
-import type { CombinedEventStats } from './types';
-
-const CACHE_DIR = path.join(process.cwd(), 'data', 'full_stats_cache');
-
-function getCacheFilePath(eventId: string): string {
-    // Sanitize ID to be safe for filenames
-    const safeId = eventId.replace(/[^a-zA-Z0-9-_]/g, '_');
-    return path.join(CACHE_DIR, `${safeId}.json`);
-}
-
-function ensureCacheDir(): void {
-    try {
-        if (!fs.existsSync(CACHE_DIR)) {
-            fs.mkdirSync(CACHE_DIR, { recursive: true });
+import type { CombinedEventStats, SourceType } from './types';
+import { SOURCE_IDS } from './sources/meta';
+import { getStorage } from './storage';
+
+// Caches written before the source registry kept "biletynaSold"-style fields in diff
+function upgradeDiff(stats: CombinedEventStats): CombinedEventStats {
+    const diff = stats.diff as any;
+    if (diff && !diff.sold) {
+        const sold: Partial<Record<SourceType, number>> = {};
+        for (const source of SOURCE_IDS) {
+            if (typeof diff[`${source}Sold`] === 'number') sold[source] = diff[`${source}Sold`];
         }
-    } catch (error) {
-        console.error('Error ensuring cache directory exists:', error);
+        stats.diff = { sold, lastUpdated: diff.lastUpdated };
     }
+    return stats;
 }
 
 export function loadFullStats(eventId: string): CombinedEventStats | null {
     try {
-        const filePath = getCacheFilePath(eventId);
-        if (fs.existsSync(filePath)) {
-            const data = fs.readFileSync(filePath, 'utf-8');
-            return JSON.parse(data);
-        }
+        const stats = getStorage().getDocument<CombinedEventStats>('full_stats', eventId);
+        if (stats) return upgradeDiff(stats);
     } catch (error) {
         console.warn(`Failed to load cached stats for ${eventId}:`, error);
     }
@@ -35,16 +27,13 @@ export function loadFullStats(eventId: string): CombinedEventStats | null {
 
 export function saveFullStats(eventId: string, stats: CombinedEventStats): void {
     try {
-        ensureCacheDir();
-        const filePath = getCacheFilePath(eventId);
-
         // Add/Update lastFetched timestamp
         const statsToSave = {
             ...stats,
             lastFetched: new Date().toISOString()
         };
 
-        fs.writeFileSync(filePath, JSON.stringify(statsToSave, null, 2));
+        getStorage().putDocument('full_stats', eventId, statsToSave);
     } catch (error) {
         console.error(`Failed to save cached stats for ${eventId}:`, error);
     }
@@ -52,10 +41,7 @@ export function saveFullStats(eventId: string, stats: CombinedEventStats): void
 
 export function clearFullStats(eventId: string): void {
     try {
-        const filePath = getCacheFilePath(eventId);
-        if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-        }
+        getStorage().deleteDocument('full_stats', eventId);
     } catch (error) {
         console.warn(`Failed to delete full stats cache for ${eventId}:`, error);
     }
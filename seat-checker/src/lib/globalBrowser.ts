@@ -1,12 +1,130 @@
-import { chromium, Browser } from 'playwright';
+import fs from 'fs';
+import { chromium, type Browser, type BrowserContext } from 'playwright';
+import type { SourceType } from './types';
+import { getStorage } from './storage';
+import { blockUnneededResources, createScrapeContext, getUserAgent } from './scrapeRecorder';
+import { watchBlockedResponses } from './politeness';
 
-// Prevent multiple instances in development during hot-reload
-const globalForBrowser = global as unknown as { _browserInstance: Browser | undefined };
+// Pool of headless Chromium browsers shared by every scrape.
+//   - up to BROWSER_POOL_SIZE browsers; another one is launched only when all of them are busy
+//   - a live scrape borrows a context of its platform; the context is kept for the next scrape
+//     of that platform and its cookies and local storage (cookie consent) are saved in
+//     "browser_state", so a new browser starts where the previous one left off
+//   - a browser past its max age, over the memory limit or unused for a while takes no new
+//     scrapes and is closed once the running ones end
+//   - a scrape interrupted by a browser crash is retried once on a fresh browser
+//   - SIGTERM/SIGINT lets running scrapes finish (up to 15 s) and closes every browser
+// Recorded and replayed sessions (SCRAPE_MODE) get a one-off context per session instead -
+// the archive belongs to the session, not to a platform.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   BROWSER_POOL_SIZE=2            - maksymalna liczba przeglądarek
+//   BROWSER_MAX_AGE_MINUTES=60     - po tym czasie przeglądarka jest wymieniana na nową
+//   BROWSER_MEMORY_LIMIT_MB=1024   - pamięć (RSS) wszystkich procesów jednej przeglądarki, tylko Linux
+//   BROWSER_IDLE_MINUTES=10        - nieużywana przeglądarka jest zamykana
+//   BROWSER_USER_AGENT=...         - własny user agent (domyślnie Chrome w wersji uruchomionego Chromium)
+
+const DEFAULT_POOL_SIZE = 2;
+const DEFAULT_MAX_AGE_MINUTES = 60;
+const DEFAULT_MEMORY_LIMIT_MB = 1024;
+const DEFAULT_IDLE_MINUTES = 10;
+const WATCHDOG_INTERVAL_MS = 30 * 1000;
+const SHUTDOWN_TIMEOUT_MS = 15 * 1000;
+const CRASH_RETRIES = 1;
+// Linux page size on the supported platforms (/proc/<pid>/statm counts pages)
+const PAGE_SIZE = 4096;
+
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+interface PooledBrowser {
+    id: number;
+    ready: Promise<Browser>;
+    browser: Browser | null;        // null while launching
+    launchedAt: number;
+    lastUsedAt: number;
+    leases: number;
+    // Reason why the browser takes no new scrapes (closed when the last one ends)
+    retiring: string | null;
+    closing: boolean;
+    crashed: boolean;
+    idleContexts: Map<SourceType, BrowserContext[]>;
+}
+
+interface ContextLease {
+    pooled: PooledBrowser;
+    source: SourceType;
+    context: BrowserContext;
+    // Do not keep the context (closed on cancel)
+    discard: boolean;
+}
+
+interface PoolState {
+    browsers: PooledBrowser[];
+    nextId: number;
+    watchdog: NodeJS.Timeout | null;
+    checking: boolean;
+    shutdown: Promise<void> | null;
+    // Resolved when the last browser is gone (shutdown)
+    emptyWaiters: Array<() => void>;
+    closing: Set<Promise<void>>;
+}
+
+// Survive hot-reload in development and share the browsers between route bundles
+const globalForBrowser = global as unknown as {
+    _browserPool: PoolState | undefined;
+    _browserSignals: boolean | undefined;
+};
+
+function getNumberEnv(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Cookies and local storage the platform left in its last context (also sent by lib/httpClient)
+export function loadBrowserState(source: SourceType): StorageState | null {
+    try {
+        return getStorage().getDocument<StorageState>('browser_state', source);
+    } catch (error) {
+        console.error(`BrowserPool: Error loading browser state of ${source}:`, error);
+        return null;
+    }
+}
+
+// Resident memory of all processes of a browser; null where it cannot be measured
+async function measureBrowserMemory(browser: Browser): Promise<number | null> {
+    if (process.platform !== 'linux') return null;
+    try {
+        const session = await browser.newBrowserCDPSession();
+        try {
+            const { processInfo } = await session.send('SystemInfo.getProcessInfo');
+            let total = 0;
+            for (const { id } of processInfo) {
+                try {
+                    total += Number(fs.readFileSync(`/proc/${id}/statm`, 'utf-8').split(' ')[1]) * PAGE_SIZE;
+                } catch {
+                    // Process ended in the meantime
+                }
+            }
+            return total;
+        } finally {
+            await session.detach().catch(() => { });
+        }
+    } catch (error) {
+        console.warn('BrowserPool: Could not measure browser memory:', error);
+        return null;
+    }
+}
+
+// No browser to scrape with (launch failed or the pool is shut down) - fails the whole refresh
+export class BrowserUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BrowserUnavailableError';
+    }
+}
 
 export class GlobalBrowserService {
     private static instance: GlobalBrowserService;
-    private browser: Browser | null = null;
-    private isLaunching: boolean = false;
 
     private constructor() { }
 
@@ -17,64 +135,322 @@ export class GlobalBrowserService {
         return GlobalBrowserService.instance;
     }
 
-    public async getBrowser(): Promise<Browser> {
-        // 1. Return existing valid browser
-        if (globalForBrowser._browserInstance && this.isConnected(globalForBrowser._browserInstance)) {
-            return globalForBrowser._browserInstance;
+    private get state(): PoolState {
+        if (!globalForBrowser._browserPool) {
+            globalForBrowser._browserPool = { browsers: [], nextId: 1, watchdog: null, checking: false, shutdown: null, emptyWaiters: [], closing: new Set() };
         }
+        return globalForBrowser._browserPool;
+    }
+
+    /**
+     * Runs fn with a context of the platform, reused between scrapes. A browser crash during fn
+     * reruns it on a new browser; aborting closes the context, so pending page loads fail at once.
+     */
+    public async withSourceContext<T>(
+        source: SourceType,
+        fn: (context: BrowserContext) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        for (let attempt = 0; ; attempt++) {
+            if (signal?.aborted) throw new Error('Refresh cancelled');
+            const lease = await this.acquire(source);
+            const closeOnAbort = () => {
+                lease.discard = true;
+                lease.context.close().catch(e => console.error('Error closing cancelled scrape context:', e));
+            };
+            signal?.addEventListener('abort', closeOnAbort);
 
-        // 2. If launching is already in progress, wait for it (simple mutex)
-        if (this.isLaunching) {
-            // Wait up to 10s for the other launch to finish
-            const start = Date.now();
-            while (this.isLaunching && Date.now() - start < 10000) {
-                await new Promise(r => setTimeout(r, 100));
+            let result: T | undefined;
+            let failure: { error: unknown } | null = null;
+            try {
+                result = await fn(lease.context);
+            } catch (error) {
+                failure = { error };
+            } finally {
+                signal?.removeEventListener('abort', closeOnAbort);
+                await this.release(lease);
             }
-            // If successful, return it
-            if (globalForBrowser._browserInstance && this.isConnected(globalForBrowser._browserInstance)) {
-                return globalForBrowser._browserInstance;
+
+            // Scrapers catch most errors themselves, so the crash is read from the browser
+            if (lease.pooled.crashed && !signal?.aborted && attempt < CRASH_RETRIES) {
+                console.warn(`BrowserPool: Chromium #${lease.pooled.id} crashed during a ${source} scrape, retrying on a new browser`);
+                continue;
             }
+            if (failure) throw failure.error;
+            return result as T;
         }
+    }
 
-        // 3. Launch new browser
-        this.isLaunching = true;
+    /**
+     * Runs fn with a one-off context of a recorded or replayed session (see scrapeRecorder).
+     * The context is closed afterwards, which writes the archive in record mode.
+     */
+    public async withSessionContext<T>(
+        session: string,
+        fn: (context: BrowserContext) => Promise<T>,
+        signal?: AbortSignal
+    ): Promise<T> {
+        if (signal?.aborted) throw new Error('Refresh cancelled');
+        const pooled = this.pickBrowser(null);
+        pooled.leases++;
+        let context: BrowserContext | null = null;
+        const closeOnAbort = () => {
+            context?.close().catch(e => console.error('Error closing cancelled scrape context:', e));
+        };
         try {
-            console.log('GlobalBrowser: Launching new Chromium instance...');
-            const browser = await chromium.launch({
-                headless: true, // Always headless in production/background
-                args: ['--no-sandbox', '--disable-setuid-sandbox'] // Safety args
-            });
-
-            // Save to global scope
-            globalForBrowser._browserInstance = browser;
-
-            // Handle disconnects
-            browser.on('disconnected', () => {
-                console.log('GlobalBrowser: Browser disconnected!');
-                globalForBrowser._browserInstance = undefined;
-            });
-
-            console.log('GlobalBrowser: Launched successfully.');
-            return browser;
+            context = await createScrapeContext(await pooled.ready, session);
+            watchBlockedResponses(context);
+            if (signal?.aborted) throw new Error('Refresh cancelled');
+            signal?.addEventListener('abort', closeOnAbort);
+            return await fn(context);
         } finally {
-            this.isLaunching = false;
+            signal?.removeEventListener('abort', closeOnAbort);
+            if (context) await context.close().catch(e => console.error('Error closing scrape context:', e));
+            this.finishLease(pooled);
+        }
+    }
+
+    /**
+     * Stops taking scrapes, waits for the running ones (up to the timeout) and closes
+     * every browser. The pool stays closed afterwards.
+     */
+    public shutdown(timeoutMs = SHUTDOWN_TIMEOUT_MS): Promise<void> {
+        if (!this.state.shutdown) this.state.shutdown = this.closeAll(timeoutMs);
+        return this.state.shutdown;
+    }
+
+    private async closeAll(timeoutMs: number): Promise<void> {
+        const state = this.state;
+        if (state.browsers.length === 0) return;
+
+        const running = state.browsers.reduce((sum, pooled) => sum + pooled.leases, 0);
+        console.log(`BrowserPool: Shutting down ${state.browsers.length} browser(s), ${running} scrape(s) running...`);
+        const empty = new Promise<void>(resolve => state.emptyWaiters.push(resolve));
+        for (const pooled of [...state.browsers]) this.retire(pooled, 'shutdown');
+
+        let timer: NodeJS.Timeout | undefined;
+        const timeout = new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); });
+        await Promise.race([empty, timeout]);
+        clearTimeout(timer);
+
+        // Scrapes still running after the timeout are cut off
+        state.browsers.forEach(pooled => this.closeBrowser(pooled));
+        await Promise.all(state.closing);
+        console.log('BrowserPool: All browsers closed.');
+    }
+
+    private async acquire(source: SourceType): Promise<ContextLease> {
+        const pooled = this.pickBrowser(source);
+        pooled.leases++;
+        pooled.lastUsedAt = Date.now();
+        try {
+            const browser = await pooled.ready;
+            const context = pooled.idleContexts.get(source)?.pop() ?? await this.createSourceContext(browser, source);
+            return { pooled, source, context, discard: false };
+        } catch (error) {
+            this.finishLease(pooled);
+            throw error;
+        }
+    }
+
+    private async createSourceContext(browser: Browser, source: SourceType): Promise<BrowserContext> {
+        const context = await browser.newContext({
+            userAgent: getUserAgent(browser),
+            storageState: loadBrowserState(source) ?? undefined,
+        });
+        await blockUnneededResources(context);
+        watchBlockedResponses(context);
+        return context;
+    }
+
+    // Save what the platform stored (cookie consent, session) and keep the context for the next scrape
+    private async release(lease: ContextLease): Promise<void> {
+        const { pooled, source, context } = lease;
+        let kept = false;
+        try {
+            if (!lease.discard && !pooled.crashed && pooled.browser?.isConnected()) {
+                // Scrapers close their pages, this catches the ones left after an error
+                await Promise.all(context.pages().map(page => page.close()));
+                getStorage().putDocument('browser_state', source, await context.storageState());
+                if (!pooled.retiring) {
+                    const idle = pooled.idleContexts.get(source) || [];
+                    idle.push(context);
+                    pooled.idleContexts.set(source, idle);
+                    kept = true;
+                }
+            }
+        } catch (error) {
+            console.error(`BrowserPool: Error saving browser state of ${source}:`, error);
+        }
+        if (!kept) await context.close().catch(() => { });
+        this.finishLease(pooled);
+    }
+
+    private finishLease(pooled: PooledBrowser): void {
+        pooled.leases--;
+        pooled.lastUsedAt = Date.now();
+        if (pooled.retiring && pooled.leases === 0) this.closeBrowser(pooled);
+    }
+
+    // A browser with a kept context of the platform first, then an unused one, then a new one
+    private pickBrowser(source: SourceType | null): PooledBrowser {
+        if (this.state.shutdown) throw new BrowserUnavailableError('Browser pool is shut down');
+        const usable = this.state.browsers.filter(pooled => !pooled.retiring && !pooled.crashed);
+        const warm = source && usable.find(pooled => (pooled.idleContexts.get(source)?.length ?? 0) > 0);
+        if (warm) return warm;
+
+        const leastBusy = usable.sort((a, b) => a.leases - b.leases)[0];
+        const poolSize = getNumberEnv('BROWSER_POOL_SIZE', DEFAULT_POOL_SIZE);
+        if (leastBusy && (leastBusy.leases === 0 || usable.length >= poolSize)) return leastBusy;
+        return this.launch();
+    }
+
+    private launch(): PooledBrowser {
+        const id = this.state.nextId++;
+        console.log(`BrowserPool: Launching Chromium #${id}...`);
+        const launched = chromium.launch({
+            headless: true, // Always headless in production/background
+            args: ['--no-sandbox', '--disable-setuid-sandbox'] // Safety args
+        });
+
+        const pooled: PooledBrowser = {
+            id,
+            ready: launched,
+            browser: null,
+            launchedAt: Date.now(),
+            lastUsedAt: Date.now(),
+            leases: 0,
+            retiring: null,
+            closing: false,
+            crashed: false,
+            idleContexts: new Map(),
+        };
+        pooled.ready = launched.then(
+            browser => {
+                pooled.browser = browser;
+                pooled.launchedAt = Date.now();
+                browser.on('disconnected', () => {
+                    if (!pooled.closing) {
+                        pooled.crashed = true;
+                        console.error(`BrowserPool: Chromium #${id} disconnected unexpectedly (${pooled.leases} scrape(s) running)`);
+                    }
+                    this.remove(pooled);
+                });
+                console.log(`BrowserPool: Chromium #${id} (${browser.version()}) launched.`);
+                return browser;
+            },
+            error => {
+                console.error(`BrowserPool: Failed to launch Chromium #${id}:`, error);
+                this.remove(pooled);
+                throw new BrowserUnavailableError(`Chromium could not be launched: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        );
+
+        this.state.browsers.push(pooled);
+        this.startWatchdog();
+        return pooled;
+    }
+
+    private retire(pooled: PooledBrowser, reason: string): void {
+        if (pooled.retiring) return;
+        pooled.retiring = reason;
+        console.log(`BrowserPool: Retiring Chromium #${pooled.id} (${reason})`);
+        if (pooled.leases === 0) this.closeBrowser(pooled);
+    }
+
+    private closeBrowser(pooled: PooledBrowser): void {
+        if (pooled.closing) return;
+        pooled.closing = true;
+        this.remove(pooled);
+
+        const closed = (async () => {
+            try {
+                // Kept contexts saved their state when they were released
+                const browser = pooled.browser ?? await pooled.ready.catch(() => null);
+                await browser?.close();
+            } catch (error) {
+                console.error(`BrowserPool: Error closing Chromium #${pooled.id}:`, error);
+            }
+        })();
+        this.state.closing.add(closed);
+        void closed.finally(() => this.state.closing.delete(closed));
+    }
+
+    private remove(pooled: PooledBrowser): void {
+        const state = this.state;
+        state.browsers = state.browsers.filter(other => other !== pooled);
+        pooled.idleContexts.clear();
+        if (state.browsers.length > 0) return;
+        if (state.watchdog) {
+            clearInterval(state.watchdog);
+            state.watchdog = null;
         }
+        state.emptyWaiters.splice(0).forEach(resolve => resolve());
     }
 
-    private isConnected(browser: Browser): boolean {
-        return browser.isConnected();
+    private startWatchdog(): void {
+        const state = this.state;
+        if (state.watchdog) return;
+        state.watchdog = setInterval(() => {
+            if (state.checking) return;
+            state.checking = true;
+            this.checkBrowsers()
+                .catch(error => console.error('BrowserPool: Watchdog error:', error))
+                .finally(() => { state.checking = false; });
+        }, WATCHDOG_INTERVAL_MS);
+        // Must not keep scripts alive
+        state.watchdog.unref();
     }
 
-    // Optional: Manually close if needed (e.g. server shutdown)
-    public async close() {
-        if (globalForBrowser._browserInstance) {
-            await globalForBrowser._browserInstance.close();
-            globalForBrowser._browserInstance = undefined;
+    private async checkBrowsers(): Promise<void> {
+        const maxAge = getNumberEnv('BROWSER_MAX_AGE_MINUTES', DEFAULT_MAX_AGE_MINUTES) * 60 * 1000;
+        const idleTime = getNumberEnv('BROWSER_IDLE_MINUTES', DEFAULT_IDLE_MINUTES) * 60 * 1000;
+        const memoryLimit = getNumberEnv('BROWSER_MEMORY_LIMIT_MB', DEFAULT_MEMORY_LIMIT_MB) * 1024 * 1024;
+
+        for (const pooled of [...this.state.browsers]) {
+            const browser = pooled.browser;
+            if (!browser || pooled.retiring) continue;
+            const now = Date.now();
+
+            if (pooled.leases === 0 && now - pooled.lastUsedAt > idleTime) {
+                this.retire(pooled, 'idle');
+            } else if (now - pooled.launchedAt > maxAge) {
+                this.retire(pooled, 'max age reached');
+            } else {
+                const memory = await measureBrowserMemory(browser);
+                if (memory !== null && memory > memoryLimit) {
+                    this.retire(pooled, `memory ${Math.round(memory / 1024 / 1024)} MB over the limit`);
+                }
+            }
         }
     }
 }
 
-// Export a simple helper for consumers
-export const getGlobalBrowser = async () => {
-    return GlobalBrowserService.getInstance().getBrowser();
-};
+/**
+ * Close the browsers gracefully on SIGTERM/SIGINT. Next.js exits on its own signal handler
+ * (unless NEXT_MANUAL_SIG_HANDLE is set), otherwise the process exits once the pool is closed.
+ */
+export function installShutdownHandlers(): void {
+    if (globalForBrowser._browserSignals) return;
+    globalForBrowser._browserSignals = true;
+
+    for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+        process.once(signal, () => {
+            console.log(`BrowserPool: ${signal} received`);
+            GlobalBrowserService.getInstance().shutdown()
+                .catch(error => console.error('BrowserPool: Error during shutdown:', error))
+                .finally(() => {
+                    if (process.listenerCount(signal) === 0) process.exit(0);
+                });
+        });
+    }
+}
+
+// Export simple helpers for consumers
+export const withSourceContext = <T>(source: SourceType, fn: (context: BrowserContext) => Promise<T>, signal?: AbortSignal) =>
+    GlobalBrowserService.getInstance().withSourceContext(source, fn, signal);
+
+export const withSessionContext = <T>(session: string, fn: (context: BrowserContext) => Promise<T>, signal?: AbortSignal) =>
+    GlobalBrowserService.getInstance().withSessionContext(session, fn, signal);
+
+export const shutdownBrowsers = () => GlobalBrowserService.getInstance().shutdown();
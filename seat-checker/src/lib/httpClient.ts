@@ -0,0 +1,90 @@
+import type { SourceType } from './types';
+import type { DataEndpoint, HttpClient, HttpRequestInit } from './sources';
+import { loadBrowserState } from './globalBrowser';
+import { getUserAgent } from './scrapeRecorder';
+import { parseRetryAfter, reportBlocked } from './politeness';
+
+// Plain HTTP requests of the seat fast path (SourceAdapter.fetchSeats). Requests look like the
+// pooled browser of the platform: same user agent and the cookies its context saved
+// (cookie consent, session), so the platform sees the same visitor either way.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   SCRAPE_FAST_PATH=off    - zawsze przeglądarka, bez bezpośrednich zapytań HTTP
+
+const REQUEST_TIMEOUT_MS = 15 * 1000;
+
+export class HttpError extends Error {
+    constructor(readonly status: number, url: string) {
+        super(`HTTP ${status} from ${url}`);
+        this.name = 'HttpError';
+    }
+}
+
+export function isFastPathEnabled(): boolean {
+    return process.env.SCRAPE_FAST_PATH !== 'off';
+}
+
+type Cookie = NonNullable<ReturnType<typeof loadBrowserState>>['cookies'][number];
+
+function cookieHeader(cookies: Cookie[], url: string): string {
+    const { hostname, pathname, protocol } = new URL(url);
+    const now = Date.now() / 1000;
+    return cookies
+        .filter(cookie => {
+            const domain = cookie.domain.replace(/^\./, '');
+            if (hostname !== domain && !hostname.endsWith(`.${domain}`)) return false;
+            if (!pathname.startsWith(cookie.path || '/')) return false;
+            if (cookie.secure && protocol !== 'https:') return false;
+            // -1 = session cookie, kept like the browser context keeps it
+            return cookie.expires === -1 || cookie.expires > now;
+        })
+        .map(cookie => `${cookie.name}=${cookie.value}`)
+        .join('; ');
+}
+
+export function createHttpClient(source: SourceType, signal?: AbortSignal): HttpClient {
+    const userAgent = getUserAgent();
+    const cookies = loadBrowserState(source)?.cookies || [];
+
+    const send = async (url: string, init: HttpRequestInit = {}): Promise<{ url: string; body: string }> => {
+        const headers: Record<string, string> = {
+            'User-Agent': userAgent,
+            'Accept-Language': 'pl-PL,pl;q=0.9,en-US;q=0.8,en;q=0.7',
+        };
+        const cookie = cookieHeader(cookies, url);
+        if (cookie) headers.Cookie = cookie;
+        if (init.contentType) headers['Content-Type'] = init.contentType;
+        if (init.referer) headers.Referer = init.referer;
+
+        const timeout = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+        const response = await fetch(url, {
+            method: init.method || 'GET',
+            body: init.body,
+            headers,
+            signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        });
+        if (!response.ok) {
+            // A 403 here is mostly bot protection turning away a client without a browser - the
+            // browser may still pass, so only 429 holds the platform back
+            if (response.status === 429) {
+                reportBlocked(source, response.status, parseRetryAfter(response.headers.get('retry-after')));
+            }
+            throw new HttpError(response.status, url);
+        }
+        return { url: response.url, body: await response.text() };
+    };
+
+    return {
+        text: send,
+        json: async <T>(url: string, init?: HttpRequestInit) => JSON.parse((await send(url, init)).body) as T,
+        request: async (endpoint: DataEndpoint) => (await send(endpoint.url, endpoint)).body,
+        pause: (ms: number) => new Promise<void>((resolve, reject) => {
+            if (signal?.aborted) return reject(new Error('Refresh cancelled'));
+            const timer = setTimeout(resolve, ms);
+            signal?.addEventListener('abort', () => {
+                clearTimeout(timer);
+                reject(new Error('Refresh cancelled'));
+            }, { once: true });
+        }),
+    };
+}
@@ -0,0 +1,14 @@
+// Stats refresh jobs: persistent queue with progress, deduplication and cancellation.
+export {
+    JobCancelledError,
+    enqueueStatsRefresh,
+    runStatsRefresh,
+    waitForJob,
+    cancelJob,
+    loadJob,
+    listJobs,
+    isFinished,
+    toJobSummary,
+    pumpQueue,
+} from './queue';
+export type { JobStatus, JobTrigger, SourceProgress, StatsRefreshJob, JobSummary } from './types';
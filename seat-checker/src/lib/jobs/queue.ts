@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import type { CombinedEventStats, JoinedEvent } from '../types';
+import { loadFullStats } from '../fullStatsCache';
+import { scrapeEventStats } from '../scrapers/eventScraper';
+import { getStorage } from '../storage';
+import { publishLiveUpdate } from '../liveUpdates';
+import type { JobStatus, JobSummary, JobTrigger, SourceProgress, StatsRefreshJob } from './types';
+
+// Persistent queue of stats refreshes. Jobs are documents in "jobs", so the list (and the
+// progress of a running job) is visible to every request; what only this process knows -
+// abort controllers and callers waiting for a result - is kept in memory next to it.
+// Every change of a job is also pushed to the UI (liveUpdates).
+// A repeat request for an event that already has a queued or running job gets that job.
+// Jobs left "running" by a restart are queued again.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   JOBS_CONCURRENCY=3        - ile odświeżeń naraz (każde otwiera kontekst przeglądarki);
+//                               tempo zapytań do każdej platformy ogranicza lib/politeness
+//   JOBS_RETENTION_HOURS=24   - jak długo trzymamy zakończone zadania
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_RETENTION_HOURS = 24;
+// Finished jobs kept at most, whatever their age
+const MAX_FINISHED_JOBS = 200;
+
+const FINISHED_STATUSES: JobStatus[] = ['done', 'failed', 'cancelled'];
+
+export class JobCancelledError extends Error {
+    constructor(readonly jobId: string) {
+        super('Refresh cancelled');
+        this.name = 'JobCancelledError';
+    }
+}
+
+interface Waiter {
+    resolve(stats: CombinedEventStats): void;
+    reject(error: Error): void;
+}
+
+interface QueueRuntime {
+    running: Map<string, AbortController>;
+    waiters: Map<string, Waiter[]>;
+    recovered: boolean;
+}
+
+// Survive hot-reload in development - one queue per process
+const globalForJobs = global as unknown as { _jobQueue: QueueRuntime | undefined };
+
+function getRuntime(): QueueRuntime {
+    if (!globalForJobs._jobQueue) {
+        globalForJobs._jobQueue = { running: new Map(), waiters: new Map(), recovered: false };
+    }
+    return globalForJobs._jobQueue;
+}
+
+function envNumber(name: string, fallback: number): number {
+    const value = parseFloat(process.env[name] || '');
+    return isNaN(value) || value < 0 ? fallback : value;
+}
+
+export function isFinished(job: Pick<StatsRefreshJob, 'status'>): boolean {
+    return FINISHED_STATUSES.includes(job.status);
+}
+
+export function toJobSummary(job: StatsRefreshJob): JobSummary {
+    const { event: _event, ...summary } = job;
+    return summary;
+}
+
+export function loadJob(id: string): StatsRefreshJob | null {
+    try {
+        return getStorage().getDocument<StatsRefreshJob>('jobs', id);
+    } catch (error) {
+        console.error('Error loading job:', error);
+        return null;
+    }
+}
+
+/**
+ * Jobs newest first, optionally only some statuses and/or one event.
+ */
+export function listJobs(filter: { statuses?: JobStatus[]; eventId?: string; limit?: number } = {}): StatsRefreshJob[] {
+    let jobs: StatsRefreshJob[];
+    try {
+        jobs = Object.values(getStorage().listDocuments<StatsRefreshJob>('jobs'));
+    } catch (error) {
+        console.error('Error loading jobs:', error);
+        return [];
+    }
+    jobs = jobs
+        .filter(job => !filter.statuses || filter.statuses.includes(job.status))
+        .filter(job => !filter.eventId || job.eventId === filter.eventId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    return filter.limit !== undefined ? jobs.slice(0, filter.limit) : jobs;
+}
+
+function publishJob(job: StatsRefreshJob): void {
+    publishLiveUpdate({ type: 'job', eventId: job.eventId, job: toJobSummary(job) });
+}
+
+// Read-modify-write of an existing job; storage errors must not break the refresh itself
+function updateJob(id: string, update: (job: StatsRefreshJob) => StatsRefreshJob): StatsRefreshJob | null {
+    try {
+        const job = getStorage().updateDocument<StatsRefreshJob>('jobs', id, current => current ? update(current) : null);
+        if (job) publishJob(job);
+        return job;
+    } catch (error) {
+        console.error(`Error saving job ${id}:`, error);
+        return null;
+    }
+}
+
+function pruneFinishedJobs(): void {
+    const cutoff = new Date(Date.now() - envNumber('JOBS_RETENTION_HOURS', DEFAULT_RETENTION_HOURS) * 60 * 60 * 1000).toISOString();
+    const finished = listJobs({ statuses: FINISHED_STATUSES });
+    finished.forEach((job, index) => {
+        if (index >= MAX_FINISHED_JOBS || (job.finishedAt || job.createdAt) < cutoff) {
+            getStorage().deleteDocument('jobs', job.id);
+        }
+    });
+}
+
+// Jobs "running" in storage but not in this process were cut off by a restart
+function recoverInterruptedJobs(): void {
+    const runtime = getRuntime();
+    if (runtime.recovered) return;
+    runtime.recovered = true;
+
+    for (const job of listJobs({ statuses: ['running'] })) {
+        if (runtime.running.has(job.id)) continue;
+        console.log(`Jobs: re-queueing ${job.id} (${job.eventId}) interrupted by a restart`);
+        updateJob(job.id, current => ({ ...current, status: 'queued', startedAt: undefined, progress: {} }));
+    }
+}
+
+/**
+ * Queue a stats refresh of an event. When the event already has a queued or running job,
+ * that job is returned instead (deduplicated).
+ */
+export function enqueueStatsRefresh(
+    event: JoinedEvent,
+    options: { trigger: JobTrigger; requestedBy?: string }
+): { job: StatsRefreshJob; deduplicated: boolean } {
+    recoverInterruptedJobs();
+
+    const existing = listJobs({ statuses: ['queued', 'running'], eventId: event.globalEventId })
+        .find(job => !job.cancelRequested);
+    if (existing) return { job: existing, deduplicated: true };
+
+    try {
+        pruneFinishedJobs();
+    } catch (error) {
+        console.error('Error pruning jobs:', error);
+    }
+
+    const job: StatsRefreshJob = {
+        id: crypto.randomUUID(),
+        type: 'stats_refresh',
+        eventId: event.globalEventId,
+        organizerId: event.organizerId,
+        title: event.title,
+        event,
+        trigger: options.trigger,
+        requestedBy: options.requestedBy,
+        status: 'queued',
+        progress: {},
+        createdAt: new Date().toISOString(),
+    };
+    getStorage().putDocument('jobs', job.id, job);
+    publishJob(job);
+    console.log(`Jobs: queued ${job.id} (${job.eventId}, ${job.trigger})`);
+
+    pumpQueue();
+    return { job, deduplicated: false };
+}
+
+/**
+ * Resolves with the stats once the job is done; rejects when it failed or was cancelled.
+ */
+export function waitForJob(id: string): Promise<CombinedEventStats> {
+    const job = loadJob(id);
+    if (!job) return Promise.reject(new Error(`Unknown job: ${id}`));
+
+    if (isFinished(job)) {
+        if (job.status === 'cancelled') return Promise.reject(new JobCancelledError(id));
+        if (job.status === 'failed') return Promise.reject(new Error(job.error || 'Refresh failed'));
+        const stats = loadFullStats(job.eventId);
+        return stats ? Promise.resolve(stats) : Promise.reject(new Error('Stats of the finished job are gone'));
+    }
+
+    return new Promise((resolve, reject) => {
+        const waiters = getRuntime().waiters;
+        waiters.set(id, [...(waiters.get(id) || []), { resolve, reject }]);
+    });
+}
+
+/**
+ * Queue a refresh (or join the event's pending one) and wait for its stats.
+ */
+export function runStatsRefresh(event: JoinedEvent, options: { trigger: JobTrigger; requestedBy?: string }): Promise<CombinedEventStats> {
+    return waitForJob(enqueueStatsRefresh(event, options).job.id);
+}
+
+/**
+ * Cancel a job: a queued one is dropped at once, a running one is aborted (its browser
+ * context is closed). Returns the updated job, or null when there is no such job.
+ */
+export function cancelJob(id: string): StatsRefreshJob | null {
+    const job = loadJob(id);
+    if (!job || isFinished(job)) return job;
+
+    const controller = getRuntime().running.get(id);
+    if (controller) {
+        const updated = updateJob(id, current => ({ ...current, cancelRequested: true }));
+        controller.abort();
+        console.log(`Jobs: cancelling ${id} (${job.eventId})`);
+        return updated;
+    }
+
+    const updated = updateJob(id, current => isFinished(current) ? current : {
+        ...current,
+        status: 'cancelled',
+        cancelRequested: true,
+        finishedAt: new Date().toISOString(),
+    });
+    settleWaiters(id, waiter => waiter.reject(new JobCancelledError(id)));
+    console.log(`Jobs: cancelled ${id} (${job.eventId}) before it started`);
+    return updated;
+}
+
+function settleWaiters(id: string, settle: (waiter: Waiter) => void): void {
+    const waiters = getRuntime().waiters;
+    for (const waiter of waiters.get(id) || []) settle(waiter);
+    waiters.delete(id);
+}
+
+/**
+ * Start queued jobs while there is a free slot.
+ */
+export function pumpQueue(): void {
+    const runtime = getRuntime();
+    recoverInterruptedJobs();
+
+    const concurrency = Math.max(1, Math.floor(envNumber('JOBS_CONCURRENCY', DEFAULT_CONCURRENCY)));
+    // Jobs that could not be started are not tried again in this pass
+    const failedToStart = new Set<string>();
+    while (runtime.running.size < concurrency) {
+        // Oldest first; a job this process already runs may still read "queued"
+        const next = listJobs({ statuses: ['queued'] })
+            .filter(job => !runtime.running.has(job.id) && !failedToStart.has(job.id))
+            .pop();
+        if (!next) return;
+        if (!startJob(next)) failedToStart.add(next.id);
+    }
+}
+
+// False when the job could not be marked running - it is failed instead of run
+function startJob(queued: StatsRefreshJob): boolean {
+    const runtime = getRuntime();
+    const controller = new AbortController();
+    // Claimed before the storage write, so the job cannot be picked up a second time
+    runtime.running.set(queued.id, controller);
+
+    const progress: StatsRefreshJob['progress'] = {};
+    for (const source of Object.keys(queued.event.sources) as Array<keyof StatsRefreshJob['progress']>) {
+        if (queued.event.sources[source]) progress[source] = 'pending';
+    }
+    const job = updateJob(queued.id, current => ({ ...current, status: 'running', startedAt: new Date().toISOString(), progress }));
+    if (!job) {
+        runtime.running.delete(queued.id);
+        const message = 'Could not mark the job as running';
+        console.error(`Jobs: could not mark ${queued.id} (${queued.eventId}) as running, failing it`);
+        updateJob(queued.id, current => ({ ...current, status: 'failed', error: message, finishedAt: new Date().toISOString() }));
+        settleWaiters(queued.id, waiter => waiter.reject(new Error(message)));
+        return false;
+    }
+    console.log(`Jobs: running ${job.id} (${job.eventId})`);
+
+    runJob(job, controller).finally(() => {
+        runtime.running.delete(job.id);
+        pumpQueue();
+    });
+    return true;
+}
+
+async function runJob(job: StatsRefreshJob, controller: AbortController): Promise<void> {
+    const finish = (status: JobStatus, error?: string) => updateJob(job.id, current => ({
+        ...current,
+        status,
+        error,
+        finishedAt: new Date().toISOString(),
+    }));
+
+    try {
+        const stats = await scrapeEventStats(job.event, {
+            signal: controller.signal,
+            onSourceProgress: (source, progress: SourceProgress) => {
+                updateJob(job.id, current => ({ ...current, progress: { ...current.progress, [source]: progress } }));
+            },
+        });
+        finish('done');
+        settleWaiters(job.id, waiter => waiter.resolve(stats));
+    } catch (error) {
+        if (controller.signal.aborted) {
+            finish('cancelled');
+            settleWaiters(job.id, waiter => waiter.reject(new JobCancelledError(job.id)));
+            return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Jobs: ${job.id} (${job.eventId}) failed:`, error);
+        finish('failed', message);
+        settleWaiters(job.id, waiter => waiter.reject(error instanceof Error ? error : new Error(message)));
+    }
+}
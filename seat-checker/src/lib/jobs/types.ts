@@ -0,0 +1,33 @@
+import type { JoinedEvent, SourceType } from '../types';
+
+// Stats refresh jobs ("jobs", one document per job ID). Every scrape of an event's seats
+// runs as a job - UI refreshes, background refreshes and the scheduler alike.
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Who asked for the refresh
+export type JobTrigger = 'ui' | 'scheduler';
+
+// Per platform of the event, while the job runs
+export type SourceProgress = 'pending' | 'running' | 'done' | 'failed';
+
+export interface StatsRefreshJob {
+    id: string;
+    type: 'stats_refresh';
+    eventId: string;
+    organizerId?: string;
+    title: string;
+    event: JoinedEvent;         // snapshot, so a job queued before a restart can still run
+    trigger: JobTrigger;
+    requestedBy?: string;       // username (when login is on)
+    status: JobStatus;
+    progress: Partial<Record<SourceType, SourceProgress>>;
+    cancelRequested?: boolean;
+    error?: string;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+}
+
+// What the API returns - without the event snapshot
+export type JobSummary = Omit<StatsRefreshJob, 'event'>;
@@ -0,0 +1,93 @@
+import type { CombinedEventStats, SourceType } from './types';
+import type { JobSummary } from './jobs/types';
+
+// Push channel for the UI (Server-Sent Events, /api/live): refresh job progress, finished
+// stats and the seats sold or returned in a refresh. Subscribers live in this process only -
+// kept on `global` so route bundles, the job queue and the scheduler share one list.
+
+export type LiveUpdate =
+    | { type: 'job'; eventId: string; job: JobSummary }
+    | { type: 'stats'; eventId: string; stats: CombinedEventStats }
+    // "Sector:Row-Seat" -> platform, as in CombinedEventStats.inferredSold
+    | { type: 'sales'; eventId: string; sold: Record<string, SourceType>; returned: Record<string, SourceType>; timestamp: string };
+
+type LiveListener = (update: LiveUpdate) => void;
+
+// Comment line that keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+const globalForLive = global as unknown as { _liveListeners: Set<LiveListener> | undefined };
+
+function getListeners(): Set<LiveListener> {
+    if (!globalForLive._liveListeners) globalForLive._liveListeners = new Set();
+    return globalForLive._liveListeners;
+}
+
+export function publishLiveUpdate(update: LiveUpdate): void {
+    for (const listener of Array.from(getListeners())) {
+        try {
+            listener(update);
+        } catch (error) {
+            console.error('Live updates: listener failed:', error);
+        }
+    }
+}
+
+// Returns the unsubscribe function
+export function subscribeLiveUpdates(listener: LiveListener): () => void {
+    const listeners = getListeners();
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Server-Sent Events stream of the updates of one event (or all events when eventId is null).
+ * "initial" updates are sent first, e.g. the event's pending job after a page reload.
+ * The stream ends when the client disconnects (signal).
+ */
+export function createLiveStream(eventId: string | null, signal: AbortSignal, initial: LiveUpdate[] = []): ReadableStream<Uint8Array> {
+    const encoder = new TextEncoder();
+    let cleanup = () => { };
+
+    return new ReadableStream<Uint8Array>({
+        start(controller) {
+            let closed = false;
+            const write = (chunk: string) => {
+                if (closed) return;
+                try {
+                    controller.enqueue(encoder.encode(chunk));
+                } catch {
+                    // Client went away between the abort and the cleanup
+                    cleanup();
+                }
+            };
+            const send = (update: LiveUpdate) => write(`event: ${update.type}\ndata: ${JSON.stringify(update)}\n\n`);
+
+            const unsubscribe = subscribeLiveUpdates(update => {
+                if (eventId === null || update.eventId === eventId) send(update);
+            });
+            const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+            cleanup = () => {
+                if (closed) return;
+                closed = true;
+                unsubscribe();
+                clearInterval(heartbeat);
+                try {
+                    controller.close();
+                } catch {
+                    // Already closed by the runtime
+                }
+            };
+            signal.addEventListener('abort', () => cleanup());
+
+            write('retry: 5000\n\n');
+            initial.forEach(send);
+        },
+        cancel() {
+            cleanup();
+        },
+    });
+}
@@ -0,0 +1,243 @@
+import type { DiscordChannelConfig, Notification, NotificationChannel } from '../types';
+import { DeliveryError, describeUrl, postJson } from '../http';
+import { appendDeliveryRecord } from '../deliveryLog';
+import { serializeByKey } from '../../storage';
+import {
+    dropDiscordNotification,
+    enqueueDiscordMessages,
+    loadDiscordQueue,
+    removeDiscordMessages,
+    type DiscordEmbed,
+    type QueuedDiscordMessage,
+} from './discordQueue';
+
+// Discord webhook. A notification is split into embeds within Discord's limits - the text,
+// then its sections (seats per sector and platform...), a long section continuing in the next
+// embed - and the embeds into messages. Messages go through a persistent queue per channel
+// (discordQueue.ts) and are sent in order; consecutive small ones are batched into one call.
+// A 429 is waited out (Retry-After) and the rate-limit headers are respected between calls.
+
+const DESCRIPTION_LIMIT = 4096;
+const TITLE_LIMIT = 256;
+const LINE_LIMIT = 1000;
+// All embeds of one message together; Discord allows 6000, the rest is the margin for titles
+const MESSAGE_LIMIT = 5500;
+const EMBEDS_PER_MESSAGE = 10;
+const FOOTER = 'Seat Checker Bot';
+
+// Rate limits waited out within one send; longer ones go back to the dispatcher's backoff
+const MAX_INLINE_WAIT_MS = 60 * 1000;
+const MAX_INLINE_WAITS = 5;
+
+// "channelId:notificationId" a send() call is waiting for - only the others get a delivery record here
+const inFlight = new Set<string>();
+// Rejected by Discord while another call was flushing: "channelId:notificationId" -> reason
+const rejected = new Map<string, string>();
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function clip(text: string, limit: number): string {
+    return text.length > limit ? text.slice(0, limit - 1) + '…' : text;
+}
+
+function embedSize(embed: DiscordEmbed): number {
+    return (embed.title?.length || 0) + embed.description.length + (embed.footer?.text.length || 0);
+}
+
+// Description of every embed: lines packed up to the limit, a cut section repeats its heading
+export function splitDiscordDescriptions(notification: Notification): string[] {
+    const lines: Array<{ text: string; heading?: string }> = [];
+    if (notification.text) {
+        lines.push(...notification.text.split('\n').map(text => ({ text })));
+    }
+    for (const section of notification.sections || []) {
+        if (lines.length > 0) lines.push({ text: '' });
+        lines.push({ text: `**${section.heading}:**` });
+        lines.push(...section.lines.map(text => ({ text, heading: section.heading })));
+    }
+
+    const descriptions: string[] = [];
+    let current: string[] = [];
+    let length = 0;
+    for (const line of lines) {
+        const text = clip(line.text, LINE_LIMIT);
+        if (current.length > 0 && length + 1 + text.length > DESCRIPTION_LIMIT) {
+            // Do not leave a heading without its first line at the end
+            if (line.heading && current[current.length - 1] === `**${line.heading}:**`) current.pop();
+            descriptions.push(current.join('\n').trim());
+            current = line.heading ? [`**${line.heading} (cd.):**`] : [];
+            length = current[0]?.length || 0;
+        }
+        if (current.length === 0 && text === '') continue;
+        length += (current.length > 0 ? 1 : 0) + text.length;
+        current.push(text);
+    }
+    if (current.length > 0) descriptions.push(current.join('\n').trim());
+    // Discord rejects an embed without a description
+    const nonEmpty = descriptions.filter(Boolean);
+    return nonEmpty.length > 0 ? nonEmpty : ['\u200b'];
+}
+
+/**
+ * Messages (groups of at most 10 embeds within the size limit) of one notification.
+ */
+export function buildDiscordMessages(notification: Notification): QueuedDiscordMessage[] {
+    const title = clip(notification.title, TITLE_LIMIT - 10);
+    const embeds: DiscordEmbed[] = splitDiscordDescriptions(notification).map(description => ({
+        description,
+        color: notification.color,
+    }));
+    embeds[0].title = title;
+    embeds[embeds.length - 1].timestamp = notification.createdAt;
+    embeds[embeds.length - 1].footer = { text: FOOTER };
+
+    const groups: DiscordEmbed[][] = [];
+    for (const embed of embeds) {
+        const last = groups[groups.length - 1];
+        const size = last ? last.reduce((acc, e) => acc + embedSize(e), 0) : 0;
+        if (last && last.length < EMBEDS_PER_MESSAGE && size + embedSize(embed) <= MESSAGE_LIMIT) {
+            last.push(embed);
+        } else {
+            groups.push([embed]);
+        }
+    }
+    // Follow-up messages get the title again so they can be told apart in the channel
+    groups.forEach((group, i) => {
+        if (i > 0) group[0].title = `${title} (${i + 1}/${groups.length})`;
+    });
+
+    return groups.map((group, i) => ({
+        notificationId: notification.id,
+        kind: notification.kind,
+        organizerId: notification.organizerId,
+        eventId: notification.eventId,
+        title: notification.title,
+        part: i + 1,
+        parts: groups.length,
+        embeds: group,
+        queuedAt: new Date().toISOString(),
+    }));
+}
+
+// Consecutive queued messages that fit into one call
+function takeBatch(queue: QueuedDiscordMessage[]): QueuedDiscordMessage[] {
+    const batch: QueuedDiscordMessage[] = [];
+    let embeds = 0;
+    let size = 0;
+    for (const message of queue) {
+        const messageSize = message.embeds.reduce((acc, e) => acc + embedSize(e), 0);
+        if (batch.length > 0 && (embeds + message.embeds.length > EMBEDS_PER_MESSAGE || size + messageSize > MESSAGE_LIMIT)) break;
+        batch.push(message);
+        embeds += message.embeds.length;
+        size += messageSize;
+    }
+    return batch;
+}
+
+function recordQueued(config: DiscordChannelConfig, message: QueuedDiscordMessage, error?: string) {
+    appendDeliveryRecord({
+        notificationId: message.notificationId,
+        kind: message.kind,
+        channelId: config.id,
+        channelType: 'discord',
+        organizerId: message.organizerId,
+        eventId: message.eventId,
+        status: error ? 'failed' : 'sent',
+        attempts: 1,
+        error,
+        timestamp: new Date().toISOString(),
+    });
+}
+
+// Seconds until the bucket refills when this was the last allowed call
+function getRateLimitWait(response: Response): number {
+    if (response.headers.get('x-ratelimit-remaining') !== '0') return 0;
+    const resetAfter = parseFloat(response.headers.get('x-ratelimit-reset-after') || '');
+    return isNaN(resetAfter) ? 0 : Math.min(MAX_INLINE_WAIT_MS, resetAfter * 1000);
+}
+
+/**
+ * Send everything queued for the channel, oldest first. Throws a retryable DeliveryError when
+ * Discord is unavailable - the messages stay queued for the next attempt.
+ */
+export function flushDiscordQueue(config: DiscordChannelConfig): Promise<void> {
+    return serializeByKey(`discord-queue:${config.id}`, async () => {
+        let waits = 0;
+        let oneByOne = false;
+        let waitMs = 0;
+
+        for (;;) {
+            const queue = loadDiscordQueue(config.id);
+            if (queue.length === 0) return;
+            const batch = oneByOne ? [queue[0]] : takeBatch(queue);
+
+            if (waitMs > 0) await sleep(waitMs);
+            try {
+                const response = await postJson(config.url, { embeds: batch.flatMap(m => m.embeds) });
+                removeDiscordMessages(config.id, batch);
+                for (const message of batch) {
+                    if (message.part === message.parts && !inFlight.has(`${config.id}:${message.notificationId}`)) {
+                        console.log(`[Notify] ${config.id}: sent queued "${message.title}"`);
+                        recordQueued(config, message);
+                    }
+                }
+                oneByOne = false;
+                waitMs = getRateLimitWait(response);
+            } catch (error) {
+                if (!(error instanceof DeliveryError)) throw error;
+                waitMs = 0;
+
+                if (error.status === 429 && error.retryAfterMs !== undefined
+                    && error.retryAfterMs <= MAX_INLINE_WAIT_MS && waits++ < MAX_INLINE_WAITS) {
+                    console.warn(`[Notify] ${config.id}: rate limited, waiting ${error.retryAfterMs} ms`);
+                    waitMs = error.retryAfterMs;
+                    continue;
+                }
+                if (error.retryable) {
+                    throw new DeliveryError(`${error.message} (${queue.length} message(s) kept in queue)`, true, error.retryAfterMs, error.status);
+                }
+                // A batch may fail for one bad message - find it by sending them one by one
+                if (batch.length > 1) {
+                    oneByOne = true;
+                    continue;
+                }
+
+                // Rejected by Discord - it would block the queue forever
+                const message = batch[0];
+                console.error(`[Notify] ${config.id}: dropping "${message.title}" rejected by Discord: ${error.message}`);
+                dropDiscordNotification(config.id, message.notificationId);
+                const key = `${config.id}:${message.notificationId}`;
+                if (inFlight.has(key)) {
+                    rejected.set(key, error.message);
+                } else {
+                    recordQueued(config, message, error.message);
+                }
+            }
+        }
+    });
+}
+
+export const discordChannel: NotificationChannel<DiscordChannelConfig> = {
+    type: 'discord',
+
+    async send(config, notification) {
+        const key = `${config.id}:${notification.id}`;
+        inFlight.add(key);
+        try {
+            enqueueDiscordMessages(config.id, buildDiscordMessages(notification));
+            await flushDiscordQueue(config);
+        } finally {
+            inFlight.delete(key);
+        }
+
+        const reason = rejected.get(key);
+        if (reason !== undefined) {
+            rejected.delete(key);
+            throw new DeliveryError(reason, false);
+        }
+    },
+
+    describe: config => `Discord (${describeUrl(config.url)})`,
+};
@@ -0,0 +1,81 @@
+import type { NotificationKind } from '../types';
+import { getStorage } from '../../storage';
+
+// Persistent outbox of the Discord channel: one document per channel ID ("notification_queue")
+// holding the messages not delivered yet, oldest first. A notification becomes one or more
+// messages; each is removed only after Discord accepted it, so a failed call loses nothing.
+
+// Oldest messages are dropped beyond this (a channel that has been down for days)
+const MAX_QUEUED_MESSAGES = 500;
+
+export interface DiscordEmbed {
+    title?: string;
+    description: string;
+    color: number;
+    timestamp?: string;
+    footer?: { text: string };
+}
+
+export interface QueuedDiscordMessage {
+    notificationId: string;
+    kind: NotificationKind;
+    organizerId?: string;
+    eventId?: string;
+    title: string;
+    part: number;           // 1-based, of "parts" messages of the notification
+    parts: number;
+    embeds: DiscordEmbed[];
+    queuedAt: string;
+}
+
+interface DiscordQueue {
+    messages: QueuedDiscordMessage[];
+}
+
+export function loadDiscordQueue(channelId: string): QueuedDiscordMessage[] {
+    try {
+        return getStorage().getDocument<DiscordQueue>('notification_queue', channelId)?.messages || [];
+    } catch (error) {
+        console.error('Error loading Discord queue:', error);
+        return [];
+    }
+}
+
+function updateQueue(channelId: string, update: (messages: QueuedDiscordMessage[]) => QueuedDiscordMessage[]): void {
+    getStorage().updateDocument<DiscordQueue>('notification_queue', channelId, current => {
+        const messages = update(current?.messages || []);
+        return messages.length > 0 ? { messages } : null;
+    });
+}
+
+// Append the messages of a notification unless already queued (a retried send)
+export function enqueueDiscordMessages(channelId: string, messages: QueuedDiscordMessage[]): void {
+    updateQueue(channelId, queue => {
+        if (messages.length === 0 || queue.some(m => m.notificationId === messages[0].notificationId)) return queue;
+        const next = [...queue, ...messages];
+        if (next.length > MAX_QUEUED_MESSAGES) {
+            console.warn(`[Notify] ${channelId}: queue full, dropping ${next.length - MAX_QUEUED_MESSAGES} oldest message(s)`);
+        }
+        return next.slice(-MAX_QUEUED_MESSAGES);
+    });
+}
+
+export function removeDiscordMessages(channelId: string, sent: QueuedDiscordMessage[]): void {
+    const keys = new Set(sent.map(m => `${m.notificationId}:${m.part}`));
+    updateQueue(channelId, queue => queue.filter(m => !keys.has(`${m.notificationId}:${m.part}`)));
+}
+
+// Remove every remaining message of a notification (Discord rejected it)
+export function dropDiscordNotification(channelId: string, notificationId: string): void {
+    updateQueue(channelId, queue => queue.filter(m => m.notificationId !== notificationId));
+}
+
+// Channel IDs with queued messages
+export function listDiscordQueues(): string[] {
+    try {
+        return Object.keys(getStorage().listDocuments<DiscordQueue>('notification_queue'));
+    } catch (error) {
+        console.error('Error loading Discord queues:', error);
+        return [];
+    }
+}
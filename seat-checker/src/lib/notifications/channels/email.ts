@@ -0,0 +1,204 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+import type { EmailChannelConfig, Notification, NotificationChannel } from '../types';
+import { DeliveryError, getFullText, toPlainText } from '../http';
+
+// E-mail over SMTP, without an extra dependency: a minimal client covering
+// SMTPS or STARTTLS, AUTH PLAIN/LOGIN and a single text/plain message per delivery.
+
+const SMTP_TIMEOUT_MS = 30000;
+
+interface SmtpReply {
+    code: number;
+    text: string;
+}
+
+class SmtpSession {
+    private socket: net.Socket;
+    private buffer = '';
+    private lines: string[] = [];
+    private replies: SmtpReply[] = [];
+    private waiting: { resolve(reply: SmtpReply): void; reject(error: Error): void } | null = null;
+    private failure: Error | null = null;
+
+    private readonly onData = (chunk: Buffer) => {
+        this.buffer += chunk.toString('utf8');
+        let end: number;
+        while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+            const line = this.buffer.slice(0, end);
+            this.buffer = this.buffer.slice(end + 2);
+            this.lines.push(line.slice(4));
+            // "250-..." continues a multi-line reply, "250 ..." ends it
+            if (line[3] === '-') continue;
+            const reply = { code: parseInt(line.slice(0, 3), 10), text: this.lines.join('\n') };
+            this.lines = [];
+            if (this.waiting) {
+                this.waiting.resolve(reply);
+                this.waiting = null;
+            } else {
+                this.replies.push(reply);
+            }
+        }
+    };
+
+    private readonly onError = (error: Error) => this.fail(error);
+    private readonly onClose = () => this.fail(new Error('connection closed'));
+
+    constructor(socket: net.Socket) {
+        this.socket = socket;
+        this.attach(socket);
+    }
+
+    private attach(socket: net.Socket) {
+        this.socket = socket;
+        socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('timeout')));
+        socket.on('data', this.onData);
+        socket.on('error', this.onError);
+        socket.on('close', this.onClose);
+    }
+
+    private detach(socket: net.Socket) {
+        socket.setTimeout(0);
+        socket.removeListener('data', this.onData);
+        socket.removeListener('error', this.onError);
+        socket.removeListener('close', this.onClose);
+    }
+
+    private fail(error: Error) {
+        this.failure = this.failure || error;
+        if (this.waiting) {
+            this.waiting.reject(this.failure);
+            this.waiting = null;
+        }
+    }
+
+    private read(): Promise<SmtpReply> {
+        const reply = this.replies.shift();
+        if (reply) return Promise.resolve(reply);
+        if (this.failure) return Promise.reject(this.failure);
+        return new Promise((resolve, reject) => {
+            this.waiting = { resolve, reject };
+        });
+    }
+
+    // Wait for a reply (null = only read, e.g. the greeting) and check its code
+    async command(line: string | null, ...expected: number[]): Promise<SmtpReply> {
+        if (line !== null) this.socket.write(`${line}\r\n`);
+        let reply: SmtpReply;
+        try {
+            reply = await this.read();
+        } catch (error) {
+            throw new DeliveryError(`SMTP ${error instanceof Error ? error.message : 'error'}`, true);
+        }
+        if (!expected.includes(reply.code)) {
+            // 4xx - temporary, 5xx - permanent
+            throw new DeliveryError(`SMTP ${reply.code}: ${reply.text}`, reply.code >= 400 && reply.code < 500);
+        }
+        return reply;
+    }
+
+    upgrade(host: string): Promise<void> {
+        const plain = this.socket;
+        this.detach(plain);
+        return new Promise((resolve, reject) => {
+            const secured = tls.connect({ socket: plain, servername: host }, () => {
+                secured.removeListener('error', onError);
+                this.attach(secured);
+                resolve();
+            });
+            const onError = (error: Error) => reject(new DeliveryError(`SMTP STARTTLS failed: ${error.message}`, true));
+            secured.once('error', onError);
+        });
+    }
+
+    close() {
+        this.detach(this.socket);
+        this.socket.on('error', () => { });
+        this.socket.end();
+    }
+}
+
+function connect(host: string, port: number, secure: boolean): Promise<net.Socket> {
+    return new Promise((resolve, reject) => {
+        const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+        const onError = (error: Error) => reject(new DeliveryError(`SMTP connection failed: ${error.message}`, true));
+        socket.once('error', onError);
+        socket.once(secure ? 'secureConnect' : 'connect', () => {
+            socket.removeListener('error', onError);
+            resolve(socket);
+        });
+    });
+}
+
+// "Seat Checker <bot@example.com>" -> "bot@example.com"
+function address(value: string): string {
+    return /<([^>]+)>/.exec(value)?.[1] || value.trim();
+}
+
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64(value: string): string {
+    return Buffer.from(value, 'utf8').toString('base64');
+}
+
+export function buildEmailMessage(config: EmailChannelConfig, notification: Notification): string {
+    // Base64 lines never start with "." - no dot-stuffing needed
+    const body = base64(toPlainText(getFullText(notification)) + '\n').replace(/.{76}/g, '$&\r\n');
+    const headers = [
+        `From: ${config.from}`,
+        `To: ${config.to.join(', ')}`,
+        `Subject: ${encodeHeader(notification.title)}`,
+        `Date: ${new Date(notification.createdAt).toUTCString()}`,
+        `Message-ID: <${notification.id}@seat-checker>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: base64',
+    ];
+    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+}
+
+export const emailChannel: NotificationChannel<EmailChannelConfig> = {
+    type: 'email',
+
+    async send(config, notification) {
+        const secure = config.secure ?? false;
+        const port = config.port ?? (secure ? 465 : 587);
+        const session = new SmtpSession(await connect(config.host, port, secure));
+
+        try {
+            await session.command(null, 220);
+            let ehlo = await session.command(`EHLO ${os.hostname()}`, 250);
+
+            if (!secure && /^STARTTLS\b/im.test(ehlo.text)) {
+                await session.command('STARTTLS', 220);
+                await session.upgrade(config.host);
+                ehlo = await session.command(`EHLO ${os.hostname()}`, 250);
+            }
+
+            if (config.user) {
+                if (/^AUTH\b.*\bPLAIN\b/im.test(ehlo.text)) {
+                    await session.command(`AUTH PLAIN ${base64(`\0${config.user}\0${config.pass || ''}`)}`, 235);
+                } else {
+                    await session.command('AUTH LOGIN', 334);
+                    await session.command(base64(config.user), 334);
+                    await session.command(base64(config.pass || ''), 235);
+                }
+            }
+
+            await session.command(`MAIL FROM:<${address(config.from)}>`, 250);
+            for (const recipient of config.to) {
+                await session.command(`RCPT TO:<${address(recipient)}>`, 250, 251);
+            }
+            await session.command('DATA', 354);
+            await session.command(`${buildEmailMessage(config, notification)}\r\n.`, 250);
+            await session.command('QUIT', 221).catch(() => { });
+        } finally {
+            session.close();
+        }
+    },
+
+    describe: config => `E-mail (${config.host} -> ${config.to.join(', ')})`,
+};
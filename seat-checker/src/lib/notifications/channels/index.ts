@@ -0,0 +1,18 @@
+// Registry of notification channel types.
+// Adding a channel type = a module here + its config in ../types.ts.
+import type { ChannelConfig, ChannelType, NotificationChannel } from '../types';
+import { discordChannel } from './discord';
+import { slackChannel } from './slack';
+import { webhookChannel } from './webhook';
+import { emailChannel } from './email';
+
+const CHANNELS: { [K in ChannelType]: NotificationChannel<Extract<ChannelConfig, { type: K }>> } = {
+    discord: discordChannel,
+    slack: slackChannel,
+    webhook: webhookChannel,
+    email: emailChannel,
+};
+
+export function getNotificationChannel<C extends ChannelConfig>(config: C): NotificationChannel<C> {
+    return CHANNELS[config.type] as unknown as NotificationChannel<C>;
+}
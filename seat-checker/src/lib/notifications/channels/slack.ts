@@ -0,0 +1,20 @@
+import type { NotificationChannel, SlackChannelConfig } from '../types';
+import { describeUrl, getFullText, postJson } from '../http';
+
+// Slack uses single asterisks for bold ("mrkdwn")
+function toMrkdwn(text: string): string {
+    return text.replace(/\*\*(.+?)\*\*/g, '*$1*');
+}
+
+// Slack incoming webhook; plain "text" keeps it compatible with Mattermost and Rocket.Chat
+export const slackChannel: NotificationChannel<SlackChannelConfig> = {
+    type: 'slack',
+
+    async send(config, notification) {
+        await postJson(config.url, {
+            text: `*${notification.title}*\n${toMrkdwn(getFullText(notification))}`,
+        });
+    },
+
+    describe: config => `Slack (${describeUrl(config.url)})`,
+};
@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import type { NotificationChannel, WebhookChannelConfig } from '../types';
+import { describeUrl, getFullText, postBody, toPlainText } from '../http';
+
+// Generic JSON webhook. With a secret every request is signed:
+//   X-Seat-Checker-Timestamp: <unix seconds>
+//   X-Seat-Checker-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+// The receiver recomputes the HMAC and rejects old timestamps (replay protection).
+
+export function signWebhookBody(secret: string, timestamp: string, body: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export const webhookChannel: NotificationChannel<WebhookChannelConfig> = {
+    type: 'webhook',
+
+    async send(config, notification) {
+        const body = JSON.stringify({
+            id: notification.id,
+            kind: notification.kind,
+            organizerId: notification.organizerId ?? null,
+            eventId: notification.eventId ?? null,
+            title: notification.title,
+            text: toPlainText(getFullText(notification)),
+            data: notification.data,
+            createdAt: notification.createdAt,
+        });
+        const timestamp = String(Math.floor(Date.now() / 1000));
+
+        const headers: Record<string, string> = {
+            ...config.headers,
+            'Content-Type': 'application/json',
+            'X-Seat-Checker-Event': notification.kind,
+            'X-Seat-Checker-Delivery': notification.id,
+            'X-Seat-Checker-Timestamp': timestamp,
+        };
+        if (config.secret) {
+            headers['X-Seat-Checker-Signature'] = signWebhookBody(config.secret, timestamp, body);
+        }
+
+        await postBody(config.url, body, headers);
+    },
+
+    describe: config => `Webhook (${describeUrl(config.url)}${config.secret ? ', signed' : ''})`,
+};
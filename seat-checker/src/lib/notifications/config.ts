@@ -0,0 +1,79 @@
+import fs from 'fs';
+import type { ChannelConfig, ChannelType } from './types';
+
+// Konfiguracja (zmienne środowiskowe):
+//   NOTIFICATION_CHANNELS=[...]      - lista kanałów (JSON), np.
+//       [{"id":"biuro","type":"slack","url":"https://hooks.slack.com/...","routes":{"organizers":["wikart"]}},
+//        {"id":"crm","type":"webhook","url":"https://crm.example.com/hook","secret":"..."},
+//        {"id":"mail","type":"email","host":"smtp.example.com","user":"...","pass":"...","from":"bot@example.com","to":["biuro@example.com"]}]
+//   NOTIFICATION_CHANNELS_FILE=...   - to samo w pliku JSON (wygodniejsze dla haseł)
+//   DISCORD_WEBHOOK_URL=...          - dotychczasowy webhook Discord; działa jako kanał "discord" bez reguł
+//   NOTIFICATION_RETRY_ATTEMPTS=4    - liczba prób doręczenia do jednego kanału
+//   NOTIFICATION_RETRY_BASE_MS=2000  - odstęp przed drugą próbą, podwajany przy kolejnych
+
+const DEFAULT_RETRY_ATTEMPTS = 4;
+const DEFAULT_RETRY_BASE_MS = 2000;
+
+const REQUIRED_FIELDS: Record<ChannelType, string[]> = {
+    discord: ['url'],
+    slack: ['url'],
+    webhook: ['url'],
+    email: ['host', 'from', 'to'],
+};
+
+function readChannelList(): unknown[] {
+    const file = process.env.NOTIFICATION_CHANNELS_FILE;
+    const json = file ? fs.readFileSync(file, 'utf8') : process.env.NOTIFICATION_CHANNELS;
+    if (!json) return [];
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed : [];
+}
+
+function isValidChannel(entry: any): entry is ChannelConfig {
+    if (!entry || typeof entry.id !== 'string' || !entry.id) return false;
+    const required = REQUIRED_FIELDS[entry.type as ChannelType];
+    if (!required) return false;
+    if (entry.type === 'email' && (!Array.isArray(entry.to) || entry.to.length === 0)) return false;
+    return required.every(field => entry[field]);
+}
+
+/**
+ * Configured channels, read on every dispatch (the channels file can be edited without a restart).
+ * Invalid entries are skipped with a warning.
+ */
+export function getChannelConfigs(): ChannelConfig[] {
+    let entries: unknown[] = [];
+    try {
+        entries = readChannelList();
+    } catch (error) {
+        console.error('Notifications: invalid NOTIFICATION_CHANNELS:', error);
+    }
+
+    const channels: ChannelConfig[] = [];
+    for (const entry of entries) {
+        if (!isValidChannel(entry)) {
+            console.warn(`Notifications: ignoring invalid channel ${JSON.stringify((entry as any)?.id ?? entry)}`);
+            continue;
+        }
+        if (channels.some(c => c.id === entry.id)) {
+            console.warn(`Notifications: duplicate channel id "${entry.id}" ignored`);
+            continue;
+        }
+        channels.push(entry);
+    }
+
+    const discordUrl = process.env.DISCORD_WEBHOOK_URL;
+    if (discordUrl && !channels.some(c => c.id === 'discord')) {
+        channels.push({ id: 'discord', type: 'discord', url: discordUrl });
+    }
+    return channels;
+}
+
+export function getRetryPolicy(): { attempts: number; baseDelayMs: number } {
+    const attempts = parseInt(process.env.NOTIFICATION_RETRY_ATTEMPTS || '', 10);
+    const baseDelayMs = parseInt(process.env.NOTIFICATION_RETRY_BASE_MS || '', 10);
+    return {
+        attempts: attempts > 0 ? attempts : DEFAULT_RETRY_ATTEMPTS,
+        baseDelayMs: baseDelayMs >= 0 ? baseDelayMs : DEFAULT_RETRY_BASE_MS,
+    };
+}
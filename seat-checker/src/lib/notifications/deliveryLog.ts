@@ -0,0 +1,30 @@
+import type { DeliveryRecord } from './types';
+import { getStorage } from '../storage';
+
+// One append-only log per channel ID - every delivery (after all retries) is one entry
+
+export function appendDeliveryRecord(record: DeliveryRecord): void {
+    try {
+        getStorage().appendLog('notification_deliveries', record.channelId, [record]);
+    } catch (error) {
+        console.error('Error saving notification delivery:', error);
+    }
+}
+
+// Newest first, optionally for one channel and only after "since"
+export function loadDeliveryRecords(options: { channelId?: string; since?: Date; limit?: number } = {}): DeliveryRecord[] {
+    try {
+        const storage = getStorage();
+        const channelIds = options.channelId ? [options.channelId] : storage.listLogKeys('notification_deliveries');
+        let records = channelIds.flatMap(id => storage.readLog<DeliveryRecord>('notification_deliveries', id));
+        if (options.since) {
+            const since = options.since.getTime();
+            records = records.filter(record => new Date(record.timestamp).getTime() >= since);
+        }
+        records.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+        return options.limit ? records.slice(0, options.limit) : records;
+    } catch (error) {
+        console.error('Error loading notification deliveries:', error);
+        return [];
+    }
+}
@@ -0,0 +1,128 @@
+import type { ChannelConfig, ChannelType, DeliveryRecord, Notification, NotificationRoutes } from './types';
+import { getChannelConfigs, getRetryPolicy } from './config';
+import { getNotificationChannel } from './channels';
+import { flushDiscordQueue } from './channels/discord';
+import { listDiscordQueues, loadDiscordQueue } from './channels/discordQueue';
+import { appendDeliveryRecord } from './deliveryLog';
+import { DeliveryError } from './http';
+
+// Longest wait between two attempts, also caps a server's Retry-After
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a channel with these routing rules takes the notification.
+ * A rule about events only matches notifications about a single event.
+ */
+export function routeAccepts(routes: NotificationRoutes | undefined, notification: Notification): boolean {
+    if (!routes) return true;
+    if (routes.kinds && !routes.kinds.includes(notification.kind)) return false;
+    if (routes.organizers && !(notification.organizerId && routes.organizers.includes(notification.organizerId))) return false;
+    if (routes.events && !(notification.eventId && routes.events.includes(notification.eventId))) return false;
+    if (routes.excludeEvents && notification.eventId && routes.excludeEvents.includes(notification.eventId)) return false;
+    return true;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Send to one channel, retrying temporary failures with exponential backoff
+async function deliver(config: ChannelConfig, notification: Notification): Promise<DeliveryRecord> {
+    const channel = getNotificationChannel(config);
+    const { attempts, baseDelayMs } = getRetryPolicy();
+    let attempt = 0;
+    let lastError: string | undefined;
+
+    while (attempt < attempts) {
+        attempt++;
+        try {
+            await channel.send(config, notification);
+            lastError = undefined;
+            break;
+        } catch (error) {
+            lastError = error instanceof Error ? error.message : String(error);
+            // Anything else than DeliveryError is a bug in the channel - another attempt won't help
+            const retryable = error instanceof DeliveryError && error.retryable;
+            if (!retryable || attempt >= attempts) break;
+
+            const delay = Math.min(MAX_RETRY_DELAY_MS, error.retryAfterMs ?? baseDelayMs * 2 ** (attempt - 1));
+            console.warn(`[Notify] ${config.id}: attempt ${attempt} failed (${lastError}), retrying in ${delay} ms`);
+            await sleep(delay);
+        }
+    }
+
+    const record: DeliveryRecord = {
+        notificationId: notification.id,
+        kind: notification.kind,
+        channelId: config.id,
+        channelType: config.type,
+        organizerId: notification.organizerId,
+        eventId: notification.eventId,
+        status: lastError === undefined ? 'sent' : 'failed',
+        attempts: attempt,
+        error: lastError,
+        timestamp: new Date().toISOString(),
+    };
+
+    if (record.status === 'sent') {
+        console.log(`[Notify] ${config.id}: sent "${notification.title}"`);
+    } else {
+        console.error(`[Notify] ${config.id}: delivery failed after ${attempt} attempt(s): ${lastError}`);
+    }
+    appendDeliveryRecord(record);
+    return record;
+}
+
+/**
+ * Deliver a notification to every enabled channel whose routes accept it.
+ * Channels are independent - a failing one does not delay or block the others.
+ * Null (nothing to report, see the builders in messages.ts) is a no-op.
+ */
+export async function dispatchNotification(notification: Notification | null): Promise<DeliveryRecord[]> {
+    if (!notification) return [];
+
+    const configs = getChannelConfigs();
+    if (configs.length === 0) {
+        console.warn('Notifications: no channels configured. Skipping notification.');
+        return [];
+    }
+
+    const targets = configs.filter(config => config.enabled !== false && routeAccepts(config.routes, notification));
+    return Promise.all(targets.map(config => deliver(config, notification)));
+}
+
+/**
+ * Send Discord messages left queued by failed deliveries (called on every scheduler tick).
+ * Queues of removed or disabled channels are kept until the channel is back.
+ */
+export async function retryQueuedNotifications(): Promise<void> {
+    const configs = getChannelConfigs();
+    for (const channelId of listDiscordQueues()) {
+        const config = configs.find(c => c.id === channelId);
+        if (!config || config.type !== 'discord' || config.enabled === false) continue;
+        try {
+            await flushDiscordQueue(config);
+        } catch (error) {
+            console.warn(`[Notify] ${channelId}: queued messages not sent yet: ${error instanceof Error ? error.message : error}`);
+        }
+    }
+}
+
+// Configured channels without secrets (for the API)
+export function describeChannels(): Array<{
+    id: string;
+    type: ChannelType;
+    enabled: boolean;
+    routes: NotificationRoutes | null;
+    target: string;
+    queued: number;     // Discord messages waiting in the queue
+}> {
+    return getChannelConfigs().map(config => ({
+        id: config.id,
+        type: config.type,
+        enabled: config.enabled !== false,
+        routes: config.routes || null,
+        target: getNotificationChannel(config).describe(config),
+        queued: config.type === 'discord' ? loadDiscordQueue(config.id).length : 0,
+    }));
+}
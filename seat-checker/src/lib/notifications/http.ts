@@ -0,0 +1,80 @@
+import type { Notification } from './types';
+
+// Shared transport helpers of the channels
+
+export class DeliveryError extends Error {
+    constructor(
+        message: string,
+        // Worth another attempt (network error, 5xx, rate limit); false for e.g. a bad URL or 4xx
+        readonly retryable: boolean,
+        // Server-requested delay before the next attempt (Retry-After)
+        readonly retryAfterMs?: number,
+        readonly status?: number
+    ) {
+        super(message);
+        this.name = 'DeliveryError';
+    }
+}
+
+const REQUEST_TIMEOUT_MS = 15000;
+
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * POST a body and throw DeliveryError unless the response is 2xx.
+ * The response is returned for its headers (rate limits), the body is not read.
+ */
+export async function postBody(url: string, body: string, headers: Record<string, string>): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, {
+            method: 'POST',
+            headers,
+            body,
+            signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+    } catch (error) {
+        throw new DeliveryError(error instanceof Error ? error.message : 'Request failed', true);
+    }
+
+    if (response.ok) return response;
+
+    const text = (await response.text().catch(() => '')).slice(0, 200);
+    const retryable = response.status === 429 || response.status >= 500;
+    throw new DeliveryError(
+        `HTTP ${response.status}${text ? `: ${text}` : ''}`,
+        retryable,
+        parseRetryAfter(response.headers.get('retry-after')),
+        response.status
+    );
+}
+
+export function postJson(url: string, payload: unknown, headers: Record<string, string> = {}): Promise<Response> {
+    return postBody(url, JSON.stringify(payload), { 'Content-Type': 'application/json', ...headers });
+}
+
+// Host only - webhook paths usually carry the token
+export function describeUrl(url: string): string {
+    try {
+        return new URL(url).host;
+    } catch {
+        return 'invalid URL';
+    }
+}
+
+// Text followed by the sections, for channels sending everything in one message
+export function getFullText(notification: Notification): string {
+    const sections = (notification.sections || []).map(section => `**${section.heading}:**\n${section.lines.join('\n')}`);
+    return [notification.text, ...sections].filter(Boolean).join('\n\n');
+}
+
+// **bold** markers removed (plain text channels)
+export function toPlainText(text: string): string {
+    return text.replace(/\*\*(.+?)\*\*/g, '$1');
+}
@@ -0,0 +1,17 @@
+// Outbound notifications: build a message (messages.ts), hand it to dispatchNotification.
+export { dispatchNotification, routeAccepts, describeChannels, retryQueuedNotifications } from './dispatcher';
+export { getChannelConfigs } from './config';
+export { loadDeliveryRecords } from './deliveryLog';
+export { buildSaleNotification, buildReturnNotification, buildEventChangesNotification, buildAlertNotification, buildDigestNotification } from './messages';
+export type { SaleNotificationInput, ReturnNotificationInput, AlertNotificationInput } from './messages';
+export { signWebhookBody } from './channels/webhook';
+export { DeliveryError } from './http';
+export type {
+    Notification,
+    NotificationKind,
+    NotificationSection,
+    NotificationRoutes,
+    ChannelType,
+    ChannelConfig,
+    DeliveryRecord,
+} from './types';
@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import type { EventChange, EventChangeType, SourceType } from '../types';
+import { SOURCE_META } from '../sources/meta';
+import type { SalesDigest } from '../digest/types';
+import { getDigestSections, getDigestSummary, getDigestTitle } from '../digest/render';
+import type { Notification, NotificationKind, NotificationSection } from './types';
+
+// Message builders - the wording is shared by all channels
+
+export interface SaleNotificationInput {
+    eventId: string;
+    organizerId: string;
+    eventTitle: string;
+    soldSeatsCount: number;
+    details: Array<{
+        sector: string;
+        row: string;
+        seat: string;
+        source: SourceType;
+    }>;
+}
+
+export interface ReturnNotificationInput {
+    eventId: string;
+    organizerId: string;
+    eventTitle: string;
+    returnedSeatsCount: number;
+    details: Array<{
+        sector: string;
+        row: string;
+        seat: string;
+        // Platform listing the seat as free again
+        source: SourceType;
+        // Platform the seat was sold on
+        soldOn?: SourceType;
+    }>;
+}
+
+type SeatDetail = SaleNotificationInput['details'][number];
+
+// Default Discord Blurple
+const DEFAULT_COLOR = 0x5865F2;
+
+function createNotification(
+    kind: NotificationKind,
+    fields: Omit<Notification, 'id' | 'kind' | 'createdAt'>
+): Notification {
+    return {
+        id: crypto.randomUUID(),
+        kind,
+        createdAt: new Date().toISOString(),
+        ...fields,
+    };
+}
+
+// Sort details to group by source and sector
+function sortSeatDetails<T extends SeatDetail>(details: T[]): T[] {
+    return [...details].sort((a, b) => {
+        if (a.source !== b.source) return a.source.localeCompare(b.source);
+        if (a.sector !== b.sector) return a.sector.localeCompare(b.sector);
+        return a.row.localeCompare(b.row);
+    });
+}
+
+// Seat list split into one section per platform and sector
+function groupSeatDetails<T extends SeatDetail>(details: T[], formatLine: (detail: T) => string): NotificationSection[] {
+    const groups: Array<{ first: T; lines: string[] }> = [];
+    for (const detail of sortSeatDetails(details)) {
+        const last = groups[groups.length - 1];
+        if (last && last.first.source === detail.source && last.first.sector === detail.sector) {
+            last.lines.push(formatLine(detail));
+        } else {
+            groups.push({ first: detail, lines: [formatLine(detail)] });
+        }
+    }
+    return groups.map(({ first, lines }) => ({
+        heading: `Sektor: ${first.sector} [${first.source}] (${lines.length})`,
+        lines,
+    }));
+}
+
+/**
+ * New sales found by a seat refresh. Null when there is nothing to report.
+ */
+export function buildSaleNotification(input: SaleNotificationInput): Notification | null {
+    if (input.soldSeatsCount === 0 || input.details.length === 0) {
+        return null;
+    }
+
+    return createNotification('sale', {
+        organizerId: input.organizerId,
+        eventId: input.eventId,
+        title: `🚨 UWAGA! Znaleziono nową sprzedaż!`,
+        text: `Zauważono sprzedaż **${input.soldSeatsCount}** biletów na wydarzenie:\n\n**${input.eventTitle}**`,
+        sections: groupSeatDetails(input.details, d => `• Rząd: **${d.row}** | Miejsce: **${d.seat}**`),
+        // Use the color of the first sold seat for the embed edge
+        color: SOURCE_META[input.details[0].source]?.discordColor || DEFAULT_COLOR,
+        data: input,
+    });
+}
+
+/**
+ * Seats that were sold before and are free again (refund / returned ticket).
+ */
+export function buildReturnNotification(input: ReturnNotificationInput): Notification | null {
+    if (input.returnedSeatsCount === 0 || input.details.length === 0) {
+        return null;
+    }
+
+    return createNotification('return', {
+        organizerId: input.organizerId,
+        eventId: input.eventId,
+        title: `↩️ Zwrot biletów - miejsca znów wolne`,
+        text: `**${input.returnedSeatsCount}** wcześniej sprzedanych miejsc ponownie jest w sprzedaży na wydarzenie:\n\n**${input.eventTitle}**`,
+        // Platform of the sale when the seat came back on another one
+        sections: groupSeatDetails(input.details, d =>
+            `• Rząd: **${d.row}** | Miejsce: **${d.seat}**${d.soldOn && d.soldOn !== d.source ? ` [sprzedane: ${d.soldOn}]` : ''}`
+        ),
+        color: 0xF1C40F, // Yellow - wyróżnia zwroty od sprzedaży
+        data: input,
+    });
+}
+
+const EVENT_CHANGE_LABELS: Record<EventChangeType, string> = {
+    cancelled: '❌ Odwołane (zniknęły ze wszystkich platform)',
+    rescheduled: '📅 Przełożone',
+    source_removed: '⚠️ Zniknęły z platformy',
+    added: '🆕 Nowe wydarzenia',
+};
+
+function formatEventChange(change: EventChange): string {
+    const when = `${change.date} ${change.time}`;
+    switch (change.type) {
+        case 'rescheduled':
+            return `• **${change.title}** (${change.city}): ${change.previousDate} ${change.previousTime} → **${when}**`;
+        case 'source_removed':
+            return `• **${change.title}** (${change.city}, ${when}) [${change.source ? SOURCE_META[change.source].label : '?'}]`;
+        default:
+            return `• **${change.title}** (${change.city}, ${when})`;
+    }
+}
+
+/**
+ * Changes of the event list (new, rescheduled, cancelled, removed from a platform).
+ */
+export function buildEventChangesNotification(
+    changes: EventChange[],
+    organizer: { id: string; name?: string }
+): Notification | null {
+    if (changes.length === 0) {
+        return null;
+    }
+
+    const sections: NotificationSection[] = [];
+    for (const type of Object.keys(EVENT_CHANGE_LABELS) as EventChangeType[]) {
+        const ofType = changes.filter(c => c.type === type);
+        if (ofType.length === 0) continue;
+        sections.push({ heading: EVENT_CHANGE_LABELS[type], lines: ofType.map(formatEventChange) });
+    }
+
+    const hasCancellations = changes.some(c => c.type === 'cancelled');
+    return createNotification('event_changes', {
+        organizerId: organizer.id,
+        title: `📋 Zmiany na liście wydarzeń${organizer.name ? ` - ${organizer.name}` : ''} (${changes.length})`,
+        text: '',
+        sections,
+        color: hasCancellations ? 0xE74C3C : 0x3498DB, // Red when something was cancelled
+        data: { changes },
+    });
+}
+
+export interface AlertNotificationInput {
+    ruleId: string;
+    ruleType: string;
+    eventId: string;
+    organizerId: string;
+    eventTitle: string;
+    eventDate: string;
+    headline: string;
+    details: string;
+    metrics: Record<string, unknown>;
+}
+
+/**
+ * A triggered alert rule (thresholds, sell-out, velocity...), see lib/alerts.
+ */
+export function buildAlertNotification(input: AlertNotificationInput): Notification {
+    return createNotification('alert', {
+        organizerId: input.organizerId,
+        eventId: input.eventId,
+        title: `🔔 ${input.headline}`,
+        text: `**${input.eventTitle}** (${input.eventDate})\n\n${input.details}`,
+        color: 0xE67E22, // Orange - reguły alertów
+        data: input,
+    });
+}
+
+/**
+ * Daily / weekly sales summary of one organizer, see lib/digest.
+ */
+export function buildDigestNotification(digest: SalesDigest): Notification {
+    return createNotification('digest', {
+        organizerId: digest.organizerId,
+        title: getDigestTitle(digest),
+        text: getDigestSummary(digest),
+        sections: getDigestSections(digest),
+        color: 0x2ECC71, // Green - podsumowania
+        data: digest,
+    });
+}
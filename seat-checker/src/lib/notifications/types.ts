@@ -0,0 +1,92 @@
+// Outbound notifications: a message is built once (messages.ts) and delivered by the
+// dispatcher to every channel whose routing rules accept it.
+
+export type NotificationKind = 'sale' | 'return' | 'event_changes' | 'alert' | 'digest';
+
+export interface Notification {
+    id: string;             // unique per message (delivery log, webhook delivery ID)
+    kind: NotificationKind;
+    organizerId?: string;
+    eventId?: string;       // absent for messages about several events (event_changes)
+    title: string;
+    text: string;           // body with **bold** markers, rendered by each channel
+    color: number;          // accent color (Discord embed edge)
+    data: unknown;          // structured payload for JSON webhooks
+    // Long lists (seats, events) in groups after the text; channels with a message size
+    // limit (Discord) spread them over several messages, the others append them to the text
+    sections?: NotificationSection[];
+    createdAt: string;
+}
+
+export interface NotificationSection {
+    heading: string;
+    lines: string[];
+}
+
+export type ChannelType = 'discord' | 'slack' | 'webhook' | 'email';
+
+// Every listed filter must match; a channel without routes receives everything
+export interface NotificationRoutes {
+    organizers?: string[];
+    events?: string[];          // only messages about one of these events
+    excludeEvents?: string[];
+    kinds?: NotificationKind[];
+}
+
+interface ChannelConfigBase {
+    id: string;
+    enabled?: boolean;          // default true
+    routes?: NotificationRoutes;
+}
+
+export interface DiscordChannelConfig extends ChannelConfigBase {
+    type: 'discord';
+    url: string;
+}
+
+// Slack incoming webhook or a compatible one (Mattermost, Rocket.Chat)
+export interface SlackChannelConfig extends ChannelConfigBase {
+    type: 'slack';
+    url: string;
+}
+
+export interface WebhookChannelConfig extends ChannelConfigBase {
+    type: 'webhook';
+    url: string;
+    secret?: string;            // HMAC-SHA256 signing key
+    headers?: Record<string, string>;
+}
+
+export interface EmailChannelConfig extends ChannelConfigBase {
+    type: 'email';
+    host: string;
+    port?: number;              // default 465 when secure, 587 otherwise
+    secure?: boolean;           // TLS from the start (SMTPS); otherwise STARTTLS when offered
+    user?: string;
+    pass?: string;
+    from: string;
+    to: string[];
+}
+
+export type ChannelConfig = DiscordChannelConfig | SlackChannelConfig | WebhookChannelConfig | EmailChannelConfig;
+
+// Delivery method of one channel type; send() throws DeliveryError on failure
+export interface NotificationChannel<C extends ChannelConfig = ChannelConfig> {
+    type: C['type'];
+    send(config: C, notification: Notification): Promise<void>;
+    // Where it goes, without secrets (shown by the API)
+    describe(config: C): string;
+}
+
+export interface DeliveryRecord {
+    notificationId: string;
+    kind: NotificationKind;
+    channelId: string;
+    channelType: ChannelType;
+    organizerId?: string;
+    eventId?: string;
+    status: 'sent' | 'failed';
+    attempts: number;
+    error?: string;
+    timestamp: string;
+}
@@ -0,0 +1,44 @@
+import { DEFAULT_ORGANIZER, DEFAULT_ORGANIZER_ID, type Organizer } from './types';
+import { getStorage } from './storage';
+
+// Organizers whose listings are scraped. Each one has its own event list, raw listings
+// and change log (eventCatalog.ts); per-event data (stats, history, overrides) stays keyed
+// by event ID, which carries the organizer (eventJoin.ts generateEventId).
+// The default organizer is always present - stored config only overrides its URLs.
+
+const ORGANIZER_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+
+export function isValidOrganizerId(id: unknown): id is string {
+    return typeof id === 'string' && ORGANIZER_ID_PATTERN.test(id);
+}
+
+export function loadOrganizers(): Organizer[] {
+    let stored: Record<string, Organizer> = {};
+    try {
+        stored = getStorage().listDocuments<Organizer>('organizers');
+    } catch (error) {
+        console.error('Error loading organizers:', error);
+    }
+
+    const organizers = Object.values(stored).filter(o => o.id !== DEFAULT_ORGANIZER_ID);
+    organizers.sort((a, b) => a.name.localeCompare(b.name, 'pl'));
+    return [stored[DEFAULT_ORGANIZER_ID] || DEFAULT_ORGANIZER, ...organizers];
+}
+
+export function getOrganizer(id: string): Organizer | null {
+    return loadOrganizers().find(o => o.id === id) ?? null;
+}
+
+// Create or replace (input is validated by the API route)
+export function saveOrganizer(organizer: Organizer): void {
+    getStorage().putDocument('organizers', organizer.id, organizer);
+}
+
+/**
+ * Remove an organizer from the list. Its events and their data stay in storage,
+ * so adding it back under the same ID restores them.
+ * The default organizer only falls back to its built-in URLs.
+ */
+export function deleteOrganizer(id: string): void {
+    getStorage().deleteDocument('organizers', id);
+}
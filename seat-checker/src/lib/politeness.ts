@@ -0,0 +1,217 @@
+import type { BrowserContext } from 'playwright';
+import type { SourceType } from './types';
+import { SOURCE_ADAPTERS } from './sources';
+import { getScrapeMode } from './scrapeRecorder';
+
+// Politeness towards the ticketing platforms. Every browser session on a platform (seat map
+// of one event, organizer listing) takes a slot of that platform's host group:
+//   concurrency   - sessions on the platform at once
+//   interval      - minimum time between the starts of two sessions (ms)
+//   jitter        - random extra delay added to each interval (ms)
+//   backoff       - pause after a 429/403 answer (ms), doubled for each next one, up to backoffMax
+// Platforms are independent, so several events are scraped at once without any platform
+// seeing more than its limit. Replayed sessions (SCRAPE_MODE=replay) are not limited.
+//
+// Konfiguracja (zmienne środowiskowe), np.:
+//   SCRAPE_POLICY=concurrency=1,interval=3000,jitter=2000           - wszystkie platformy
+//   SCRAPE_POLICY_EBILET=concurrency=2,interval=1500,backoff=60000  - jedna platforma
+
+export interface PolitenessPolicy {
+    concurrency: number;
+    interval: number;
+    jitter: number;
+    backoff: number;
+    backoffMax: number;
+}
+
+export const DEFAULT_POLICY: PolitenessPolicy = {
+    concurrency: 1,
+    interval: 3000,
+    jitter: 2000,
+    backoff: 30 * 1000,
+    backoffMax: 15 * 60 * 1000,
+};
+
+// Answers meaning "slow down" (403 is what the platforms' bot protection sends)
+const BLOCKED_STATUSES = [429, 403];
+// Only these resources count - a blocked tracking pixel says nothing
+const WATCHED_RESOURCE_TYPES = ['document', 'xhr', 'fetch'];
+
+interface HostState {
+    active: number;
+    waiting: Array<{ start: () => void }>;
+    nextStartAt: number;
+    backoffUntil: number;
+    backoffStreak: number;
+    // Blocked answers during the currently running sessions
+    blockedSinceRelease: boolean;
+    timer: NodeJS.Timeout | null;
+}
+
+// Survive hot-reload in development and share the limits between route bundles
+const globalForPoliteness = global as unknown as { _politeness: Map<SourceType, HostState> | undefined };
+
+function getHostState(source: SourceType): HostState {
+    if (!globalForPoliteness._politeness) globalForPoliteness._politeness = new Map();
+    const hosts = globalForPoliteness._politeness;
+    let state = hosts.get(source);
+    if (!state) {
+        state = { active: 0, waiting: [], nextStartAt: 0, backoffUntil: 0, backoffStreak: 0, blockedSinceRelease: false, timer: null };
+        hosts.set(source, state);
+    }
+    return state;
+}
+
+/**
+ * Parse "concurrency=2,interval=3000,..." over a base policy; unknown keys and invalid
+ * values are ignored with a warning.
+ */
+export function parsePolicy(value: string | undefined, base: PolitenessPolicy): PolitenessPolicy {
+    const policy = { ...base };
+    if (!value) return policy;
+
+    for (const part of value.split(',')) {
+        const [key, raw] = part.split('=').map(s => s.trim());
+        if (!key) continue;
+        const number = Number(raw);
+        if (!(key in policy) || raw === undefined || raw === '' || isNaN(number) || number < 0) {
+            console.warn(`Politeness: ignoring invalid policy entry "${part}"`);
+            continue;
+        }
+        policy[key as keyof PolitenessPolicy] = number;
+    }
+    policy.concurrency = Math.max(1, Math.floor(policy.concurrency));
+    return policy;
+}
+
+// Defaults < SCRAPE_POLICY < SCRAPE_POLICY_<SOURCE>
+export function getPolicy(source: SourceType): PolitenessPolicy {
+    const common = parsePolicy(process.env.SCRAPE_POLICY, DEFAULT_POLICY);
+    return parsePolicy(process.env[`SCRAPE_POLICY_${source.toUpperCase()}`], common);
+}
+
+// Pause after the n-th blocked answer in a row (n from 1)
+export function getBackoffDelay(policy: PolitenessPolicy, streak: number): number {
+    return Math.min(policy.backoff * Math.pow(2, Math.max(0, streak - 1)), policy.backoffMax);
+}
+
+function pumpHost(source: SourceType): void {
+    const state = getHostState(source);
+    const policy = getPolicy(source);
+
+    while (state.waiting.length > 0 && state.active < policy.concurrency) {
+        const wait = Math.max(state.nextStartAt, state.backoffUntil) - Date.now();
+        if (wait > 0) {
+            if (!state.timer) {
+                state.timer = setTimeout(() => {
+                    state.timer = null;
+                    pumpHost(source);
+                }, wait);
+            }
+            return;
+        }
+
+        const next = state.waiting.shift()!;
+        state.active++;
+        state.nextStartAt = Date.now() + policy.interval + Math.random() * policy.jitter;
+        next.start();
+    }
+}
+
+function acquireSlot(source: SourceType, signal?: AbortSignal): Promise<void> {
+    const state = getHostState(source);
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            const index = state.waiting.indexOf(entry);
+            if (index >= 0) state.waiting.splice(index, 1);
+            reject(new Error('Refresh cancelled'));
+        };
+        const entry = {
+            start: () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            },
+        };
+        if (signal?.aborted) return reject(new Error('Refresh cancelled'));
+        signal?.addEventListener('abort', onAbort, { once: true });
+        state.waiting.push(entry);
+        pumpHost(source);
+    });
+}
+
+function releaseSlot(source: SourceType): void {
+    const state = getHostState(source);
+    state.active--;
+    // A session without any blocked answer ends the backoff streak
+    if (!state.blockedSinceRelease) state.backoffStreak = 0;
+    state.blockedSinceRelease = false;
+    pumpHost(source);
+}
+
+/**
+ * Run one browser session on a platform within its politeness limits.
+ * Waiting for the slot ends with an error when the signal aborts.
+ */
+export async function withSourceSlot<T>(source: SourceType, session: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (getScrapeMode() === 'replay') return session();
+
+    await acquireSlot(source, signal);
+    try {
+        return await session();
+    } finally {
+        releaseSlot(source);
+    }
+}
+
+/**
+ * A platform answered 429/403: hold its next sessions back. Retry-After (ms) is respected
+ * when longer than the policy's backoff.
+ */
+export function reportBlocked(source: SourceType, status: number, retryAfterMs?: number): void {
+    const state = getHostState(source);
+    const policy = getPolicy(source);
+
+    // Several blocked requests of one session count once
+    if (!state.blockedSinceRelease) state.backoffStreak++;
+    state.blockedSinceRelease = true;
+
+    const delay = Math.max(getBackoffDelay(policy, state.backoffStreak), retryAfterMs ?? 0);
+    const until = Date.now() + delay;
+    if (until > state.backoffUntil) {
+        state.backoffUntil = until;
+        console.warn(`Politeness: ${source} answered ${status}, pausing new sessions for ${Math.round(delay / 1000)}s`);
+    }
+}
+
+function getSourceForUrl(url: string): SourceType | null {
+    let hostname: string;
+    try {
+        hostname = new URL(url).hostname;
+    } catch {
+        return null;
+    }
+    const adapter = SOURCE_ADAPTERS.find(a => a.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`)));
+    return adapter ? adapter.id : null;
+}
+
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Watch the answers a browser context gets and report 429/403 of the platforms' pages and APIs.
+ */
+export function watchBlockedResponses(context: BrowserContext): void {
+    if (getScrapeMode() === 'replay') return;
+
+    context.on('response', response => {
+        if (!BLOCKED_STATUSES.includes(response.status())) return;
+        if (!WATCHED_RESOURCE_TYPES.includes(response.request().resourceType())) return;
+        const source = getSourceForUrl(response.url());
+        if (source) reportBlocked(source, response.status(), parseRetryAfter(response.headers()['retry-after']));
+    });
+}
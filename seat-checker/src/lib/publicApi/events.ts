@@ -0,0 +1,79 @@
+import type { SourceType } from '../types';
+import { SOURCE_IDS } from '../sources/meta';
+import { loadEventsFromFile } from '../eventsFileCache';
+import { resolveEventId } from '../eventIdentity';
+import { canonicalCity } from '../eventMatch';
+import { getOrganizer } from '../organizers';
+import { loadFullStats } from '../fullStatsCache';
+import { loadStatsTimeSeries } from '../statsHistory';
+import { ApiError, paginate, parseDayParam, parsePageParams, parseTimeParam } from './request';
+import {
+    toApiEvent,
+    toApiEventStats,
+    toApiHistoryPoint,
+    type ApiEvent,
+    type ApiEventStats,
+    type ApiHistoryPoint,
+    type ApiPage,
+} from './schema';
+
+// Read-only queries behind the /api/v1/events routes
+
+/**
+ * Events of every organizer ordered by date and time.
+ * Filters: ?organizer=, ?from= / ?to= (event date), ?city= (any spelling), ?source=
+ */
+export function listEvents(params: URLSearchParams): ApiPage<ApiEvent> {
+    const organizerId = params.get('organizer');
+    if (organizerId && !getOrganizer(organizerId)) {
+        throw new ApiError(400, 'invalid_parameter', `Unknown organizer: ${organizerId}`);
+    }
+    const source = params.get('source');
+    if (source && !SOURCE_IDS.includes(source as SourceType)) {
+        throw new ApiError(400, 'invalid_parameter', `"source" must be one of: ${SOURCE_IDS.join(', ')}`);
+    }
+    const from = parseDayParam(params, 'from');
+    const to = parseDayParam(params, 'to');
+    const city = params.get('city') ? canonicalCity(params.get('city')!) : null;
+    const page = parsePageParams(params);
+
+    const events = loadEventsFromFile(organizerId || undefined)
+        .filter(event => !from || event.date >= from)
+        .filter(event => !to || event.date <= to)
+        .filter(event => !city || canonicalCity(event.cityOriginal || event.city) === city)
+        .filter(event => !source || event.sources[source as SourceType])
+        .sort((a, b) => `${a.date} ${a.time}`.localeCompare(`${b.date} ${b.time}`));
+
+    return paginate(events.map(toApiEvent), page);
+}
+
+export function getEvent(id: string): { data: ApiEvent } {
+    const eventId = resolveEventId(id);
+    const event = loadEventsFromFile().find(e => e.globalEventId === eventId);
+    if (!event) throw new ApiError(404, 'not_found', `Unknown event: ${id}`);
+    return { data: toApiEvent(event) };
+}
+
+// Latest stats; events gone from the list keep their stats
+export function getEventStats(id: string): { data: ApiEventStats } {
+    const eventId = resolveEventId(id);
+    const stats = loadFullStats(eventId);
+    if (!stats) throw new ApiError(404, 'not_found', `No stats for event: ${id}`);
+    return { data: toApiEventStats(eventId, stats) };
+}
+
+/**
+ * Stats time series, oldest first. ?from= / ?to= (date or ISO timestamp) plus pagination.
+ */
+export async function getEventHistory(id: string, params: URLSearchParams): Promise<ApiPage<ApiHistoryPoint>> {
+    const eventId = resolveEventId(id);
+    const from = parseTimeParam(params, 'from', false);
+    const to = parseTimeParam(params, 'to', true);
+    const page = parsePageParams(params);
+
+    const entries = await loadStatsTimeSeries(eventId, { from, to });
+    if (entries.length === 0 && !loadFullStats(eventId) && !loadEventsFromFile().some(e => e.globalEventId === eventId)) {
+        throw new ApiError(404, 'not_found', `Unknown event: ${id}`);
+    }
+    return paginate(entries.map(toApiHistoryPoint), page);
+}
@@ -0,0 +1,16 @@
+// Public read-only API (/api/v1): stable schemas, API keys, OpenAPI document.
+export { listEvents, getEvent, getEventStats, getEventHistory } from './events';
+export { handleApiRequest, ApiError } from './request';
+export { createApiKey, listApiKeys, revokeApiKey, verifyApiKey } from './keys';
+export type { ApiKeyRecord } from './keys';
+export { getOpenApiDocument } from './openapi';
+export { API_VERSION } from './schema';
+export type {
+    ApiEvent,
+    ApiEventSource,
+    ApiEventStats,
+    ApiSourceStats,
+    ApiHistoryPoint,
+    ApiSeatTotals,
+    ApiPage,
+} from './schema';
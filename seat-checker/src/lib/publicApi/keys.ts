@@ -0,0 +1,83 @@
+import crypto from 'crypto';
+import { getStorage } from '../storage';
+
+// API keys of the public API. Stored keys ("api_keys") are kept as SHA-256 hashes - the key
+// itself is shown once when created (scripts/api-keys.ts). PUBLIC_API_KEYS (comma-separated)
+// adds keys from the environment, e.g. for a container without a shell.
+
+const KEY_PREFIX = 'sck_';
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 10 * 60 * 1000;
+
+export interface ApiKeyRecord {
+    id: string;
+    name: string;
+    prefix: string;         // first characters of the key, to recognise it in the list
+    createdAt: string;
+    lastUsedAt?: string;
+}
+
+function hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+function getEnvKeys(): string[] {
+    return (process.env.PUBLIC_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+}
+
+export function createApiKey(name: string): { key: string; record: ApiKeyRecord } {
+    const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+    const record: ApiKeyRecord = {
+        id: crypto.randomBytes(4).toString('hex'),
+        name,
+        prefix: key.slice(0, KEY_PREFIX.length + 4),
+        createdAt: new Date().toISOString(),
+    };
+    getStorage().putDocument('api_keys', hashKey(key), record);
+    return { key, record };
+}
+
+export function listApiKeys(): ApiKeyRecord[] {
+    try {
+        return Object.values(getStorage().listDocuments<ApiKeyRecord>('api_keys'))
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    } catch (error) {
+        console.error('Error loading API keys:', error);
+        return [];
+    }
+}
+
+// False when no stored key has this ID
+export function revokeApiKey(id: string): boolean {
+    const storage = getStorage();
+    const entry = Object.entries(storage.listDocuments<ApiKeyRecord>('api_keys')).find(([, record]) => record.id === id);
+    if (!entry) return false;
+    storage.deleteDocument('api_keys', entry[0]);
+    return true;
+}
+
+/**
+ * The key's record, or null when the key is unknown.
+ */
+export function verifyApiKey(key: string): ApiKeyRecord | null {
+    const hash = hashKey(key);
+    const envIndex = getEnvKeys().findIndex(envKey => crypto.timingSafeEqual(Buffer.from(hashKey(envKey)), Buffer.from(hash)));
+    if (envIndex >= 0) {
+        return { id: `env-${envIndex + 1}`, name: 'PUBLIC_API_KEYS', prefix: key.slice(0, KEY_PREFIX.length + 4), createdAt: '' };
+    }
+
+    try {
+        const storage = getStorage();
+        const record = storage.getDocument<ApiKeyRecord>('api_keys', hash);
+        if (!record) return null;
+
+        const lastUsed = record.lastUsedAt ? new Date(record.lastUsedAt).getTime() : 0;
+        if (Date.now() - lastUsed > LAST_USED_RESOLUTION_MS) {
+            storage.putDocument('api_keys', hash, { ...record, lastUsedAt: new Date().toISOString() });
+        }
+        return record;
+    } catch (error) {
+        console.error('Error verifying API key:', error);
+        return null;
+    }
+}
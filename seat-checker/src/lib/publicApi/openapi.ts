@@ -0,0 +1,250 @@
+import { SOURCE_IDS } from '../sources/meta';
+import { API_VERSION } from './schema';
+
+// OpenAPI 3.0 description of the public API, served at /api/v1/openapi.json.
+// Keep in sync with schema.ts - every field there is documented here.
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({
+    description,
+    content: { 'application/json': { schema: ref('Error') } },
+});
+
+const pageOf = (item: string) => ({
+    type: 'object',
+    required: ['data', 'pagination'],
+    properties: {
+        data: { type: 'array', items: ref(item) },
+        pagination: ref('Pagination'),
+    },
+});
+
+const dataOf = (item: string) => ({
+    type: 'object',
+    required: ['data'],
+    properties: { data: ref(item) },
+});
+
+const jsonResponse = (description: string, schema: object) => ({
+    description,
+    content: { 'application/json': { schema } },
+});
+
+const pageParameters = [
+    { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 500, default: 50 } },
+    { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } },
+];
+
+const eventIdParameter = {
+    name: 'id',
+    in: 'path',
+    required: true,
+    description: 'Event ID; former IDs of an event (before a title or time change) are accepted',
+    schema: { type: 'string' },
+};
+
+const seatTotals = {
+    type: 'object',
+    required: ['total', 'free', 'taken'],
+    properties: {
+        total: { type: 'integer' },
+        free: { type: 'integer' },
+        taken: { type: 'integer' },
+    },
+};
+
+const perSourceCounts = {
+    type: 'object',
+    description: 'Seat count per platform',
+    additionalProperties: { type: 'integer' },
+};
+
+export function getOpenApiDocument(): object {
+    return {
+        openapi: '3.0.3',
+        info: {
+            title: 'Seat Checker API',
+            version: API_VERSION,
+            description: 'Read-only access to events, seat statistics and their history. '
+                + 'Responses of one version only gain new optional fields.',
+        },
+        servers: [{ url: `/api/${API_VERSION}` }],
+        security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+        paths: {
+            '/events': {
+                get: {
+                    summary: 'List events',
+                    description: 'Events of all organizers ordered by date and time.',
+                    parameters: [
+                        { name: 'organizer', in: 'query', schema: { type: 'string' } },
+                        { name: 'from', in: 'query', description: 'Earliest event date', schema: { type: 'string', format: 'date' } },
+                        { name: 'to', in: 'query', description: 'Latest event date', schema: { type: 'string', format: 'date' } },
+                        { name: 'city', in: 'query', description: 'City in any spelling (with or without Polish characters)', schema: { type: 'string' } },
+                        { name: 'source', in: 'query', description: 'Only events sold on this platform', schema: ref('Source') },
+                        ...pageParameters,
+                    ],
+                    responses: {
+                        200: jsonResponse('A page of events', pageOf('Event')),
+                        400: errorResponse('Invalid parameter'),
+                        401: errorResponse('Missing or invalid API key'),
+                    },
+                },
+            },
+            '/events/{id}': {
+                get: {
+                    summary: 'Get an event',
+                    parameters: [eventIdParameter],
+                    responses: {
+                        200: jsonResponse('The event', dataOf('Event')),
+                        401: errorResponse('Missing or invalid API key'),
+                        404: errorResponse('Unknown event'),
+                    },
+                },
+            },
+            '/events/{id}/stats': {
+                get: {
+                    summary: 'Latest seat statistics of an event',
+                    parameters: [eventIdParameter],
+                    responses: {
+                        200: jsonResponse('Statistics of the last refresh', dataOf('EventStats')),
+                        401: errorResponse('Missing or invalid API key'),
+                        404: errorResponse('Unknown event or never refreshed'),
+                    },
+                },
+            },
+            '/events/{id}/history': {
+                get: {
+                    summary: 'Seat statistics over time',
+                    description: 'One point per refresh, oldest first.',
+                    parameters: [
+                        eventIdParameter,
+                        { name: 'from', in: 'query', description: 'Date or ISO timestamp', schema: { type: 'string' } },
+                        { name: 'to', in: 'query', description: 'Date (whole day) or ISO timestamp', schema: { type: 'string' } },
+                        ...pageParameters,
+                    ],
+                    responses: {
+                        200: jsonResponse('A page of history points', pageOf('HistoryPoint')),
+                        400: errorResponse('Invalid parameter'),
+                        401: errorResponse('Missing or invalid API key'),
+                        404: errorResponse('Unknown event'),
+                    },
+                },
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: 'http', scheme: 'bearer' },
+                apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+            },
+            schemas: {
+                Source: { type: 'string', enum: SOURCE_IDS },
+                SeatTotals: seatTotals,
+                Event: {
+                    type: 'object',
+                    required: ['id', 'organizerId', 'title', 'date', 'time', 'city', 'sources'],
+                    properties: {
+                        id: { type: 'string' },
+                        organizerId: { type: 'string' },
+                        title: { type: 'string' },
+                        date: { type: 'string', format: 'date' },
+                        time: { type: 'string', pattern: '^\\d{2}:\\d{2}$' },
+                        city: { type: 'string' },
+                        sources: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                required: ['source', 'url', 'venue'],
+                                properties: {
+                                    source: ref('Source'),
+                                    url: { type: 'string', format: 'uri' },
+                                    venue: { type: 'string', nullable: true },
+                                },
+                            },
+                        },
+                    },
+                },
+                EventStats: {
+                    type: 'object',
+                    required: ['eventId', 'updatedAt', 'totals', 'sources', 'lastChange'],
+                    properties: {
+                        eventId: { type: 'string' },
+                        updatedAt: { type: 'string', format: 'date-time', nullable: true },
+                        totals: ref('SeatTotals'),
+                        sources: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                required: ['source', 'totals', 'sectors'],
+                                properties: {
+                                    source: ref('Source'),
+                                    totals: ref('SeatTotals'),
+                                    sectors: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            required: ['name', 'totals'],
+                                            properties: { name: { type: 'string' }, totals: ref('SeatTotals') },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                        lastChange: {
+                            type: 'object',
+                            nullable: true,
+                            description: 'Seats sold and returned in the last refresh',
+                            required: ['since', 'sold', 'returned'],
+                            properties: {
+                                since: { type: 'string', format: 'date-time' },
+                                sold: perSourceCounts,
+                                returned: perSourceCounts,
+                            },
+                        },
+                    },
+                },
+                HistoryPoint: {
+                    type: 'object',
+                    required: ['timestamp', 'taken', 'free', 'sources'],
+                    properties: {
+                        timestamp: { type: 'string', format: 'date-time' },
+                        taken: { type: 'integer' },
+                        free: { type: 'integer' },
+                        sources: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                required: ['source', 'taken', 'free'],
+                                properties: { source: ref('Source'), taken: { type: 'integer' }, free: { type: 'integer' } },
+                            },
+                        },
+                    },
+                },
+                Pagination: {
+                    type: 'object',
+                    required: ['total', 'limit', 'offset', 'nextOffset'],
+                    properties: {
+                        total: { type: 'integer' },
+                        limit: { type: 'integer' },
+                        offset: { type: 'integer' },
+                        nextOffset: { type: 'integer', nullable: true, description: 'Offset of the next page, null on the last one' },
+                    },
+                },
+                Error: {
+                    type: 'object',
+                    required: ['error'],
+                    properties: {
+                        error: {
+                            type: 'object',
+                            required: ['code', 'message'],
+                            properties: {
+                                code: { type: 'string', enum: ['unauthorized', 'not_found', 'invalid_parameter', 'internal_error'] },
+                                message: { type: 'string' },
+                            },
+                        },
+                    },
+                },
+            },
+        },
+    };
+}
@@ -0,0 +1,113 @@
+import type { ApiPage } from './schema';
+import { verifyApiKey } from './keys';
+
+// Request handling shared by the /api/v1 routes: API key check, query parameters,
+// pagination and the error format { error: { code, message } }.
+
+export type ApiErrorCode = 'unauthorized' | 'not_found' | 'invalid_parameter' | 'internal_error';
+
+const DEFAULT_PAGE_LIMIT = 50;
+const MAX_PAGE_LIMIT = 500;
+
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        readonly code: ApiErrorCode,
+        message: string
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+export interface PageParams {
+    limit: number;
+    offset: number;
+}
+
+// Key from "Authorization: Bearer <key>" or "X-API-Key: <key>"
+function authenticate(request: Request): void {
+    const authorization = request.headers.get('authorization');
+    const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const key = bearer || request.headers.get('x-api-key');
+    if (!key) {
+        throw new ApiError(401, 'unauthorized', 'API key required (Authorization: Bearer <key> or X-API-Key header)');
+    }
+    if (!verifyApiKey(key.trim())) {
+        throw new ApiError(401, 'unauthorized', 'Invalid API key');
+    }
+}
+
+/**
+ * Run a public API handler: authenticate, serialize its result, map errors to the v1 format.
+ */
+export async function handleApiRequest(
+    request: Request,
+    handler: (params: URLSearchParams) => unknown | Promise<unknown>
+): Promise<Response> {
+    try {
+        authenticate(request);
+        const body = await handler(new URL(request.url).searchParams);
+        return Response.json(body, { headers: { 'Cache-Control': 'no-store' } });
+    } catch (error) {
+        if (error instanceof ApiError) {
+            return Response.json(
+                { error: { code: error.code, message: error.message } },
+                { status: error.status, headers: error.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {} }
+            );
+        }
+        console.error('Public API error:', error);
+        return Response.json({ error: { code: 'internal_error', message: 'Internal error' } }, { status: 500 });
+    }
+}
+
+function parseNonNegativeInt(params: URLSearchParams, name: string, fallback: number): number {
+    const value = params.get(name);
+    if (value === null || value === '') return fallback;
+    if (!/^\d+$/.test(value)) throw new ApiError(400, 'invalid_parameter', `"${name}" must be a non-negative integer`);
+    return parseInt(value, 10);
+}
+
+// ?limit= (1-500, default 50) and ?offset=
+export function parsePageParams(params: URLSearchParams): PageParams {
+    const limit = parseNonNegativeInt(params, 'limit', DEFAULT_PAGE_LIMIT);
+    if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+        throw new ApiError(400, 'invalid_parameter', `"limit" must be between 1 and ${MAX_PAGE_LIMIT}`);
+    }
+    return { limit, offset: parseNonNegativeInt(params, 'offset', 0) };
+}
+
+export function paginate<T>(items: T[], page: PageParams): ApiPage<T> {
+    const end = page.offset + page.limit;
+    return {
+        data: items.slice(page.offset, end),
+        pagination: {
+            total: items.length,
+            limit: page.limit,
+            offset: page.offset,
+            nextOffset: end < items.length ? end : null,
+        },
+    };
+}
+
+// Date parameter (YYYY-MM-DD)
+export function parseDayParam(params: URLSearchParams, name: string): string | undefined {
+    const value = params.get(name);
+    if (!value) return undefined;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new ApiError(400, 'invalid_parameter', `"${name}" must be a date (YYYY-MM-DD)`);
+    }
+    return value;
+}
+
+// Date or ISO timestamp; a bare date used as the end of a range covers that whole day
+export function parseTimeParam(params: URLSearchParams, name: string, endOfDay: boolean): Date | undefined {
+    const value = params.get(name);
+    if (!value) return undefined;
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+    const date = new Date(isDateOnly ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}` : value);
+    if (isNaN(date.getTime())) {
+        throw new ApiError(400, 'invalid_parameter', `"${name}" must be a date (YYYY-MM-DD) or an ISO timestamp`);
+    }
+    return date;
+}
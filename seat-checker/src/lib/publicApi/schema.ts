@@ -0,0 +1,116 @@
+import type { CombinedEventStats, JoinedEvent, SourceType } from '../types';
+import type { StatsHistoryEntry } from '../statsHistory';
+import { SOURCE_IDS } from '../sources/meta';
+
+// Response schemas of the public API, version 1. They are derived from types.ts but kept
+// separate on purpose: internal types may change, these only get new optional fields.
+// The OpenAPI document (openapi.ts) describes the same shapes.
+
+export const API_VERSION = 'v1';
+
+export interface ApiSeatTotals {
+    total: number;
+    free: number;
+    taken: number;
+}
+
+export interface ApiEventSource {
+    source: SourceType;
+    url: string;
+    venue: string | null;
+}
+
+export interface ApiEvent {
+    id: string;
+    organizerId: string;
+    title: string;
+    date: string;           // YYYY-MM-DD
+    time: string;           // HH:MM
+    city: string;           // as listed, with Polish characters
+    sources: ApiEventSource[];
+}
+
+export interface ApiSourceStats {
+    source: SourceType;
+    totals: ApiSeatTotals;
+    sectors: Array<{ name: string; totals: ApiSeatTotals }>;
+}
+
+export interface ApiEventStats {
+    eventId: string;
+    updatedAt: string | null;
+    totals: ApiSeatTotals;
+    sources: ApiSourceStats[];
+    // Seats sold / returned in the last refresh, per platform
+    lastChange: {
+        since: string;
+        sold: Partial<Record<SourceType, number>>;
+        returned: Partial<Record<SourceType, number>>;
+    } | null;
+}
+
+export interface ApiHistoryPoint {
+    timestamp: string;
+    taken: number;
+    free: number;
+    sources: Array<{ source: SourceType; taken: number; free: number }>;
+}
+
+export interface ApiPage<T> {
+    data: T[];
+    pagination: {
+        total: number;
+        limit: number;
+        offset: number;
+        nextOffset: number | null;
+    };
+}
+
+export function toApiEvent(event: JoinedEvent): ApiEvent {
+    return {
+        id: event.globalEventId,
+        organizerId: event.organizerId,
+        title: event.title,
+        date: event.date,
+        time: event.time,
+        city: event.cityOriginal || event.city,
+        sources: SOURCE_IDS.filter(source => event.sources[source]).map(source => ({
+            source,
+            url: event.sources[source]!.eventCardUrl,
+            venue: event.sources[source]!.venue || null,
+        })),
+    };
+}
+
+export function toApiEventStats(eventId: string, stats: CombinedEventStats): ApiEventStats {
+    return {
+        eventId,
+        updatedAt: stats.lastFetched ?? null,
+        totals: { ...stats.combinedTotals },
+        sources: SOURCE_IDS.filter(source => stats.perSource[source]).map(source => {
+            const perSource = stats.perSource[source]!;
+            return {
+                source,
+                totals: { ...perSource.totals },
+                sectors: (perSource.sectors || []).map(sector => ({ name: sector.sectorName, totals: { ...sector.totals } })),
+            };
+        }),
+        lastChange: stats.diff ? {
+            since: stats.diff.lastUpdated,
+            sold: stats.diff.sold,
+            returned: stats.diff.returned || {},
+        } : null,
+    };
+}
+
+export function toApiHistoryPoint(entry: StatsHistoryEntry): ApiHistoryPoint {
+    const sources = SOURCE_IDS
+        .filter(source => entry.taken[source] !== undefined || entry.free[source] !== undefined)
+        .map(source => ({ source, taken: entry.taken[source] || 0, free: entry.free[source] || 0 }));
+    return {
+        timestamp: entry.timestamp,
+        taken: sources.reduce((acc, s) => acc + s.taken, 0),
+        free: sources.reduce((acc, s) => acc + s.free, 0),
+        sources,
+    };
+}
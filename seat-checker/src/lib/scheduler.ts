@@ -0,0 +1,201 @@
+import type { JoinedEvent } from './types';
+import { loadEventsFromFile } from './eventsFileCache';
+import { runStatsRefresh } from './jobs';
+import { runDueDigests } from './digest';
+import { retryQueuedNotifications } from './notifications';
+import { getStorage } from './storage';
+
+// Background monitoring: refreshes stats of every upcoming event from events_cache.json,
+// more often as the event gets closer, so Discord sale alerts arrive without the UI open.
+// Refreshes are jobs in the same queue as UI refreshes (lib/jobs); an event the UI is
+// already refreshing is not scraped twice. All due events are queued at once - the queue
+// and the per-platform limits (lib/politeness) decide how many run in parallel.
+// Every tick also sends the daily/weekly sales digests when due (digest/schedule.ts)
+// and retries Discord messages left in the queue by failed deliveries.
+//
+// Konfiguracja (zmienne środowiskowe):
+//   SCHEDULER_ENABLED=true        - włącza harmonogram (domyślnie wyłączony)
+//   SCHEDULER_CADENCE=1:15,3:30,14:120,*:360
+//                                 - "dni do wydarzenia:odstęp w minutach", ostatni wpis "*" dla pozostałych
+//   SCHEDULER_TICK_MS=60000       - jak często sprawdzamy, czy któreś wydarzenie wymaga odświeżenia
+
+
+const DEFAULT_CADENCE = '1:15,3:30,14:120,*:360';
+const DEFAULT_TICK_MS = 60 * 1000;
+
+interface CadenceTier {
+    maxDaysAhead: number; // Infinity for the catch-all tier
+    intervalMs: number;
+}
+
+export interface ScheduledEventState {
+    lastRefreshAt: string;
+    lastResult: 'ok' | 'error';
+    lastError?: string;
+}
+
+export interface SchedulerState {
+    lastTickAt: string | null;
+    events: Record<string, ScheduledEventState>;
+}
+
+// Survive hot-reload in development - only one scheduler per process
+const globalForScheduler = global as unknown as { _seatScheduler: NodeJS.Timeout | undefined };
+
+// Separate guards: a long refresh pass must not hold back digests and notification retries
+let refreshing = false;
+let maintaining = false;
+
+export function parseCadence(value: string): CadenceTier[] {
+    const tiers: CadenceTier[] = [];
+    for (const part of value.split(',')) {
+        const [days, minutes] = part.trim().split(':');
+        const intervalMinutes = parseFloat(minutes);
+        const maxDaysAhead = days === '*' ? Infinity : parseFloat(days);
+        if (isNaN(intervalMinutes) || intervalMinutes <= 0 || isNaN(maxDaysAhead)) {
+            console.warn(`Scheduler: ignoring invalid cadence entry "${part}"`);
+            continue;
+        }
+        tiers.push({ maxDaysAhead, intervalMs: intervalMinutes * 60 * 1000 });
+    }
+    return tiers.sort((a, b) => a.maxDaysAhead - b.maxDaysAhead);
+}
+
+function getCadence(): CadenceTier[] {
+    const tiers = parseCadence(process.env.SCHEDULER_CADENCE || DEFAULT_CADENCE);
+    return tiers.length > 0 ? tiers : parseCadence(DEFAULT_CADENCE);
+}
+
+// Event start in local time; date-only events count until the end of the day
+export function getEventStart(event: Pick<JoinedEvent, 'date' | 'time'>): Date | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(event.date)) return null;
+    const time = /^\d{2}:\d{2}$/.test(event.time) ? event.time : '23:59';
+    const start = new Date(`${event.date}T${time}:00`);
+    return isNaN(start.getTime()) ? null : start;
+}
+
+// Refresh interval for an event, null if it already started (or has no usable date)
+export function getRefreshInterval(event: Pick<JoinedEvent, 'date' | 'time'>, tiers: CadenceTier[], now: Date = new Date()): number | null {
+    const start = getEventStart(event);
+    if (!start || start.getTime() <= now.getTime()) return null;
+
+    const daysAhead = (start.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
+    const tier = tiers.find(t => daysAhead <= t.maxDaysAhead) ?? tiers[tiers.length - 1];
+    return tier.intervalMs;
+}
+
+export function loadSchedulerState(): SchedulerState {
+    try {
+        const state = getStorage().getDocument<SchedulerState>('state', 'scheduler_state');
+        if (state) return state;
+    } catch (error) {
+        console.warn('Scheduler: failed to load state:', error);
+    }
+    return { lastTickAt: null, events: {} };
+}
+
+function saveSchedulerState(state: SchedulerState) {
+    try {
+        getStorage().putDocument('state', 'scheduler_state', state);
+    } catch (error) {
+        console.error('Scheduler: failed to save state:', error);
+    }
+}
+
+// Upcoming events whose interval elapsed, most overdue first
+export function getDueEvents(events: JoinedEvent[], state: SchedulerState, tiers: CadenceTier[], now: Date = new Date()): JoinedEvent[] {
+    const due: Array<{ event: JoinedEvent; overdueMs: number }> = [];
+    for (const event of events) {
+        const interval = getRefreshInterval(event, tiers, now);
+        if (interval === null) continue;
+
+        const last = state.events[event.globalEventId];
+        const lastRefresh = last ? new Date(last.lastRefreshAt).getTime() : 0;
+        const overdueMs = now.getTime() - lastRefresh - interval;
+        if (overdueMs >= 0) due.push({ event, overdueMs });
+    }
+    return due.sort((a, b) => b.overdueMs - a.overdueMs).map(d => d.event);
+}
+
+// One scheduler pass: digests and notification retries, plus every due event through the job queue
+export async function runSchedulerTick(): Promise<void> {
+    await Promise.all([runMaintenance(), refreshDueEvents()]);
+}
+
+async function runMaintenance(): Promise<void> {
+    if (maintaining) return;
+    maintaining = true;
+
+    try {
+        await runDueDigests().catch(error => console.error('Digest: check failed:', error));
+        await retryQueuedNotifications();
+    } catch (error) {
+        console.error('Scheduler: notification retry failed:', error);
+    } finally {
+        maintaining = false;
+    }
+}
+
+async function refreshDueEvents(): Promise<void> {
+    if (refreshing) return;
+    refreshing = true;
+
+    try {
+        const state = loadSchedulerState();
+        const events = loadEventsFromFile();
+        const tiers = getCadence();
+        const dueEvents = getDueEvents(events, state, tiers);
+
+        // Forget events that are gone from the list or already took place
+        const upcomingIds = new Set(events.filter(e => getRefreshInterval(e, tiers) !== null).map(e => e.globalEventId));
+        for (const id of Object.keys(state.events)) {
+            if (!upcomingIds.has(id)) delete state.events[id];
+        }
+
+        state.lastTickAt = new Date().toISOString();
+        saveSchedulerState(state);
+
+        if (dueEvents.length > 0) {
+            console.log(`Scheduler: ${dueEvents.length} event(s) due for refresh`);
+        }
+
+        await Promise.all(dueEvents.map(async event => {
+            try {
+                await runStatsRefresh(event, { trigger: 'scheduler' });
+                state.events[event.globalEventId] = { lastRefreshAt: new Date().toISOString(), lastResult: 'ok' };
+            } catch (error) {
+                console.error(`Scheduler: refresh of ${event.globalEventId} failed:`, error);
+                // Still counts as an attempt - retry on the next interval, not on every tick
+                state.events[event.globalEventId] = {
+                    lastRefreshAt: new Date().toISOString(),
+                    lastResult: 'error',
+                    lastError: error instanceof Error ? error.message : String(error),
+                };
+            }
+            // Persist after every event so a restart does not re-scrape everything
+            saveSchedulerState(state);
+        }));
+    } catch (error) {
+        console.error('Scheduler: tick failed:', error);
+    } finally {
+        refreshing = false;
+    }
+}
+
+export function startScheduler(): void {
+    if (process.env.SCHEDULER_ENABLED !== 'true') return;
+    if (globalForScheduler._seatScheduler) return;
+
+    const tickMs = parseInt(process.env.SCHEDULER_TICK_MS || String(DEFAULT_TICK_MS), 10) || DEFAULT_TICK_MS;
+    console.log(`Scheduler: started (tick every ${tickMs / 1000}s, cadence ${process.env.SCHEDULER_CADENCE || DEFAULT_CADENCE})`);
+
+    globalForScheduler._seatScheduler = setInterval(runSchedulerTick, tickMs);
+    runSchedulerTick();
+}
+
+export function stopScheduler(): void {
+    if (globalForScheduler._seatScheduler) {
+        clearInterval(globalForScheduler._seatScheduler);
+        globalForScheduler._seatScheduler = undefined;
+    }
+}
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import path from 'path';
+import type { Browser, BrowserContext } from 'playwright';
+import { readJsonFile, writeJsonFileAtomic } from './storage';
+
+// Record & replay of Playwright scraping sessions (HAR archives).
+//   SCRAPE_MODE=record  - every response of a session is saved to <archive>/<session>.har
+//   SCRAPE_MODE=replay  - responses are served back from the archive, nothing goes to the network
+//   SCRAPE_ARCHIVE_DIR  - archive directory, default data/recordings
+// Without SCRAPE_MODE scraping runs live as usual.
+
+export type ScrapeMode = 'live' | 'record' | 'replay';
+
+// Images, styles and fonts are never needed for scraping
+const BLOCKED_RESOURCES = '**/*.{png,jpg,jpeg,gif,webp,svg,css,woff,woff2,ico,otf,ttf}';
+
+// Major version of the last launched Chromium, for plain HTTP requests (lib/httpClient)
+const globalForRecorder = global as unknown as { _chromiumMajor: string | undefined };
+// Until a browser was launched in this process
+const FALLBACK_CHROME_MAJOR = '131';
+
+// Desktop Chrome of the same major version as the launched Chromium (the headless default
+// says "HeadlessChrome"); BROWSER_USER_AGENT overrides it
+export function getUserAgent(browser?: Browser): string {
+    if (process.env.BROWSER_USER_AGENT) return process.env.BROWSER_USER_AGENT;
+    if (browser) globalForRecorder._chromiumMajor = browser.version().split('.')[0];
+    const major = globalForRecorder._chromiumMajor || FALLBACK_CHROME_MAJOR;
+    return `Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/${major}.0.0.0 Safari/537.36`;
+}
+
+// Register after any other routes of the context, so it wins over them (e.g. the HAR route)
+export async function blockUnneededResources(context: BrowserContext): Promise<void> {
+    await context.route(BLOCKED_RESOURCES, route => route.abort());
+}
+
+export function getScrapeMode(): ScrapeMode {
+    const mode = process.env.SCRAPE_MODE;
+    if (mode === 'record' || mode === 'replay') return mode;
+    return 'live';
+}
+
+function getArchiveDir(): string {
+    return process.env.SCRAPE_ARCHIVE_DIR
+        ? path.resolve(process.env.SCRAPE_ARCHIVE_DIR)
+        : path.join(process.cwd(), 'data', 'recordings');
+}
+
+function sanitizeSession(session: string): string {
+    return session.replace(/[^a-zA-Z0-9-_]/g, '_');
+}
+
+// One archive per scraping session, e.g. "events" or "event_<globalEventId>"
+export function getArchivePath(session: string): string {
+    return path.join(getArchiveDir(), `${sanitizeSession(session)}.har`);
+}
+
+// Session state that is not visible in the traffic but steers navigation
+export interface RecordedSessionMeta {
+    recordedAt: string;
+    // SmartCache URLs the scrapers started from (source -> url)
+    cachedUrls: Record<string, string | null>;
+}
+
+function getMetaPath(session: string): string {
+    return path.join(getArchiveDir(), `${sanitizeSession(session)}.meta.json`);
+}
+
+export function saveSessionMeta(session: string, meta: RecordedSessionMeta): void {
+    try {
+        writeJsonFileAtomic(getMetaPath(session), meta);
+    } catch (error) {
+        console.error(`Recorder: failed to save metadata for session "${session}":`, error);
+    }
+}
+
+export function loadSessionMeta(session: string): RecordedSessionMeta | null {
+    try {
+        return readJsonFile<RecordedSessionMeta>(getMetaPath(session));
+    } catch (error) {
+        console.warn(`Recorder: failed to load metadata for session "${session}":`, error);
+    }
+    return null;
+}
+
+/**
+ * New browser context for a scraping session.
+ * In record mode the HAR is written when the context is closed, so callers must always close it.
+ */
+export async function createScrapeContext(browser: Browser, session: string): Promise<BrowserContext> {
+    const mode = getScrapeMode();
+    const archivePath = getArchivePath(session);
+
+    if (mode === 'replay' && !fs.existsSync(archivePath)) {
+        throw new Error(`Replay: no recorded archive for session "${session}" (${archivePath})`);
+    }
+
+    if (mode === 'record') {
+        fs.mkdirSync(path.dirname(archivePath), { recursive: true });
+        console.log(`Recorder: recording session "${session}" to ${archivePath}`);
+    }
+
+    const context = await browser.newContext({
+        userAgent: getUserAgent(browser),
+        // Service worker traffic bypasses both HAR recording and routing
+        serviceWorkers: mode === 'live' ? 'allow' : 'block',
+        recordHar: mode === 'record' ? { path: archivePath, content: 'embed', mode: 'full' } : undefined,
+    });
+
+    if (mode === 'replay') {
+        console.log(`Recorder: replaying session "${session}" from ${archivePath}`);
+        // Requests missing from the archive are aborted - replay must never hit the network
+        await context.routeFromHAR(archivePath, { notFound: 'abort' });
+    }
+
+    // OPTIMIZATION: Block unnecessary resources
+    await blockUnneededResources(context);
+
+    return context;
+}
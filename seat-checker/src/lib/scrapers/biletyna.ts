@@ -1,10 +1,9 @@
 import type { Page } from 'playwright';
 import type { RawEvent } from '../types';
 
-const BILETYNA_URL = 'https://biletyna.pl/event/index/?q=Wikart#list';
-
-export async function scrapeBiletynaEvents(page: Page): Promise<RawEvent[]> {
-  await page.goto(BILETYNA_URL, { waitUntil: 'domcontentloaded', timeout: 60000 });
+// listingUrl - organizer search results, e.g. https://biletyna.pl/event/index/?q=Wikart#list
+export async function scrapeBiletynaEvents(page: Page, listingUrl: string): Promise<RawEvent[]> {
+  await page.goto(listingUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
 
   // Wait for event rows to load
   try {
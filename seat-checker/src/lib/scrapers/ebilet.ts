@@ -1,8 +1,6 @@
 import type { Page } from 'playwright';
 import type { RawEvent } from '../types';
 
-const EBILET_URL = 'https://www.ebilet.pl/organizatorzy/wikart-malgorzata-wnuk';
-
 async function dismissCookieDialog(page: Page): Promise<void> {
   const cookieSelectors = [
     '#CybotCookiebotDialogBodyButtonDecline',
@@ -33,8 +31,9 @@ async function dismissCookieDialog(page: Page): Promise<void> {
   });
 }
 
-export async function scrapeEbiletEvents(page: Page): Promise<RawEvent[]> {
-  await page.goto(EBILET_URL, { waitUntil: 'domcontentloaded', timeout: 60000 });
+// listingUrl - organizer page, e.g. https://www.ebilet.pl/organizatorzy/wikart-malgorzata-wnuk
+export async function scrapeEbiletEvents(page: Page, listingUrl: string): Promise<RawEvent[]> {
+  await page.goto(listingUrl, { waitUntil: 'domcontentloaded', timeout: 60000 });
 
   // Wait for Angular to render
   try {
@@ -163,7 +162,7 @@ export async function scrapeEbiletEvents(page: Page): Promise<RawEvent[]> {
     city: normalizeCity(e.city),
     cityOriginal: e.city.trim(), // Keep original with Polish chars for URL
     venue: e.venue,
-    eventCardUrl: e.url || EBILET_URL,
+    eventCardUrl: e.url || listingUrl,
     buyButtonSelector: 'eb-button, .eb-btn, button[class*="btn"], a[href*="/bilety/"]',
   }));
 }
@@ -1,49 +1,43 @@
-import { type Browser, type Page } from 'playwright';
-import type { RawEvent, SourceType, ScrapeResult } from '../types';
-import { getGlobalBrowser } from '../globalBrowser';
-import { scrapeBiletynaEvents } from './biletyna';
-import { scrapeEbiletEvents } from './ebilet';
-import { scrapeKupbilecikEvents } from './kupbilecik';
+import { type BrowserContext, type Page } from 'playwright';
+import type { Organizer, RawEvent, SourceType, ScrapeResult } from '../types';
+import { withSessionContext, withSourceContext } from '../globalBrowser';
+import { getScrapeMode } from '../scrapeRecorder';
+import { SOURCE_ADAPTERS, type SourceAdapter } from '../sources';
+import { withSourceSlot } from '../politeness';
 
 
 
-export async function scrapeAllEvents(): Promise<ScrapeResult[]> {
+// Scrapes the listings of one organizer; platforms without a listing URL are skipped
+export async function scrapeAllEvents(organizer: Organizer): Promise<ScrapeResult[]> {
   const results: ScrapeResult[] = [];
+  const adapters = SOURCE_ADAPTERS.filter(adapter => organizer.listingUrls[adapter.id]);
 
   try {
-    const browser = await getGlobalBrowser();
-
-    const context = await browser.newContext({
-      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    });
-
-    // OPTIMIZATION: Block unnecessary resources for faster scraping
-    await context.route('**/*.{png,jpg,jpeg,gif,webp,svg,css,woff,woff2,ico,otf,ttf}', route => route.abort());
-
-    // Scrape all sources in parallel using separate pages
-    const [biletynaPage, ebiletPage, kupbilecikPage] = await Promise.all([
-      context.newPage(),
-      context.newPage(),
-      context.newPage(),
-    ]);
+    // Pages are closed by the pool when the context is handed back
+    const scrapeListing = (adapter: SourceAdapter, context: BrowserContext) =>
+      context.newPage().then(page =>
+        scrapeSource(adapter.id, page, page => adapter.scrapeEvents(page, organizer.listingUrls[adapter.id]!))
+      );
 
     // 4. Uruchamiamy wszystkie scrapery równolegle (Promise.all)
-    const scrapePromises = [
-      scrapeSource('biletyna', biletynaPage, scrapeBiletynaEvents),
-      scrapeSource('ebilet', ebiletPage, scrapeEbiletEvents),
-      scrapeSource('kupbilecik', kupbilecikPage, scrapeKupbilecikEvents),
-    ];
-
-    const scrapeResults = await Promise.all(scrapePromises);
-    results.push(...scrapeResults);
+    // Listings share the platforms' politeness limits with the seat scrapes. Live scrapes use the
+    // pooled context of each platform; SCRAPE_MODE records/replays one context for the whole session
+    const scrapeResults = getScrapeMode() === 'live'
+      ? await Promise.all(adapters.map(adapter =>
+        withSourceSlot(adapter.id, () => withSourceContext(adapter.id, context => scrapeListing(adapter, context)))
+      ))
+      : await withSessionContext(`events_${organizer.id}`, context => Promise.all(adapters.map(adapter =>
+        withSourceSlot(adapter.id, () => scrapeListing(adapter, context))
+      )));
 
-    // IMPORTANT: Close context to free memory, but KEEP BROWSER OPEN
-    await context.close();
+    results.push(...scrapeResults.map(result => ({
+      ...result,
+      events: result.events.map(event => ({ ...event, organizerId: organizer.id })),
+    })));
 
   } catch (error) {
     console.error('Error during scraping:', error);
   }
-  // removed browser.close()
 
   return results;
 }
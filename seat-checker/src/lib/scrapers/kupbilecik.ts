@@ -1,8 +1,6 @@
 import type { Page } from 'playwright';
 import type { RawEvent } from '../types';
 
-const KUPBILECIK_URL = 'https://wikart.kupbilecik.pl/';
-
 interface JsonLdEvent {
   '@type': string;
   name: string;
@@ -23,7 +21,8 @@ interface JsonLdOrganization {
   event?: JsonLdEvent[];
 }
 
-export async function scrapeKupbilecikEvents(page: Page): Promise<RawEvent[]> {
+// listingUrl - organizer subdomain, e.g. https://wikart.kupbilecik.pl/
+export async function scrapeKupbilecikEvents(page: Page, listingUrl: string): Promise<RawEvent[]> {
   const allEvents: Array<{
     title: string;
     date: string;
@@ -33,7 +32,7 @@ export async function scrapeKupbilecikEvents(page: Page): Promise<RawEvent[]> {
     url: string;
   }> = [];
 
-  let currentUrl = KUPBILECIK_URL;
+  let currentUrl = listingUrl;
   let pageNum = 1;
   const maxPages = 10; // Safety limit
 
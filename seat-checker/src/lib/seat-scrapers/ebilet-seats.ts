@@ -12,6 +12,21 @@ export interface EbiletFreeSeatsResponse {
     err: string | null;
 }
 
+export interface EbiletArrangementsResponse {
+    s?: Array<{ id: string; n: string; c: number | unknown[] }>; // sectors; c = capacity or list of seats
+}
+
+// Extract sector capacities from arrangements.json (used when seat geometry is lazy-loaded)
+export function parseEbiletArrangements(data: EbiletArrangementsResponse): Record<string, { id: string, n: string, c: number }> {
+    const sectorCapacities: Record<string, { id: string, n: string, c: number }> = {};
+    if (data.s && Array.isArray(data.s)) {
+        data.s.forEach((sec) => {
+            sectorCapacities[sec.id] = { id: sec.id, n: sec.n, c: typeof sec.c === 'number' ? sec.c : (Array.isArray(sec.c) ? sec.c.length : 0) };
+        });
+    }
+    return sectorCapacities;
+}
+
 // Process eBilet data from multiple seats responses and ONE freeseats response
 // seatsBySid: Map of sector ID -> seats data
 // freeSeatsData: Single response containing sfs with all sectors
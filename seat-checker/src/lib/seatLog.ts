@@ -0,0 +1,81 @@
+import type { SourceType } from './types';
+import { getStorage } from './storage';
+import { loadHistory, type SeatHistory } from './history';
+import { loadSoldHistory, type SoldHistory } from './soldHistory';
+
+// Event-sourced log of seat status transitions, one append-only log per event.
+// The free-seat map, the cumulative sold map and the per-refresh diff are all derived from it.
+//   appeared - seat became free on a platform for the first time
+//   moved    - seat left one platform but is free on another (not a sale)
+//   sold     - seat disappeared from every platform
+//   returned - previously sold seat is free again
+export type SeatTransitionType = 'appeared' | 'moved' | 'sold' | 'returned';
+
+export interface SeatTransition {
+    // "SectorName:Row-Seat"
+    seat: string;
+    type: SeatTransitionType;
+    // Platform the seat is on after the transition (for "sold": where it was sold)
+    source: SourceType;
+    // Previous platform for "moved" and "returned"
+    from?: SourceType;
+    timestamp: string;
+    // Entry reconstructed from the pre-log history files
+    migrated?: boolean;
+}
+
+// State after replaying the log
+export interface SeatLogState {
+    free: SeatHistory;
+    sold: SoldHistory;
+}
+
+// Events refreshed before the log existed: rebuild it from history/ and sold_history/
+async function loadLegacyTransitions(eventId: string): Promise<SeatTransition[]> {
+    const [free, sold] = await Promise.all([loadHistory(eventId), loadSoldHistory(eventId)]);
+    const timestamp = new Date().toISOString();
+    const transitions: SeatTransition[] = [];
+
+    for (const [seat, source] of Object.entries(sold)) {
+        // A seat free again after the sale is only "free" now
+        if (!free[seat]) transitions.push({ seat, type: 'sold', source, timestamp, migrated: true });
+    }
+    for (const [seat, source] of Object.entries(free)) {
+        transitions.push({ seat, type: 'appeared', source, timestamp, migrated: true });
+    }
+    return transitions;
+}
+
+// Full log of an event in chronological order
+export async function loadSeatLog(eventId: string): Promise<SeatTransition[]> {
+    try {
+        const storage = getStorage();
+        if (!storage.hasLog('seat_log', eventId)) return await loadLegacyTransitions(eventId);
+        return storage.readLog<SeatTransition>('seat_log', eventId);
+    } catch (error) {
+        console.error('Error loading seat log:', error);
+        return [];
+    }
+}
+
+export async function appendSeatLog(eventId: string, transitions: SeatTransition[]): Promise<void> {
+    try {
+        const storage = getStorage();
+        let entries = transitions;
+        if (!storage.hasLog('seat_log', eventId)) {
+            // First write - keep what the legacy history files knew
+            entries = [...await loadLegacyTransitions(eventId), ...transitions];
+        }
+        storage.appendLog('seat_log', eventId, entries);
+    } catch (error) {
+        console.error('Error saving seat log:', error);
+    }
+}
+
+export async function clearSeatLog(eventId: string): Promise<void> {
+    try {
+        getStorage().deleteLog('seat_log', eventId);
+    } catch (error) {
+        console.error('Error clearing seat log:', error);
+    }
+}
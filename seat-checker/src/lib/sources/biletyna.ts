@@ -0,0 +1,253 @@
+import * as cheerio from 'cheerio';
+import type { SectorStats, SourceStats } from '../types';
+import type { SourceAdapter, SeatScrapeSession, SeatFetchSession } from './types';
+import { SOURCE_META } from './meta';
+import { scrapeBiletynaEvents } from '../scrapers/biletyna';
+import {
+    parseBiletynaSeats,
+    parseBiletynaSectorSeats,
+    combineBiletynaSectors,
+    type BiletynaSectorResult
+} from '../seat-scrapers/biletyna-seats';
+import { matchSectorByStructure } from '../seat-scrapers/utils';
+
+// Raw seat-map HTML captured from Biletyna
+export interface BiletynaRawData {
+    // Single sector / direct map page
+    mapHtml?: string;
+    // Multi-sector events: one page per WYBIERZ link that rendered a seat map
+    sectorPages: Array<{ sectorUrl: string; html: string }>;
+    finalUrl: string;
+}
+
+async function acquireBiletynaSeats(session: SeatScrapeSession): Promise<BiletynaRawData | null> {
+    const { context, sourceData, cachedUrl } = session;
+    const page = await context.newPage();
+
+    let mapHtml: string | undefined;
+    let finalUrl = '';
+    const sectorPages: BiletynaRawData['sectorPages'] = [];
+
+    // Block heavy media resources for speed
+    try {
+        await page.route('**/*.{png,jpg,jpeg,gif,webp,svg,mp4,webm}', route => route.abort());
+    } catch { }
+
+    try {
+        // 1. Try Cached URL First
+        if (cachedUrl) {
+            console.log(`Biletyna: SmartCache hit, trying ${cachedUrl}...`);
+            try {
+                await page.goto(cachedUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+
+                // Validate if we are really on a sector page or seat map
+                try {
+                    // Check for seats container OR sector selector
+                    await page.waitForSelector('.place, [data-place_status], .sectors', { timeout: 5000 });
+
+                    // If successful, capture data
+                    const html = await page.content();
+                    // Try single sector parse first
+                    if (parseBiletynaSeats(html)) {
+                        // Single sector / direct map
+                        mapHtml = html;
+                        finalUrl = page.url();
+                        console.log('Biletyna: SmartCache success (Single/Map)!');
+                    } else {
+                        // Maybe multi-sector list?
+                        const sectorUrls = await page.$$eval('a[href*="/event/sector/"]', els => els.map(e => (e as HTMLAnchorElement).href));
+                        if (sectorUrls.length > 0) {
+                            // Cache stores the *final* URL. If final URL was the list, we are back to square one.
+                            console.log('Biletyna: SmartCache led to sector list, proceeding with standard logic');
+                        } else {
+                            console.log('Biletyna: SmartCache validation failed (no stats), clearing cache');
+                            session.invalidateCachedUrl();
+                        }
+                    }
+                } catch {
+                    console.log('Biletyna: SmartCache validation failed (selector not found)');
+                    session.invalidateCachedUrl();
+                }
+            } catch (e) {
+                console.log('Biletyna: SmartCache navigation failed:', e);
+            }
+        }
+
+        if (!mapHtml) {
+            // 2. Standard Logic (Fallback)
+            console.log(`Biletyna: Starting standard navigation to ${sourceData.eventCardUrl}`);
+            await page.goto(sourceData.eventCardUrl, {
+                waitUntil: 'domcontentloaded',
+                timeout: 30000,
+            });
+
+            // Dismiss cookie dialog first
+            try {
+                await page.evaluate(() => {
+                    const dialog = document.getElementById('CybotCookiebotDialog');
+                    if (dialog) dialog.remove();
+                    const underlay = document.getElementById('CybotCookiebotDialogBodyUnderlay');
+                    if (underlay) underlay.remove();
+                });
+            } catch {
+                // Ignore
+            }
+
+            // Find all WYBIERZ sector links
+            const sectorUrls = await page.evaluate(() => {
+                const links: string[] = [];
+                const anchors = document.querySelectorAll('a');
+                anchors.forEach(a => {
+                    const text = a.textContent?.trim().toUpperCase();
+                    if (text === 'WYBIERZ' && a.href?.includes('/event/sector/')) {
+                        links.push(a.href);
+                    }
+                });
+                return links;
+            });
+
+            // Multi-sector: navigate to each sector URL and collect data
+            if (sectorUrls.length > 1) {
+                for (const sectorUrl of sectorUrls) {
+                    try {
+                        await page.waitForTimeout(1500);
+                        await page.goto(sectorUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+
+                        // Wait dynamically for seat map
+                        try {
+                            await page.waitForSelector('.place, [data-place_status]', { state: 'attached', timeout: 8000 });
+                        } catch {
+                            // No seats on this sector
+                            continue;
+                        }
+
+                        sectorPages.push({ sectorUrl, html: await page.content() });
+                    } catch {
+                        // Skip failed sector
+                    }
+                }
+            } else {
+                // Single sector or no WYBIERZ buttons - use old logic
+                // Try to click "Kup bilet" button
+                try {
+                    const buyButton = await page.$(sourceData.buyButtonSelector);
+                    if (buyButton) {
+                        await buyButton.click();
+                    }
+                } catch {
+                    // Continue anyway
+                }
+
+                // If there's exactly one WYBIERZ, navigate to it
+                if (sectorUrls.length === 1) {
+                    try {
+                        await page.goto(sectorUrls[0], { waitUntil: 'domcontentloaded', timeout: 30000 });
+                        await page.waitForTimeout(2000);
+                    } catch {
+                        // Ignore
+                    }
+                }
+
+                // Wait for seat map
+                try {
+                    await page.waitForSelector('.place, [data-place_status]', { timeout: 10000 });
+                } catch {
+                    // Continue anyway
+                }
+                finalUrl = page.url();
+                mapHtml = await page.content();
+            }
+        }
+    } finally {
+        await page.close();
+    }
+
+    if (sectorPages.length > 0) {
+        return { sectorPages, finalUrl: sourceData.eventCardUrl };
+    }
+    return mapHtml ? { mapHtml, sectorPages, finalUrl } : null;
+}
+
+// HTTP fast path: seat maps are server-rendered HTML. The cached map page first, then the
+// WYBIERZ sector pages of the event card; single-sector cards need the buy button - browser only
+async function fetchBiletynaSeats(session: SeatFetchSession): Promise<BiletynaRawData | null> {
+    const { http, sourceData, cachedUrl } = session;
+
+    if (cachedUrl) {
+        const page = await http.text(cachedUrl);
+        if (parseBiletynaSeats(page.body)) return { mapHtml: page.body, sectorPages: [], finalUrl: page.url };
+    }
+
+    const card = await http.text(sourceData.eventCardUrl);
+    const $ = cheerio.load(card.body);
+    const sectorUrls: string[] = [];
+    $('a').each((_, a) => {
+        const href = $(a).attr('href');
+        if ($(a).text().trim().toUpperCase() === 'WYBIERZ' && href?.includes('/event/sector/')) {
+            sectorUrls.push(new URL(href, card.url).href);
+        }
+    });
+    if (sectorUrls.length <= 1) return null;
+
+    const sectorPages: BiletynaRawData['sectorPages'] = [];
+    for (const sectorUrl of sectorUrls) {
+        // Same pace as the browser between sector pages
+        await http.pause(1500);
+        const page = await http.text(sectorUrl, { referer: card.url });
+        // Sectors without a seat map are skipped, like in the browser
+        if (cheerio.load(page.body)('.place, [data-place_status]').length > 0) {
+            sectorPages.push({ sectorUrl, html: page.body });
+        }
+    }
+    return sectorPages.length > 0 ? { sectorPages, finalUrl: sourceData.eventCardUrl } : null;
+}
+
+// Pure stage: parse captured HTML and name sectors after kupbilecik
+function processBiletynaSeats(raw: BiletynaRawData, referenceSectors?: SectorStats[]): SourceStats | null {
+    // Multi-sector combine
+    const sectorResults: Array<{ sectorUrl: string; data: BiletynaSectorResult }> = [];
+    for (const { sectorUrl, html } of raw.sectorPages) {
+        const sectorData = parseBiletynaSectorSeats(html);
+        if (sectorData && sectorData.freeSeats.length + sectorData.takenSeats.length > 0) {
+            sectorResults.push({ sectorUrl, data: sectorData });
+        }
+    }
+    if (sectorResults.length > 0) {
+        const stats = combineBiletynaSectors(sectorResults, referenceSectors);
+        if (stats) stats.finalUrl = raw.finalUrl;
+        return stats;
+    }
+
+    const singleStats = raw.mapHtml ? parseBiletynaSeats(raw.mapHtml) : null;
+    if (!singleStats) return null;
+    singleStats.finalUrl = raw.finalUrl;
+
+    // SMART-CACHE FLOW: Match the solitary Biletyna sector against KupBilecik geometries now that they are downloaded
+    if (singleStats.sectors && referenceSectors) {
+        for (const bSector of singleStats.sectors) {
+            if (!referenceSectors.find(k => k.sectorName === bSector.sectorName)) {
+                const matched = matchSectorByStructure(new Map(Object.entries(bSector.rows)), referenceSectors, new Set());
+                if (matched) {
+                    bSector.sectorName = matched.sectorName;
+                }
+            }
+        }
+    }
+
+    return singleStats;
+}
+
+export const biletynaSource: SourceAdapter<BiletynaRawData> = {
+    id: 'biletyna',
+    meta: SOURCE_META.biletyna,
+    hosts: ['biletyna.pl'],
+    scrapeEvents: scrapeBiletynaEvents,
+    acquireSeats: acquireBiletynaSeats,
+    fetchSeats: fetchBiletynaSeats,
+    processSeats: processBiletynaSeats,
+    urlCache: {
+        // Multi-sector events end on the event card itself - nothing to gain from caching it
+        shouldCache: (finalUrl, _stats, sourceData) =>
+            finalUrl.includes('biletyna.pl') && finalUrl !== sourceData.eventCardUrl,
+    },
+};
@@ -0,0 +1,568 @@
+import type { SectorStats, SourceStats } from '../types';
+import type { SourceAdapter, SeatScrapeSession, SeatFetchSession } from './types';
+import { SOURCE_META } from './meta';
+import { endpointFromRequest } from './endpoints';
+import { scrapeEbiletEvents } from '../scrapers/ebilet';
+import {
+    processEbiletAllSectors,
+    parseEbiletArrangements,
+    type EbiletSeatsResponse,
+    type EbiletFreeSeatsResponse
+} from '../seat-scrapers/ebilet-seats';
+
+// Raw JSON payloads intercepted from the eBilet shop
+export interface EbiletRawData {
+    // seats.json per sector ID (sid)
+    seatsBySid: Record<string, EbiletSeatsResponse>;
+    // freeseats responses combined across sectors
+    freeSeatsData: EbiletFreeSeatsResponse & { sfc?: Record<string, number> };
+    // arrangements.json sector capacities
+    sectorCapacities?: Record<string, { id: string, n: string, c: number }>;
+    currentUrl: string;
+}
+
+type SectorCapacities = Record<string, { id: string, n: string, c: number }>;
+
+/**
+ * Add one getsectorfreeseats answer to the combined availability - each answer may cover other
+ * sectors. Returns the format it came in (sfs: seat lists, sfc: lazy-loaded counts), null if neither.
+ */
+function mergeFreeSeats(
+    data: Partial<EbiletRawData['freeSeatsData']> | null,
+    combinedSfs: Record<string, Array<{ s: string[] }>>,
+    combinedSfc: Record<string, number>
+): 'sfs' | 'sfc' | null {
+    // Lazy shops answer with an empty sfs next to the counts
+    if (data?.sfs && Object.keys(data.sfs).length > 0 && data.err === null) {
+        for (const sid of Object.keys(data.sfs)) {
+            if (!combinedSfs[sid]) {
+                combinedSfs[sid] = [];
+            }
+            combinedSfs[sid].push(...(data.sfs[sid] || []));
+        }
+        return 'sfs';
+    }
+    if (data?.sfc) {
+        // New Lazy Loaded Map format
+        Object.assign(combinedSfc, data.sfc);
+        return 'sfc';
+    }
+    return null;
+}
+
+// Seat geometry with availability, or capacities with lazy counts - anything less is unusable
+function buildEbiletRawData(
+    seatsBySid: Map<string, EbiletSeatsResponse>,
+    combinedSfs: Record<string, Array<{ s: string[] }>>,
+    combinedSfc: Record<string, number>,
+    sectorCapacities: SectorCapacities,
+    currentUrl: string
+): EbiletRawData | null {
+    const hasSeats = seatsBySid.size > 0 && Object.keys(combinedSfs).length > 0;
+    const hasCounts = Object.keys(sectorCapacities).length > 0 && Object.keys(combinedSfc).length > 0;
+    if (!hasSeats && !hasCounts) return null;
+    return {
+        seatsBySid: Object.fromEntries(seatsBySid),
+        freeSeatsData: { sfs: combinedSfs, sfc: combinedSfc, err: null },
+        sectorCapacities,
+        currentUrl
+    };
+}
+
+async function acquireEbiletSeats(session: SeatScrapeSession): Promise<EbiletRawData | null> {
+    const { context, event, sourceData, cachedUrl } = session;
+    const page = await context.newPage();
+
+    let rawData: EbiletRawData | null = null;
+
+
+    // Capture seats by sector ID (sid) - each seats.json is for one sector
+    const seatsBySid = new Map<string, EbiletSeatsResponse>();
+    // Capture ALL freeseats responses and combine - each may contain different sectors
+    const combinedSfs: Record<string, Array<{ s: string[] }>> = {};
+    const combinedSfc: Record<string, number> = {};
+    // Capture tour arrangements to find specific event IDs
+    let tourArrangements: { events?: Array<{ id: string; venue?: string; city?: string; date?: string }> } | null = null;
+    const sectorCapacities: SectorCapacities = {};
+    // Capture checkFreeSeats response - contains direct shop URL
+    let checkFreeSeatsUrl: string | null = null;
+
+    // Intercept responses
+    page.on('response', async (response) => {
+        const url = response.url();
+        try {
+            // Capture checkFreeSeats - contains decryptedEventId for shop URL
+            if (url.includes('/api/event/checkfreeseats')) {
+                const data = await response.json();
+                if (data && data.url) {
+                    checkFreeSeatsUrl = 'https://sklep.ebilet.pl' + data.url;
+                    console.log(`[DEBUG eBilet] Intercepted checkfreeseats! URL: ${checkFreeSeatsUrl}`);
+                }
+            }
+            if (url.includes('/api/event/geteventfreeseats')) {
+                const data = await response.json();
+                if (data && data.url) {
+                    checkFreeSeatsUrl = 'https://sklep.ebilet.pl' + data.url;
+                    console.log(`[DEBUG eBilet] Intercepted geteventfreeseats! URL: ${checkFreeSeatsUrl}`);
+                }
+            }
+            if (url.includes('/storage/seats/') && url.includes('.json')) {
+                console.log(`[DEBUG eBilet] Intercepted seats.json URL: ${url}`);
+                const data = await response.json();
+                if (data?.sid && data?.s) {
+                    seatsBySid.set(data.sid, data);
+                    session.rememberEndpoint(endpointFromRequest('seats', response.request()));
+                    console.log(`[DEBUG eBilet] Successfully captured seats for sector sid=${data.sid}. Total sectors captured now: ${seatsBySid.size}`);
+                } else {
+                    console.log(`[DEBUG eBilet] Warning: intercepted seats.json but it lacked 'sid' or 's' data.`);
+                }
+            }
+            // Capture arrangements.json for tour pages
+            if (url.includes('/storage/arrangements/') && url.includes('.json')) {
+                const data = await response.json();
+                if (data) {
+                    tourArrangements = data;
+                    console.log(`[DEBUG eBilet] Captured tour arrangements.json`);
+                    if (data.s && Array.isArray(data.s)) {
+                        Object.assign(sectorCapacities, parseEbiletArrangements(data));
+                        session.rememberEndpoint(endpointFromRequest('arrangements', response.request()));
+                        console.log(`[DEBUG eBilet] Parsed ${Object.keys(sectorCapacities).length} sectors from arrangements.json`);
+                    }
+                }
+            }
+            if (url.includes('/api/event/getsectorfreeseats') || url.includes('getsectorfreeseats')) {
+                console.log(`[DEBUG eBilet] Intercepted getsectorfreeseats URL: ${url}`);
+                const data = await response.json();
+                const format = mergeFreeSeats(data, combinedSfs, combinedSfc);
+                if (format) session.rememberEndpoint(endpointFromRequest('freeseats', response.request()));
+                if (format === 'sfs') {
+                    console.log(`[DEBUG eBilet] Successfully processed getsectorfreeseats. Added data for ${Object.keys(data.sfs).length} sectors.`);
+                } else if (format === 'sfc') {
+                    console.log(`[DEBUG eBilet] Captured sfc lazy-load data for ${Object.keys(data.sfc).length} sectors.`);
+                } else {
+                    console.log(`[DEBUG eBilet] Warning: intercepted getsectorfreeseats but data was missing expected keys or threw error. data.err: ${data?.err}`);
+                }
+            }
+            // Capture checkFreeSeats - contains decryptedEventId for shop URL
+            if (url.includes('/api/Title/checkFreeSeats')) {
+                try {
+                    const data = await response.json();
+                    const item = Array.isArray(data) ? data[0] : data;
+                    if (item?.decryptedEventId) {
+                        checkFreeSeatsUrl = `https://sklep.ebilet.pl/${item.decryptedEventId}`;
+                    }
+                } catch { }
+            }
+        } catch { }
+    });
+
+    try {
+        let currentUrl = '';
+        let skipStandard = false;
+
+        // 1. Try Cached URL First
+        if (cachedUrl) {
+            console.log(`eBilet: SmartCache hit, trying ${cachedUrl}...`);
+            try {
+                await page.goto(cachedUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+
+                // SMART WAIT STRATEGY FOR CACHED URL
+                let waitTime = 0;
+                while (waitTime < 5000) {
+                    const capCount = Object.keys(sectorCapacities).length;
+                    const geomCount = seatsBySid.size;
+                    const sfsCount = Object.keys(combinedSfs).length;
+                    const sfcCount = Object.keys(combinedSfc).length;
+
+                    // We know capacity count from arrangements.json (loaded instantly). 
+                    // We need geomCount (sfs schema) OR sfcCount (lazy schema) to match capCount.
+                    if (capCount > 0 && ((geomCount > 0 && geomCount >= capCount) || (sfcCount > 0 && sfcCount >= capCount))) {
+                        console.log(`[DEBUG eBilet] SmartCache Wait: Captured all ${capCount} expected sectors in ${waitTime}ms!`);
+                        await page.waitForTimeout(200); // Tiny buffer for trailing packets
+                        break;
+                    }
+                    await page.waitForTimeout(200);
+                    waitTime += 200;
+                }
+                // Fallback if capCount was 0 or never reached, we naturally slept for max 5s.
+
+                if (seatsBySid.size > 0 || Object.keys(combinedSfc).length > 0) {
+                    skipStandard = true;
+                    currentUrl = page.url();
+                } else {
+                    console.log('eBilet: SmartCache failed (no seats). Clearing.');
+                    session.invalidateCachedUrl();
+                }
+            } catch (e) {
+                console.log('eBilet: SmartCache navigation failed:', e);
+            }
+        }
+
+        if (!skipStandard) {
+            // Build URL with city filter parameter
+            let targetUrl = sourceData.eventCardUrl;
+            const eventCityForUrl = event.cityOriginal || event.city || '';
+
+            if (eventCityForUrl) {
+                const separator = targetUrl.includes('?') ? '&' : '?';
+                targetUrl = `${targetUrl}${separator}city=${encodeURIComponent(eventCityForUrl)}`;
+            }
+
+            // Inject Cookie to prevent banner
+            await context.addCookies([{
+                name: 'CookieConsent',
+                value: '{stamp:%27-%27%2Cnecessary:true%2Cpreferences:true%2Cstatistics:true%2Cmarketing:true%2Cmethod:%27explicit%27%2Cver:1%2Cutc:1700000000000%2Cregion:%27pl%27}',
+                domain: '.ebilet.pl',
+                path: '/'
+            }]);
+
+            console.log(`eBilet: Loading event page: ${targetUrl}`);
+            await page.goto(targetUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+            await page.waitForTimeout(2000);
+
+            // Gracefully accept cookies instead of removing from DOM to unblock eBilet's jsaction listeners
+            try {
+                const acceptBtn = page.locator('#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll, #CybotCookiebotDialogBodyButtonAccept');
+                if (await acceptBtn.isVisible({ timeout: 2000 })) {
+                    await acceptBtn.click({ force: true });
+                    await page.waitForTimeout(1000);
+                    // physically remove just in case it's doing a slow fade
+                    await page.evaluate(() => {
+                        const ids = ['CybotCookiebotDialog', 'CybotCookiebotDialogBodyUnderlay'];
+                        ids.forEach(id => {
+                            const el = document.getElementById(id);
+                            if (el) el.remove();
+                        });
+                    });
+                    await page.waitForTimeout(500);
+                }
+            } catch (e) { }
+
+            // Try to find the specific event in the list if it's a tour page or single event
+            console.log(`[DEBUG eBilet] Searching for specific event button...`);
+
+            // Look for action buttons by text or aria-label
+            const allBuyButtons = page.locator('a, button').filter({ hasText: /Kup bilety|Wybierz/i }).or(page.locator('a[aria-label*="Kup bilety" i], button[aria-label*="Kup bilety" i], a[aria-label*="Wybierz" i], button[aria-label*="Wybierz" i]'));
+
+            // Wait briefly for elements to appear and for JS to hydrate event listeners!
+            await allBuyButtons.first().waitFor({ state: 'attached', timeout: 5000 }).catch(() => { });
+            await page.waitForTimeout(2000); // CRITICAL: Wait for Angular to attach jsaction listeners!
+
+            const buttonCount = await allBuyButtons.count().catch(() => 0);
+            let clicked = false;
+            currentUrl = page.url();
+
+            console.log(`[DEBUG eBilet] Found ${buttonCount} generic buy buttons. Looking for match with city: ${eventCityForUrl}`);
+
+            for (let i = 0; i < buttonCount; i++) {
+                const btn = allBuyButtons.nth(i);
+                const text = await btn.textContent().catch(() => '') || '';
+                const aria = await btn.getAttribute('aria-label').catch(() => '') || '';
+                const combinedText = `${text} ${aria}`.toLowerCase();
+
+                // If we have a city filter, enforce it
+                if (eventCityForUrl && !combinedText.includes(eventCityForUrl.toLowerCase())) {
+                    // City not explicitly in button. Let's check its parent container (e.g., the row)
+                    const parentRow = btn.locator('xpath=ancestor::*[contains(@class, "row") or contains(@class, "item") or contains(@class, "card")]').first();
+                    const rowText = await parentRow.textContent().catch(() => '') || '';
+                    if (!rowText.toLowerCase().includes(eventCityForUrl.toLowerCase())) {
+                        continue; // Skip this button as it's for another city
+                    }
+                }
+
+                // Found a matching button!
+                const btnHref = await btn.getAttribute('href').catch(() => null);
+                if (btnHref && btnHref.includes('sklep.ebilet.pl')) {
+                    console.log(`[DEBUG eBilet] Direct shop link found on the button itself: ${btnHref}`);
+                    checkFreeSeatsUrl = btnHref;
+                }
+
+                console.log(`[DEBUG eBilet] Clicking button matched for city: ${eventCityForUrl}`);
+                try {
+                    await btn.scrollIntoViewIfNeeded();
+                    const box = await btn.boundingBox();
+                    if (box) {
+                        await page.mouse.move(box.x + box.width / 2, box.y + box.height / 2);
+                        await page.mouse.down();
+                        await page.waitForTimeout(50);
+                        await page.mouse.up();
+                    } else {
+                        await btn.click({ delay: 50, force: true });
+                    }
+                    clicked = true;
+                    break;
+                } catch (e) {
+                    console.log(`[DEBUG eBilet] Failed to click button: ${e}`);
+                }
+            }
+
+            // Fallback if city matched none, but there is exactly 1 button, assume it's the one (or we are not on a tour page)
+            if (!clicked && buttonCount > 0) {
+                const btn = allBuyButtons.first();
+                const btnHref = await btn.getAttribute('href').catch(() => null);
+                if (btnHref && btnHref.includes('sklep.ebilet.pl')) checkFreeSeatsUrl = btnHref;
+                console.log(`[DEBUG eBilet] Clicking the first buy button available as fallback.`);
+                try {
+                    await btn.scrollIntoViewIfNeeded();
+                    await btn.click({ delay: 50, timeout: 5000 });
+                    clicked = true;
+                } catch (e) { }
+            }
+
+            currentUrl = page.url();
+
+            if (clicked) {
+                // Setup a hook to catch router navigations or window.location changes
+                await page.exposeFunction('onTargetUrl', (url: string) => {
+                    if (url.includes('sklep.ebilet.pl')) {
+                        checkFreeSeatsUrl = url;
+                        console.log(`[DEBUG eBilet] Intercepted navigation hook: ${url}`);
+                    }
+                }).catch(() => { }); // might be already exposed
+
+                await page.evaluate(() => {
+                    document.addEventListener('click', (e) => {
+                        const target = e.target as HTMLElement;
+                        const btn = target.closest('button, a') as HTMLAnchorElement | HTMLButtonElement | null;
+                        if (btn) {
+                            // @ts-ignore
+                            if (btn.href && btn.href.includes('sklep.ebilet.pl')) window.onTargetUrl(btn.href);
+                        }
+                    }, true);
+
+                    // Monitor history state changes (Angular router)
+                    const win = window as any;
+                    const origPushState = win.history.pushState;
+                    win.history.pushState = function (...args: any[]) {
+                        const url = args[2];
+                        if (typeof url === 'string' && url.includes('sklep.ebilet.pl')) win.onTargetUrl(url);
+                        return origPushState.apply(this, args);
+                    };
+
+                    // Monitor window.open
+                    const origOpen = win.open;
+                    win.open = function (url?: string, target?: string, features?: string) {
+                        if (typeof url === 'string' && url.includes('sklep.ebilet.pl')) win.onTargetUrl(url);
+                        return origOpen.call(this, url, target, features);
+                    }
+                });
+
+                // Attempt to extract decryptedEventId directly from Angular state first to save 10 seconds!
+                console.log(`[DEBUG eBilet] Analyzing DOM for decryptedEventId before waiting for redirect...`);
+                const extractedId = await page.evaluate(() => {
+                    const stateScript = document.getElementById('serverApp-state');
+                    if (!stateScript) return null;
+                    const text = stateScript.textContent || '';
+                    let match = /decryptedEventId[^\w\d]*([0-9]{14,20})/.exec(text);
+                    if (!match) match = /&q;decryptedEventId&q;:&q;([0-9]{14,20})&q;/.exec(text);
+                    return match ? match[1] : null;
+                });
+
+                if (extractedId) {
+                    console.log(`[DEBUG eBilet] Found decryptedEventId in DOM: ${extractedId}. Skipping redirect wait!`);
+                    checkFreeSeatsUrl = `https://sklep.ebilet.pl/${extractedId}`;
+                } else {
+                    // Wait specifically for the URL interceptor if DOM parsing failed
+                    console.log(`[DEBUG eBilet] Clicked button. Waiting for redirect (max 10s)...`);
+                    for (let i = 0; i < 40; i++) {
+                        if (checkFreeSeatsUrl) break;
+                        if (page.url().includes('sklep.ebilet.pl')) {
+                            console.log(`[DEBUG eBilet] Caught page.url() redirect to: ${page.url()}`);
+                            checkFreeSeatsUrl = page.url();
+                            break;
+                        }
+                        await page.waitForTimeout(250);
+                    }
+                }
+
+                // Find fallback shop link in DOM just in case
+                const allShopLinks = page.locator('a[href*="sklep.ebilet.pl"], a[href*="biletyna.pl"], a[href*="kupbilecik.pl"]');
+                const shopLinkCount = await allShopLinks.count().catch(() => 0);
+                let bestHref: string | null = null;
+
+                // NEW: check for iframes pointing to sklep
+                const iframes = page.locator('iframe[src*="sklep.ebilet.pl"]');
+                const iframeCount = await iframes.count().catch(() => 0);
+                if (iframeCount > 0) {
+                    const src = await iframes.first().getAttribute('src').catch(() => null);
+                    if (src) {
+                        console.log(`[DEBUG eBilet] Found sklep link in iframe src: ${src}`);
+                        checkFreeSeatsUrl = src;
+                    }
+                }
+
+                console.log(`[DEBUG eBilet] Evaluated DOM links post-click. Count: ${shopLinkCount}, iframes: ${iframeCount}`);
+
+                // ALWAYS prioritize the intercepted dynamic data if it exists
+                if (checkFreeSeatsUrl) {
+                    bestHref = checkFreeSeatsUrl;
+                    console.log(`[DEBUG eBilet] Prioritizing checkFreeSeatsUrl: ${bestHref}`);
+                } else {
+                    // Fallback to DOM parsing
+                    for (let i = 0; i < shopLinkCount; i++) {
+                        const href = await allShopLinks.nth(i).getAttribute('href').catch(() => '') || '';
+                        if (href === 'https://sklep.ebilet.pl' || href === 'https://sklep.ebilet.pl/') continue;
+                        if (href.endsWith('.pdf') || href.includes('/storage/')) continue;
+                        const path = href.replace('https://sklep.ebilet.pl', '');
+                        if (path.length > 5) {
+                            bestHref = href;
+                            console.log(`[DEBUG eBilet] Selected bestHref from DOM links: ${bestHref}`);
+                            break;
+                        } else {
+                            console.log(`[DEBUG eBilet] Rejected shop link from DOM: ${href}, path length: ${path.length}`);
+                        }
+                    }
+                }
+
+                // If we didn't extract a link but the button click already navigated us to the shop:
+                if (!bestHref && page.url().includes('sklep.ebilet.pl')) {
+                    console.log(`[DEBUG eBilet] Page already navigated to shop via JS redirect: ${page.url()}`);
+                    bestHref = page.url();
+                }
+
+                if (bestHref) {
+                    console.log(`eBilet: Navigating to shop: ${bestHref}`);
+                    await page.goto(bestHref, { timeout: 30000 });
+                    console.log(`[DEBUG eBilet] Shop page loaded.`);
+
+                    // SMART WAIT STRATEGY
+                    const expectedSectors = Object.keys(sectorCapacities).length;
+                    console.log(`[DEBUG eBilet] Cache check: Expecting ${expectedSectors} sectors based on arrangements.json.`);
+
+                    if (expectedSectors > 0) {
+                        console.log(`eBilet: Smart Wait - Expecting ${expectedSectors} sectors...`);
+                        const waitStart = Date.now();
+                        const maxWait = 10000;
+                        while (Date.now() - waitStart < maxWait) {
+                            const geomCount = seatsBySid.size;
+                            const availCount = Object.keys(combinedSfs).length;
+                            const sfcCount = Object.keys(combinedSfc).length;
+
+                            if ((geomCount > 0 && geomCount >= expectedSectors) || (sfcCount > 0 && sfcCount >= expectedSectors)) {
+                                console.log(`[DEBUG eBilet] Smart Wait: Captured all ${expectedSectors} expected sectors.`);
+                                await page.waitForTimeout(500); // small buffer for trailing packets
+                                break;
+                            }
+                            await page.waitForTimeout(200);
+                        }
+                    } else {
+                        // Heuristic Wait
+                        console.log(`[DEBUG eBilet] No expectations from cache. Using heuristic wait.`);
+                        try {
+                            await page.waitForResponse(response => {
+                                const url = response.url();
+                                return (url.includes('/storage/seats/') && url.includes('.json')) ||
+                                    url.includes('getsectorfreeseats');
+                            }, { timeout: 8000 });
+                            console.log(`[DEBUG eBilet] First heuristic response received. Waiting for bursts...`);
+
+                            // Wait briefly for bursts
+                            let lastSize = seatsBySid.size;
+                            let silenceStart = Date.now();
+                            while (Date.now() - silenceStart < 2500 && Date.now() - silenceStart < 8000) {
+                                await page.waitForTimeout(200);
+                                if (seatsBySid.size > lastSize) {
+                                    lastSize = seatsBySid.size;
+                                    silenceStart = Date.now();
+                                }
+                            }
+                            console.log(`[DEBUG eBilet] Heuristic wait ended. Settled at ${seatsBySid.size} sectors.`);
+                        } catch (e) {
+                            console.log(`[DEBUG eBilet] Heuristic wait timed out waiting for responses.`);
+                        }
+                    }
+
+                    console.log(`eBilet: Navigation finished. Total: ${seatsBySid.size} sectors.`);
+                } else {
+                    console.log(`[DEBUG eBilet] Failed to find bestHref to navigate to shop.`);
+                    const html = await page.content();
+                    import('fs').then(fs => fs.writeFileSync('debug-ebilet-no-href.html', html));
+                }
+            }
+
+            if (!clicked) {
+                console.log(`[DEBUG eBilet] No "Kup bilety" buttons found on the page!`);
+                const html = await page.content();
+                import('fs').then(fs => fs.writeFileSync('debug-ebilet-no-buttons.html', html));
+                console.log(`[DEBUG eBilet] Dumped HTML to debug-ebilet-no-buttons.html`);
+            }
+        } // close if(!skipStandard)
+
+        // Final URL Update
+        currentUrl = page.url();
+        if (currentUrl.includes('sklep.ebilet.pl')) {
+            await page.waitForTimeout(2000); // safety
+        }
+
+        // Process data
+        const sfcCount = Object.keys(combinedSfc).length;
+        const sfsCount = Object.keys(combinedSfs).length;
+        const capCount = Object.keys(sectorCapacities).length;
+        console.log(`[DEBUG eBilet] Pre-processing check: seatsBySid.size = ${seatsBySid.size}, sfsCount = ${sfsCount}, sfcCount = ${sfcCount}, capCount = ${capCount}`);
+
+        rawData = buildEbiletRawData(seatsBySid, combinedSfs, combinedSfc, sectorCapacities, currentUrl);
+        if (rawData) {
+            console.log(`[DEBUG eBilet] Successfully mapped eBilet raw data.`);
+        } else {
+            console.log(`[DEBUG eBilet] WARNING: Missing either seat geometry data (${seatsBySid.size}) or availability data (${sfsCount}/${sfcCount}). Dropping eBilet data.`);
+        }
+    } catch (e) {
+        console.error('eBilet: Unexpected error', e);
+    } finally {
+        await page.close();
+    }
+
+    return rawData;
+}
+
+// HTTP fast path: the seats.json, arrangements.json and getsectorfreeseats requests the last
+// browser scrape of the cached shop page made, repeated directly
+async function fetchEbiletSeats(session: SeatFetchSession): Promise<EbiletRawData | null> {
+    const { http, cachedUrl, endpoints } = session;
+    if (!cachedUrl || !endpoints.some(endpoint => endpoint.kind === 'freeseats')) return null;
+
+    const seatsBySid = new Map<string, EbiletSeatsResponse>();
+    const combinedSfs: Record<string, Array<{ s: string[] }>> = {};
+    const combinedSfc: Record<string, number> = {};
+    const sectorCapacities: SectorCapacities = {};
+
+    await Promise.all(endpoints.map(async (endpoint) => {
+        const data = JSON.parse(await http.request(endpoint));
+        if (endpoint.kind === 'seats' && data?.sid && data?.s) {
+            seatsBySid.set(data.sid, data);
+        } else if (endpoint.kind === 'arrangements' && Array.isArray(data?.s)) {
+            Object.assign(sectorCapacities, parseEbiletArrangements(data));
+        } else if (endpoint.kind === 'freeseats') {
+            mergeFreeSeats(data, combinedSfs, combinedSfc);
+        }
+    }));
+
+    return buildEbiletRawData(seatsBySid, combinedSfs, combinedSfc, sectorCapacities, cachedUrl);
+}
+
+// Pure stage: combine seats with availability, naming sectors after kupbilecik
+function processEbiletSeats(raw: EbiletRawData, referenceSectors?: SectorStats[]): SourceStats | null {
+    const stats = processEbiletAllSectors(
+        new Map(Object.entries(raw.seatsBySid)),
+        raw.freeSeatsData,
+        referenceSectors,
+        raw.sectorCapacities
+    );
+    if (stats) stats.finalUrl = raw.currentUrl;
+    return stats;
+}
+
+export const ebiletSource: SourceAdapter<EbiletRawData> = {
+    id: 'ebilet',
+    meta: SOURCE_META.ebilet,
+    hosts: ['ebilet.pl'],
+    scrapeEvents: scrapeEbiletEvents,
+    acquireSeats: acquireEbiletSeats,
+    fetchSeats: fetchEbiletSeats,
+    processSeats: processEbiletSeats,
+    urlCache: {
+        // Only shop URLs that delivered seat geometry are reliable enough to reopen directly
+        shouldCache: (finalUrl, stats) =>
+            finalUrl.includes('sklep.ebilet.pl') && stats.freeSeats.length + stats.takenSeats.length > 0,
+    },
+};
@@ -0,0 +1,13 @@
+import type { Request } from 'playwright';
+import type { DataEndpoint } from './types';
+
+// Remembers how the browser asked for a payload, so the HTTP fast path can ask the same way
+export function endpointFromRequest(kind: string, request: Request): DataEndpoint {
+    return {
+        kind,
+        url: request.url(),
+        method: request.method(),
+        body: request.postData() ?? undefined,
+        contentType: request.headers()['content-type'],
+    };
+}
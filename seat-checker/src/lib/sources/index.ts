@@ -0,0 +1,39 @@
+// Registry of ticketing platforms.
+// Adding a platform = a new adapter module here + its entry in meta.ts.
+import type { SourceType } from '../types';
+import type { SourceAdapter } from './types';
+import { biletynaSource, type BiletynaRawData } from './biletyna';
+import { ebiletSource, type EbiletRawData } from './ebilet';
+import { kupbilecikSource, type KupbilecikRawData } from './kupbilecik';
+
+// Raw seat payload captured by each source
+export interface RawSeatData {
+  biletyna: BiletynaRawData;
+  ebilet: EbiletRawData;
+  kupbilecik: KupbilecikRawData;
+}
+
+const ADAPTERS: { [K in SourceType]: SourceAdapter<RawSeatData[K]> } = {
+  biletyna: biletynaSource,
+  ebilet: ebiletSource,
+  kupbilecik: kupbilecikSource,
+};
+
+// All adapters in display order
+export const SOURCE_ADAPTERS: SourceAdapter[] = Object.values(ADAPTERS) as SourceAdapter[];
+
+export function getSourceAdapter<K extends SourceType>(source: K): SourceAdapter<RawSeatData[K]> {
+  return ADAPTERS[source];
+}
+
+export type {
+  SourceAdapter,
+  SeatScrapeSession,
+  SeatFetchSession,
+  HttpClient,
+  HttpRequestInit,
+  DataEndpoint,
+  UrlCachePolicy,
+} from './types';
+export type { BiletynaRawData, EbiletRawData, KupbilecikRawData };
+export * from './meta';
@@ -0,0 +1,137 @@
+import type { SourceStats } from '../types';
+import type { SourceAdapter, SeatScrapeSession, SeatFetchSession } from './types';
+import { SOURCE_META } from './meta';
+import { endpointFromRequest } from './endpoints';
+import { scrapeKupbilecikEvents } from '../scrapers/kupbilecik';
+import { processKupbilecikData, type KupBilecikObiektData } from '../seat-scrapers/kupbilecik-seats';
+
+// obiekt_data captured from the KupBilecik seat map
+export interface KupbilecikRawData {
+    obiektData: KupBilecikObiektData;
+    finalUrl: string;
+}
+
+// obiekt_data is a JS literal in both the seat-map HTML and the ajax_krok_1 answer
+function extractObiektData(text: string): KupBilecikObiektData | null {
+    const match = text.match(/var\s+obiekt_data\s*=\s*(\{[\s\S]*?\});/);
+    return match?.[1] ? JSON.parse(match[1]) : null;
+}
+
+async function acquireKupbilecikSeats(session: SeatScrapeSession): Promise<KupbilecikRawData | null> {
+    const { context, sourceData, cachedUrl } = session;
+    const page = await context.newPage();
+    let obiektData: KupBilecikObiektData | null = null;
+
+    // Block heavy resources and trackers for massive speedup on KupBilecik
+    try {
+        await page.route('**/*.{png,jpg,jpeg,gif,webp,svg,mp4,webm,css,woff,woff2}', route => route.abort());
+    } catch { }
+
+    page.on('response', async (response) => {
+        if (response.url().includes('ajax_krok_1')) {
+            try {
+                const data = extractObiektData(await response.text());
+                if (data) {
+                    obiektData = data;
+                    session.rememberEndpoint(endpointFromRequest('ajax_krok_1', response.request()));
+                }
+            } catch { }
+        }
+    });
+
+    try {
+        let navigationSuccess = false;
+        if (cachedUrl) {
+            try {
+                await page.goto(cachedUrl, { timeout: 30000 });
+                navigationSuccess = true;
+            } catch { }
+        }
+        if (!navigationSuccess) {
+            await page.goto(sourceData.eventCardUrl, { timeout: 30000 });
+        }
+
+        // Check if data is already in DOM (common when loaded directly via cache 'bilety.php')
+        if (!obiektData) {
+            try {
+                const fromDom = extractObiektData(await page.content());
+                if (fromDom) {
+                    obiektData = fromDom;
+                    console.log('[DEBUG KupBilecik] Retrieved object data directly from DOM regex match');
+                }
+            } catch (e) {
+                console.error("[DEBUG KupBilecik] Error parsing obiektData from DOM", e);
+            }
+        }
+
+        // If not in DOM (first load / routing), wait for the network request
+        if (!obiektData) {
+            try {
+                // First, let's explicitly wait for the map container to exist which guarantees DOM logic ran
+                await page.waitForSelector('#plan_obiektu', { timeout: 3000 }).catch(() => { });
+
+                // Re-check DOM one more time in case it loaded fast while we waited
+                const fromDom = extractObiektData(await page.content());
+                if (fromDom) {
+                    obiektData = fromDom;
+                    console.log('[DEBUG KupBilecik] Retrieved object data directly from DOM regex match after waiting');
+                } else {
+                    // If REALLY not in DOM, we wait for the ajax call
+                    console.log('[DEBUG KupBilecik] Not in DOM, falling back to network WAIT for 5000ms');
+                    await page.waitForResponse(r => r.url().includes('ajax_krok_1'), { timeout: 5000 });
+                }
+            } catch { }
+        }
+
+        if (!obiektData) {
+            console.log(`[DEBUG KupBilecik] No obiektData captured from DOM or Response.`);
+            return null;
+        }
+
+        console.log(`[DEBUG KupBilecik] Object data captured.`);
+        return { obiektData, finalUrl: page.url() };
+    } finally {
+        await page.close();
+    }
+}
+
+// HTTP fast path: the cached seat-map page (bilety.php) carries obiekt_data in its HTML;
+// otherwise the ajax_krok_1 request of the last browser scrape returns it
+async function fetchKupbilecikSeats(session: SeatFetchSession): Promise<KupbilecikRawData | null> {
+    const { http, cachedUrl, endpoints } = session;
+    if (!cachedUrl) return null;
+
+    const page = await http.text(cachedUrl);
+    const fromPage = extractObiektData(page.body);
+    if (fromPage) return { obiektData: fromPage, finalUrl: page.url };
+
+    const ajax = endpoints.find(endpoint => endpoint.kind === 'ajax_krok_1');
+    const fromAjax = ajax ? extractObiektData(await http.request(ajax)) : null;
+    return fromAjax ? { obiektData: fromAjax, finalUrl: page.url } : null;
+}
+
+// Pure stage. KupBilecik is the sector reference, so it never receives reference sectors itself
+function processKupbilecikSeats(raw: KupbilecikRawData): SourceStats | null {
+    const stats = processKupbilecikData(raw.obiektData);
+    if (stats) {
+        stats.finalUrl = raw.finalUrl;
+        console.log(`[DEBUG KupBilecik] successfully returned and mapped stats.`);
+    } else {
+        console.log(`[DEBUG KupBilecik] processKupbilecikData returned null! objectData might be malformed or empty.`);
+    }
+    return stats;
+}
+
+export const kupbilecikSource: SourceAdapter<KupbilecikRawData> = {
+    id: 'kupbilecik',
+    meta: SOURCE_META.kupbilecik,
+    hosts: ['kupbilecik.pl'],
+    scrapeEvents: scrapeKupbilecikEvents,
+    acquireSeats: acquireKupbilecikSeats,
+    fetchSeats: fetchKupbilecikSeats,
+    processSeats: processKupbilecikSeats,
+    urlCache: {
+        // Direct seat-map page, skips the event card on the next refresh
+        shouldCache: (finalUrl) => finalUrl.includes('bilety.php'),
+    },
+};
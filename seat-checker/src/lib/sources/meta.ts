@@ -0,0 +1,83 @@
+// Display metadata for every ticketing source.
+// Kept free of server-only imports so the client UI (page.tsx) can use it too.
+
+export interface SourceMeta {
+  label: string;          // Pełna nazwa, np. "Biletyna"
+  shortLabel: string;     // Jednoliterowy znaczek na liście wydarzeń
+  badge: {                // Klasy Tailwind dla znaczków/linków
+    bg: string;
+    text: string;
+    border: string;
+    dot: string;
+    hover: string;
+  };
+  seatColors: {           // Kolory miejsc na mapie
+    free: string;
+    taken: string;
+  };
+  discordColor: number;   // Kolor krawędzi embeda Discord
+  // Source whose sector layout is used as the base map and as the reference
+  // for naming sectors scraped from the other platforms
+  sectorReference?: boolean;
+}
+
+export const SOURCE_META = {
+  biletyna: {
+    label: 'Biletyna',
+    shortLabel: 'B',
+    badge: { bg: 'bg-purple-100', text: 'text-purple-700', border: 'border-purple-500', dot: 'bg-purple-500', hover: 'hover:bg-purple-200' },
+    seatColors: {
+      free: '#DDA0DD',      // jasny fioletowy
+      taken: '#800080',     // ciemny fioletowy
+    },
+    discordColor: 0xFF5733, // Orange/Red
+  },
+  ebilet: {
+    label: 'eBilet',
+    shortLabel: 'E',
+    badge: { bg: 'bg-yellow-100', text: 'text-yellow-700', border: 'border-yellow-500', dot: 'bg-yellow-500', hover: 'hover:bg-yellow-200' },
+    seatColors: {
+      free: '#FFFF99',      // jasny zolty
+      taken: '#DAA520',     // ciemny zloty/zolty (goldenrod - jasniejszy)
+    },
+    discordColor: 0x33C3FF, // Light Blue
+  },
+  kupbilecik: {
+    label: 'KupBilecik',
+    shortLabel: 'K',
+    badge: { bg: 'bg-red-100', text: 'text-red-700', border: 'border-red-500', dot: 'bg-red-500', hover: 'hover:bg-red-200' },
+    seatColors: {
+      free: '#FF9999',      // jasny czerwony
+      taken: '#8B0000',     // ciemny czerwony
+    },
+    discordColor: 0x33FF57, // Green
+    sectorReference: true,
+  },
+} satisfies Record<string, SourceMeta>;
+
+// Source identifiers
+export type SourceType = keyof typeof SOURCE_META;
+
+// All sources in display order
+export const SOURCE_IDS = Object.keys(SOURCE_META) as SourceType[];
+
+// Source providing the reference sector layout (kupbilecik), first source if none is flagged
+export const SECTOR_REFERENCE_SOURCE: SourceType =
+  SOURCE_IDS.find(id => (SOURCE_META[id] as SourceMeta).sectorReference) ?? SOURCE_IDS[0];
+
+export function getSourceMeta(source: SourceType): SourceMeta {
+  return SOURCE_META[source];
+}
+
+export function isSourceType(value: string): value is SourceType {
+  return Object.prototype.hasOwnProperty.call(SOURCE_META, value);
+}
+
+// Build a record with one entry per known source
+export function perSourceRecord<T>(init: (source: SourceType) => T): Record<SourceType, T> {
+  const record = {} as Record<SourceType, T>;
+  for (const source of SOURCE_IDS) {
+    record[source] = init(source);
+  }
+  return record;
+}
@@ -0,0 +1,76 @@
+import type { BrowserContext, Page } from 'playwright';
+import type { JoinedEvent, RawEvent, SectorStats, SourceData, SourceStats, SourceType } from '../types';
+import type { SourceMeta } from './meta';
+
+// Decides which final scrape URLs are worth remembering in url_cache.json (SmartCache)
+export interface UrlCachePolicy {
+  shouldCache(finalUrl: string, stats: SourceStats, sourceData: SourceData): boolean;
+}
+
+// A request that returned seat data during a browser scrape. Saved with the SmartCache URL,
+// so the HTTP fast path can repeat it without a browser
+export interface DataEndpoint {
+  kind: string;           // what the adapter took from it, e.g. "seats" or "freeseats"
+  url: string;
+  method: string;
+  body?: string;
+  contentType?: string;
+}
+
+// Everything a seat scraper needs for a single event refresh
+export interface SeatScrapeSession {
+  context: BrowserContext;
+  event: JoinedEvent;
+  sourceData: SourceData;
+  // SmartCache URL from the previous successful scrape (if any)
+  cachedUrl: string | null;
+  // Drop the cached URL when it no longer leads to a seat map
+  invalidateCachedUrl(): void;
+  // Report a request the payload came from (see DataEndpoint)
+  rememberEndpoint(endpoint: DataEndpoint): void;
+}
+
+export interface HttpRequestInit {
+  method?: string;
+  body?: string;
+  contentType?: string;
+  referer?: string;
+}
+
+// Plain HTTP with the platform's browser cookies; throws on network errors and non-2xx answers
+export interface HttpClient {
+  // url is the final one, after redirects
+  text(url: string, init?: HttpRequestInit): Promise<{ url: string; body: string }>;
+  json<T>(url: string, init?: HttpRequestInit): Promise<T>;
+  request(endpoint: DataEndpoint): Promise<string>;
+  pause(ms: number): Promise<void>;
+}
+
+// HTTP fast path of a single event refresh - no browser, only direct requests
+export interface SeatFetchSession {
+  event: JoinedEvent;
+  sourceData: SourceData;
+  cachedUrl: string | null;
+  // Remembered by the browser scrape that found cachedUrl
+  endpoints: DataEndpoint[];
+  http: HttpClient;
+}
+
+// A ticketing platform plugged into the app.
+// Seat scraping is split in two: a browser stage capturing the raw payload
+// and a pure stage turning it into stats (testable without Playwright).
+export interface SourceAdapter<TRaw = unknown> {
+  id: SourceType;
+  meta: SourceMeta;
+  // Domains the platform is served from (subdomains included) - one politeness host group
+  hosts: string[];
+  // Scrapes an organizer listing (Organizer.listingUrls[id]) into raw events
+  scrapeEvents(page: Page, listingUrl: string): Promise<RawEvent[]>;
+  // Navigates the seat map of a single event and captures its raw payload
+  acquireSeats(session: SeatScrapeSession): Promise<TRaw | null>;
+  // Optional fast path fetching the same payload over plain HTTP; null leaves it to acquireSeats
+  fetchSeats?(session: SeatFetchSession): Promise<TRaw | null>;
+  // Parses the raw payload; referenceSectors come from kupbilecik (absent for kupbilecik itself)
+  processSeats(raw: TRaw, referenceSectors?: SectorStats[]): SourceStats | null;
+  urlCache: UrlCachePolicy;
+}
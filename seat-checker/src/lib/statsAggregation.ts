@@ -0,0 +1,234 @@
+import type { SourceType, SourceStats, CombinedEventStats, JoinedEvent } from './types';
+import type { SeatTransition, SeatLogState } from './seatLog';
+import type { StatsHistoryEntry } from './statsHistory';
+import { getSourceAdapter, SOURCE_IDS, SECTOR_REFERENCE_SOURCE, perSourceRecord, type RawSeatData } from './sources';
+import { normalizeSeatKey } from './seat-scrapers/utils';
+
+// Pure aggregation stage: raw source payloads -> CombinedEventStats.
+// No browser and no file I/O here - callers load/save history and the seat log themselves.
+
+export type PerSourceStats = Partial<Record<SourceType, SourceStats>>;
+
+export interface SoldInference {
+    // Seats that disappeared from every platform since the last refresh ("SectorName:Row-Seat" -> source)
+    inferredSold: Record<string, SourceType>;
+    // Previously sold seats that are free again - refunds/returns ("SectorName:Row-Seat" -> source listing it now)
+    inferredReturned: Record<string, SourceType>;
+    // Seats that left one platform but are still free on another (not a sale)
+    shiftedFrom: Record<SourceType, number>;
+    // Transitions detected in this refresh, to be appended to the seat log
+    transitions: SeatTransition[];
+    // Seat log state after this refresh
+    state: SeatLogState;
+}
+
+/**
+ * Parse raw payloads of all sources.
+ * The reference source (kupbilecik) goes first so the others can name their sectors after it.
+ * parsed holds payloads already parsed without reference sectors (HTTP fast path); they are
+ * reused unless there are reference sectors to name the sectors after.
+ */
+export function processRawSeatData(raw: Partial<RawSeatData>, parsed: PerSourceStats = {}): PerSourceStats {
+    const results: PerSourceStats = {};
+
+    const processSource = <K extends SourceType>(source: K) => {
+        const payload = raw[source];
+        if (!payload) return;
+        const referenceSectors = results[SECTOR_REFERENCE_SOURCE]?.sectors;
+        const reusable = parsed[source];
+        if (reusable && !referenceSectors) {
+            results[source] = reusable;
+            return;
+        }
+        try {
+            const stats = getSourceAdapter(source).processSeats(payload as RawSeatData[K], referenceSectors);
+            if (stats) results[source] = stats;
+        } catch (e) {
+            console.error(`${source}: Failed to process raw seat data`, e);
+        }
+    };
+
+    processSource(SECTOR_REFERENCE_SOURCE);
+    for (const source of SOURCE_IDS) {
+        if (source !== SECTOR_REFERENCE_SOURCE) processSource(source);
+    }
+
+    return results;
+}
+
+// Apply transitions on top of a state (returns a new state)
+export function applySeatTransitions(state: SeatLogState, transitions: SeatTransition[]): SeatLogState {
+    const free = { ...state.free };
+    const sold = { ...state.sold };
+
+    for (const transition of transitions) {
+        switch (transition.type) {
+            case 'appeared':
+            case 'moved':
+                free[transition.seat] = transition.source;
+                break;
+            case 'sold':
+                delete free[transition.seat];
+                sold[transition.seat] = transition.source;
+                break;
+            case 'returned':
+                delete sold[transition.seat];
+                free[transition.seat] = transition.source;
+                break;
+        }
+    }
+
+    return { free, sold };
+}
+
+// Current free seats and sold map, rebuilt from the whole log
+export function replaySeatLog(log: SeatTransition[]): SeatLogState {
+    return applySeatTransitions({ free: {}, sold: {} }, log);
+}
+
+/**
+ * Compare currently free seats with the state replayed from the seat log.
+ * A seat missing from its last platform is a sale only if no other platform lists it as free.
+ * Seats of sectors missing from this scrape, or last seen on a platform that was not scraped
+ * this time, are left untouched.
+ */
+export function diffSeatTransitions(results: PerSourceStats, state: SeatLogState, timestamp: string = new Date().toISOString()): SeatTransition[] {
+    // Every currently free seat -> platforms listing it (in SOURCE_IDS order)
+    const currentFree = new Map<string, SourceType[]>();
+    const knownSectors = new Set<string>();
+    const scrapedSources = new Set<SourceType>();
+
+    for (const source of SOURCE_IDS) {
+        const sourceData = results[source];
+        if (!sourceData || !sourceData.sectors) continue;
+        scrapedSources.add(source);
+        for (const sector of sourceData.sectors) {
+            knownSectors.add(sector.sectorName);
+            for (const seatKey of sector.freeSeats) {
+                // Tworzymy unikalny klucz ignorujący ew. białe znaki czy formatowanie np "SALA:12-3"
+                const uniqueKey = `${sector.sectorName}:${normalizeSeatKey(seatKey)}`;
+                const sources = currentFree.get(uniqueKey) || [];
+                if (!sources.includes(source)) sources.push(source);
+                currentFree.set(uniqueKey, sources);
+            }
+        }
+    }
+
+    const transitions: SeatTransition[] = [];
+
+    for (const [seat, lastSource] of Object.entries(state.free)) {
+        const [sectorName] = seat.split(':');
+        if (!knownSectors.has(sectorName) || !scrapedSources.has(lastSource)) continue;
+
+        const sources = currentFree.get(seat);
+        if (!sources) {
+            // Nie ma go nigdzie. Miejsce zostało autentycznie sprzedane.
+            transitions.push({ seat, type: 'sold', source: lastSource, timestamp });
+        } else if (!sources.includes(lastSource)) {
+            // Miejsce nadal jest wolne, tylko pod innym operatorem. To nie jest sprzedaż!
+            transitions.push({ seat, type: 'moved', source: sources[sources.length - 1], from: lastSource, timestamp });
+        }
+    }
+
+    for (const [seat, sources] of currentFree) {
+        if (state.free[seat]) continue;
+        const source = sources[sources.length - 1];
+        if (state.sold[seat]) {
+            transitions.push({ seat, type: 'returned', source, from: state.sold[seat], timestamp });
+        } else {
+            transitions.push({ seat, type: 'appeared', source, timestamp });
+        }
+    }
+
+    return transitions;
+}
+
+// Per-refresh view of the transitions: what the diff and Discord report
+export function inferSoldSeats(results: PerSourceStats, state: SeatLogState, timestamp?: string): SoldInference {
+    const transitions = diffSeatTransitions(results, state, timestamp);
+
+    const inferredSold: Record<string, SourceType> = {};
+    const inferredReturned: Record<string, SourceType> = {};
+    const shiftedFrom = perSourceRecord(() => 0);
+    for (const transition of transitions) {
+        if (transition.type === 'sold') {
+            inferredSold[transition.seat] = transition.source;
+        } else if (transition.type === 'returned') {
+            inferredReturned[transition.seat] = transition.source;
+        } else if (transition.type === 'moved' && transition.from && transition.from in shiftedFrom) {
+            // Zliczamy to przenesienie by odjąć je od statystyki "Sprzedanych" dla starego operatora
+            shiftedFrom[transition.from]++;
+        }
+    }
+
+    return { inferredSold, inferredReturned, shiftedFrom, transitions, state: applySeatTransitions(state, transitions) };
+}
+
+// Number of seats per source (newly sold or returned)
+export function countSeatsBySource(seats: Record<string, SourceType>): Record<SourceType, number> {
+    const counts = perSourceRecord(() => 0);
+    for (const source of Object.values(seats)) {
+        if (source in counts) counts[source]++;
+    }
+    return counts;
+}
+
+export function buildStatsHistoryEntry(results: PerSourceStats, timestamp: string = new Date().toISOString()): StatsHistoryEntry {
+    const sectors: StatsHistoryEntry['sectors'] = {};
+    for (const source of SOURCE_IDS) {
+        const sourceSectors = results[source]?.sectors;
+        if (!sourceSectors?.length) continue;
+        sectors[source] = Object.fromEntries(sourceSectors.map(sector => [sector.sectorName, { ...sector.totals }]));
+    }
+
+    return {
+        taken: perSourceRecord(source => results[source]?.totals.taken || 0),
+        free: perSourceRecord(source => results[source]?.totals.free || 0),
+        sectors,
+        timestamp
+    };
+}
+
+/**
+ * Assemble the final stats object.
+ * @param cumulativeSold Seats currently sold according to the seat log (the map greys them out)
+ * @param prevStats Previous stats history entry - without it there is nothing to diff against
+ */
+export function buildCombinedStats(
+    event: Pick<JoinedEvent, 'globalEventId' | 'title' | 'date'>,
+    results: PerSourceStats,
+    inference: SoldInference,
+    cumulativeSold: Record<string, SourceType>,
+    prevStats: StatsHistoryEntry | null
+): CombinedEventStats {
+    let totalSeats = 0;
+    let totalFree = 0;
+    let totalTaken = 0;
+
+    for (const source of Object.values(results)) {
+        if (source) {
+            totalSeats += source.totals.total;
+            totalFree += source.totals.free;
+            totalTaken += source.totals.taken;
+        }
+    }
+
+    return {
+        globalEventId: event.globalEventId,
+        title: event.title,
+        date: event.date,
+        perSource: results,
+        combinedTotals: {
+            total: totalSeats,
+            free: totalFree,
+            taken: totalTaken,
+        },
+        inferredSold: cumulativeSold, // Frontend mapuje kolory po tym polu, przekazujemy całość historii
+        // Obliczamy sprzedane sumując bezpośrednio wyizolowane fotele, które przepadły ze starej platformy i NIE uległy migracji
+        diff: prevStats ? {
+            sold: countSeatsBySource(inference.inferredSold),
+            returned: countSeatsBySource(inference.inferredReturned),
+            lastUpdated: prevStats.timestamp
+        } : undefined
+    };
+}
@@ -1,44 +1,103 @@
-import fs from 'fs';
-import path from 'path';
+import type { SourceType } from './types';
+import { SOURCE_IDS } from './sources/meta';
+import { getStorage } from './storage';
 
-const STATS_HISTORY_FILE = path.join(process.cwd(), 'data', 'stats_history.json');
+// Time series: append-only log per event ("stats_history"), one entry per scrape.
+// Legacy store ("stats_history_legacy"): only the latest entry per event, overwritten on every refresh.
+
+export interface StatsCounts {
+    total: number;
+    free: number;
+    taken: number;
+}
 
 export interface StatsHistoryEntry {
-    biletynaTaken: number;
-    ebiletTaken: number;
-    kupbilecikTaken: number;
-    biletynaFree?: number;
-    ebiletFree?: number;
-    kupbilecikFree?: number;
+    taken: Partial<Record<SourceType, number>>;
+    free: Partial<Record<SourceType, number>>;
+    // Per-sector counts (sector name -> counts); missing in entries migrated from the legacy store
+    sectors?: Partial<Record<SourceType, Record<string, StatsCounts>>>;
     timestamp: string;
 }
 
-export async function loadStatsHistory(eventId: string): Promise<StatsHistoryEntry | null> {
+export interface StatsHistoryRange {
+    from?: Date;
+    to?: Date;
+}
+
+// Entries written before the source registry stored flat "biletynaTaken"/"biletynaFree" fields
+function upgradeEntry(entry: any): StatsHistoryEntry {
+    if (entry.taken) return entry;
+    const taken: Partial<Record<SourceType, number>> = {};
+    const free: Partial<Record<SourceType, number>> = {};
+    for (const source of SOURCE_IDS) {
+        if (typeof entry[`${source}Taken`] === 'number') taken[source] = entry[`${source}Taken`];
+        if (typeof entry[`${source}Free`] === 'number') free[source] = entry[`${source}Free`];
+    }
+    return { taken, free, timestamp: entry.timestamp };
+}
+
+async function loadLegacyEntry(eventId: string): Promise<StatsHistoryEntry | null> {
     try {
-        if (fs.existsSync(STATS_HISTORY_FILE)) {
-            const data = await fs.promises.readFile(STATS_HISTORY_FILE, 'utf-8');
-            const history = JSON.parse(data);
-            return history[eventId] || null;
-        }
+        const entry = getStorage().getDocument('stats_history_legacy', eventId);
+        return entry ? upgradeEntry(entry) : null;
     } catch (error) {
-        console.error('Error loading stats history:', error);
+        console.error('Error loading legacy stats history:', error);
     }
     return null;
 }
 
-export async function saveStatsHistory(eventId: string, entry: StatsHistoryEntry) {
+async function readSeries(eventId: string): Promise<StatsHistoryEntry[] | null> {
+    const storage = getStorage();
+    if (!storage.hasLog('stats_history', eventId)) return null;
+    return storage.readLog('stats_history', eventId).map(upgradeEntry);
+}
+
+// All entries of an event in chronological order, optionally limited to a date range
+export async function loadStatsTimeSeries(eventId: string, range: StatsHistoryRange = {}): Promise<StatsHistoryEntry[]> {
+    let entries: StatsHistoryEntry[] = [];
+    try {
+        const series = await readSeries(eventId);
+        if (series) {
+            entries = series;
+        } else {
+            const legacy = await loadLegacyEntry(eventId);
+            if (legacy) entries = [legacy];
+        }
+    } catch (error) {
+        console.error('Error loading stats time series:', error);
+    }
+
+    const from = range.from?.getTime() ?? -Infinity;
+    const to = range.to?.getTime() ?? Infinity;
+    return entries.filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        return time >= from && time <= to;
+    });
+}
+
+// Latest entry - the baseline for the "sold since last refresh" diff
+export async function loadStatsHistory(eventId: string): Promise<StatsHistoryEntry | null> {
     try {
-        const dir = path.dirname(STATS_HISTORY_FILE);
-        if (!fs.existsSync(dir)) fs.mkdirSync(dir, { recursive: true });
+        const series = await readSeries(eventId);
+        if (series) return series[series.length - 1] ?? null;
+    } catch (error) {
+        console.error('Error loading stats history:', error);
+    }
+    return loadLegacyEntry(eventId);
+}
 
-        let history: Record<string, StatsHistoryEntry> = {};
-        if (fs.existsSync(STATS_HISTORY_FILE)) {
-            const data = await fs.promises.readFile(STATS_HISTORY_FILE, 'utf-8');
-            history = JSON.parse(data);
+export async function appendStatsHistory(eventId: string, entry: StatsHistoryEntry) {
+    try {
+        const storage = getStorage();
+        const entries: StatsHistoryEntry[] = [];
+        if (!storage.hasLog('stats_history', eventId)) {
+            // First entry of the series - start it from the legacy snapshot so the curve is not lost
+            const legacy = await loadLegacyEntry(eventId);
+            if (legacy) entries.push(legacy);
         }
+        entries.push(entry);
 
-        history[eventId] = entry;
-        await fs.promises.writeFile(STATS_HISTORY_FILE, JSON.stringify(history, null, 2));
+        storage.appendLog('stats_history', eventId, entries);
     } catch (error) {
         console.error('Error saving stats history:', error);
     }
@@ -46,14 +105,11 @@ export async function saveStatsHistory(eventId: string, entry: StatsHistoryEntry
 
 export async function clearStatsHistory(eventId: string) {
     try {
-        if (fs.existsSync(STATS_HISTORY_FILE)) {
-            const data = await fs.promises.readFile(STATS_HISTORY_FILE, 'utf-8');
-            const history = JSON.parse(data);
-            if (history[eventId]) {
-                delete history[eventId];
-                await fs.promises.writeFile(STATS_HISTORY_FILE, JSON.stringify(history, null, 2));
-            }
-        }
+        const storage = getStorage();
+        storage.transaction(() => {
+            storage.deleteLog('stats_history', eventId);
+            storage.deleteDocument('stats_history_legacy', eventId);
+        });
     } catch (error) {
         console.error('Error clearing stats history:', error);
     }
@@ -0,0 +1,104 @@
+import fs from 'fs';
+import path from 'path';
+
+// Safe file primitives for everything kept as plain files under data/.
+//   writeFileAtomic - write to a temp file and rename it over the target, so readers
+//                     never see a half-written file
+//   readJsonFile    - parse a JSON file; a corrupted one is moved aside instead of crashing
+//   serializeByKey  - in-process write queue for async multi-step updates of one key
+// A synchronous read-modify-write cannot interleave with another one in the same process, so
+// only updates spanning several awaits need the queue. The files have one writer - the app;
+// SQLite (the default backend) is the one to use when several processes write.
+
+// Tail of the queue per key
+const keyQueues = new Map<string, Promise<unknown>>();
+
+export function writeFileAtomic(filePath: string, content: string): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+
+    try {
+        const fd = fs.openSync(tmpPath, 'w');
+        try {
+            fs.writeFileSync(fd, content);
+            fs.fsyncSync(fd);
+        } finally {
+            fs.closeSync(fd);
+        }
+        fs.renameSync(tmpPath, filePath);
+    } catch (error) {
+        try {
+            fs.unlinkSync(tmpPath);
+        } catch {
+            // Nothing to clean up
+        }
+        throw error;
+    }
+}
+
+export function writeJsonFileAtomic(filePath: string, value: unknown): void {
+    writeFileAtomic(filePath, JSON.stringify(value, null, 2));
+}
+
+// Returns null for a missing file. A file that does not parse (truncated by a crash
+// before writes were atomic, edited by hand) is renamed to <file>.corrupt-<time>
+// and treated as missing, so the next save starts clean and the data can still be inspected.
+export function readJsonFile<T>(filePath: string): T | null {
+    let content: string;
+    try {
+        content = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+
+    try {
+        return JSON.parse(content);
+    } catch (error) {
+        const corruptPath = `${filePath}.corrupt-${Date.now()}`;
+        console.error(`Storage: ${filePath} is not valid JSON, moved to ${corruptPath}:`, error);
+        try {
+            fs.renameSync(filePath, corruptPath);
+        } catch (renameError) {
+            console.error(`Storage: failed to move aside ${filePath}:`, renameError);
+        }
+        return null;
+    }
+}
+
+// Append lines to a JSONL file. A last line cut off by a crash is terminated first,
+// so the new entries do not get glued onto it.
+export function appendLines(filePath: string, lines: string[]): void {
+    if (lines.length === 0) return;
+    let prefix = '';
+    try {
+        const { size } = fs.statSync(filePath);
+        if (size > 0) {
+            const fd = fs.openSync(filePath, 'r');
+            try {
+                const last = Buffer.alloc(1);
+                fs.readSync(fd, last, 0, 1, size - 1);
+                if (last.toString() !== '\n') prefix = '\n';
+            } finally {
+                fs.closeSync(fd);
+            }
+        }
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    }
+    fs.appendFileSync(filePath, prefix + lines.join('\n') + '\n');
+}
+
+// Runs async tasks for the same key one after another (in this process).
+// Used where an update spans several awaits, e.g. load seat log -> diff -> append.
+export function serializeByKey<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = keyQueues.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    const tail = run.catch(() => undefined);
+    keyQueues.set(key, tail);
+    tail.then(() => {
+        if (keyQueues.get(key) === tail) keyQueues.delete(key);
+    });
+    return run;
+}
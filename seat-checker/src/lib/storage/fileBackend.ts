@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import type { DocumentCollection, LogCollection, StorageBackend } from './types';
+import { appendLines, readJsonFile, writeJsonFileAtomic } from './atomicFile';
+
+// JSON files under data/ - the layout the app always used, so existing data keeps working.
+// Writes go through atomicFile: temp file + rename. A read-modify-write of a shared file
+// (url_cache.json) runs synchronously, so a background refresh cannot drop a foreground one's entry.
+type DocumentLayout =
+    | { kind: 'files'; keys: string[] }  // every key is its own data/<key>.json
+    | { kind: 'map'; file: string }      // all keys in one JSON object
+    | { kind: 'dir'; dir: string };      // data/<dir>/<key>.json
+
+const DOCUMENT_LAYOUT: Record<DocumentCollection, DocumentLayout> = {
+    state: { kind: 'files', keys: ['events_cache', 'seen_events', 'scheduler_state', 'digest_state', 'raw_events', 'event_links', 'event_identities'] },
+    organizers: { kind: 'dir', dir: 'organizers' },
+    organizer_events: { kind: 'dir', dir: 'organizer_events' },
+    organizer_raw_events: { kind: 'dir', dir: 'organizer_raw_events' },
+    url_cache: { kind: 'map', file: 'url_cache.json' },
+    stats_history_legacy: { kind: 'map', file: 'stats_history.json' },
+    full_stats: { kind: 'dir', dir: 'full_stats_cache' },
+    overrides: { kind: 'dir', dir: 'overrides' },
+    history: { kind: 'dir', dir: 'history' },
+    sold_history: { kind: 'dir', dir: 'sold_history' },
+    alert_rules: { kind: 'dir', dir: 'alert_rules' },
+    alert_state: { kind: 'dir', dir: 'alert_state' },
+    notification_queue: { kind: 'dir', dir: 'notification_queue' },
+    api_keys: { kind: 'dir', dir: 'api_keys' },
+    users: { kind: 'dir', dir: 'users' },
+    sessions: { kind: 'dir', dir: 'sessions' },
+    jobs: { kind: 'dir', dir: 'jobs' },
+    browser_state: { kind: 'dir', dir: 'browser_state' },
+};
+
+// data/<dir>/<key>.jsonl, one entry per line
+const LOG_DIRS: Record<LogCollection, string> = {
+    stats_history: 'stats_history',
+    seat_log: 'seat_log',
+    event_changes: 'event_changes',
+    notification_deliveries: 'notification_deliveries',
+};
+
+function safeKey(key: string): string {
+    return key.replace(/[^a-zA-Z0-9-_]/g, '_');
+}
+
+// Keys that safeKey changes (event IDs carry the city, e.g. "Łódź") are recorded per directory
+// in data/<dir>/.keys.json (file name -> key), so listing returns the keys the app used -
+// the SQLite import relies on it. safeKey never yields a name starting with ".".
+const KEY_INDEX_FILE = '.keys.json';
+
+export class FileStorageBackend implements StorageBackend {
+    readonly kind = 'file' as const;
+
+    constructor(private readonly dataDir: string = path.join(process.cwd(), 'data')) { }
+
+    private readJson<T>(filePath: string): T | null {
+        return readJsonFile<T>(filePath);
+    }
+
+    private writeJson(filePath: string, value: unknown): void {
+        writeJsonFileAtomic(filePath, value);
+    }
+
+    private documentPath(collection: DocumentCollection, key: string): string {
+        const layout = DOCUMENT_LAYOUT[collection];
+        switch (layout.kind) {
+            case 'files':
+                return path.join(this.dataDir, `${safeKey(key)}.json`);
+            case 'map':
+                return path.join(this.dataDir, layout.file);
+            case 'dir':
+                return path.join(this.dataDir, layout.dir, `${safeKey(key)}.json`);
+        }
+    }
+
+    private logPath(collection: LogCollection, key: string): string {
+        return path.join(this.dataDir, LOG_DIRS[collection], `${safeKey(key)}.jsonl`);
+    }
+
+    private rememberKey(dir: string, key: string): void {
+        const name = safeKey(key);
+        if (name === key) return;
+        const indexPath = path.join(dir, KEY_INDEX_FILE);
+        const index = this.readJson<Record<string, string>>(indexPath) || {};
+        if (index[name] === key) return;
+        index[name] = key;
+        this.writeJson(indexPath, index);
+    }
+
+    private forgetKey(dir: string, key: string): void {
+        const name = safeKey(key);
+        if (name === key) return;
+        const indexPath = path.join(dir, KEY_INDEX_FILE);
+        const index = this.readJson<Record<string, string>>(indexPath);
+        if (!index || !(name in index)) return;
+        delete index[name];
+        this.writeJson(indexPath, index);
+    }
+
+    // Files of a directory with their original keys (files written before the index existed
+    // keep their file name)
+    private listKeys(dir: string, extension: string): Array<{ key: string; file: string }> {
+        if (!fs.existsSync(dir)) return [];
+        const index = this.readJson<Record<string, string>>(path.join(dir, KEY_INDEX_FILE)) || {};
+        return fs.readdirSync(dir)
+            .filter(file => file.endsWith(extension) && !file.startsWith('.'))
+            .map(file => {
+                const name = file.slice(0, -extension.length);
+                return { key: index[name] ?? name, file };
+            });
+    }
+
+    getDocument<T>(collection: DocumentCollection, key: string): T | null {
+        const filePath = this.documentPath(collection, key);
+        if (DOCUMENT_LAYOUT[collection].kind === 'map') {
+            const map = this.readJson<Record<string, T>>(filePath);
+            return map?.[key] ?? null;
+        }
+        return this.readJson<T>(filePath);
+    }
+
+    putDocument<T>(collection: DocumentCollection, key: string, value: T): void {
+        const filePath = this.documentPath(collection, key);
+        const layout = DOCUMENT_LAYOUT[collection];
+        if (layout.kind === 'map') {
+            const map = this.readJson<Record<string, T>>(filePath) || {};
+            map[key] = value;
+            this.writeJson(filePath, map);
+            return;
+        }
+        this.writeJson(filePath, value);
+        if (layout.kind === 'dir') this.rememberKey(path.dirname(filePath), key);
+    }
+
+    updateDocument<T>(collection: DocumentCollection, key: string, update: (current: T | null) => T | null): T | null {
+        const next = update(this.getDocument<T>(collection, key));
+        if (next === null) {
+            this.deleteDocument(collection, key);
+        } else {
+            this.putDocument(collection, key, next);
+        }
+        return next;
+    }
+
+    deleteDocument(collection: DocumentCollection, key: string): void {
+        const filePath = this.documentPath(collection, key);
+        const layout = DOCUMENT_LAYOUT[collection];
+        if (layout.kind === 'map') {
+            const map = this.readJson<Record<string, unknown>>(filePath);
+            if (map && key in map) {
+                delete map[key];
+                this.writeJson(filePath, map);
+            }
+            return;
+        }
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        if (layout.kind === 'dir') this.forgetKey(path.dirname(filePath), key);
+    }
+
+    listDocuments<T>(collection: DocumentCollection): Record<string, T> {
+        const layout = DOCUMENT_LAYOUT[collection];
+        switch (layout.kind) {
+            case 'map':
+                return this.readJson<Record<string, T>>(path.join(this.dataDir, layout.file)) || {};
+            case 'files': {
+                const documents: Record<string, T> = {};
+                for (const key of layout.keys) {
+                    const value = this.getDocument<T>(collection, key);
+                    if (value !== null) documents[key] = value;
+                }
+                return documents;
+            }
+            case 'dir': {
+                const dir = path.join(this.dataDir, layout.dir);
+                const documents: Record<string, T> = {};
+                for (const { key, file } of this.listKeys(dir, '.json')) {
+                    const value = this.readJson<T>(path.join(dir, file));
+                    if (value !== null) documents[key] = value;
+                }
+                return documents;
+            }
+        }
+    }
+
+    readLog<T>(collection: LogCollection, key: string): T[] {
+        const filePath = this.logPath(collection, key);
+        if (!fs.existsSync(filePath)) return [];
+
+        const entries: T[] = [];
+        for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // Half-written last line after a crash - skip it
+                console.warn(`Storage: skipping malformed ${collection} line for ${key}`);
+            }
+        }
+        return entries;
+    }
+
+    appendLog<T>(collection: LogCollection, key: string, entries: T[]): void {
+        if (entries.length === 0) return;
+        const filePath = this.logPath(collection, key);
+        appendLines(filePath, entries.map(entry => JSON.stringify(entry)));
+        this.rememberKey(path.dirname(filePath), key);
+    }
+
+    hasLog(collection: LogCollection, key: string): boolean {
+        return fs.existsSync(this.logPath(collection, key));
+    }
+
+    deleteLog(collection: LogCollection, key: string): void {
+        const filePath = this.logPath(collection, key);
+        if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+        this.forgetKey(path.dirname(filePath), key);
+    }
+
+    listLogKeys(collection: LogCollection): string[] {
+        return this.listKeys(path.join(this.dataDir, LOG_DIRS[collection]), '.jsonl').map(({ key }) => key);
+    }
+
+    // Plain files have no transactions - fn just runs
+    transaction<T>(fn: () => T): T {
+        return fn();
+    }
+
+    close(): void { }
+}
@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import type { StorageBackend, StorageKind } from './types';
+import { FileStorageBackend } from './fileBackend';
+import { SqliteStorageBackend } from './sqliteBackend';
+import { importStorage } from './migrate';
+
+// Konfiguracja (zmienne środowiskowe):
+//   STORAGE_BACKEND=sqlite|file  - domyślnie sqlite; "file" zostawia stare pliki JSON w data/
+//   SQLITE_PATH=...              - ścieżka bazy, domyślnie data/seat-checker.db
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+const DEFAULT_SQLITE_PATH = path.join(DATA_DIR, 'seat-checker.db');
+
+// Prevent multiple connections in development during hot-reload
+const globalForStorage = global as unknown as { _storageBackend: StorageBackend | undefined };
+
+export function getStorageKind(): StorageKind {
+    return process.env.STORAGE_BACKEND === 'file' ? 'file' : 'sqlite';
+}
+
+export function getSqlitePath(): string {
+    return process.env.SQLITE_PATH ? path.resolve(process.env.SQLITE_PATH) : DEFAULT_SQLITE_PATH;
+}
+
+function createStorage(): StorageBackend {
+    if (getStorageKind() === 'file') {
+        return new FileStorageBackend(DATA_DIR);
+    }
+
+    const dbPath = getSqlitePath();
+    const isNew = !fs.existsSync(dbPath);
+    const storage = new SqliteStorageBackend(dbPath);
+
+    // First start on SQLite: bring over everything the file backend collected so far
+    if (isNew && storage.isEmpty()) {
+        try {
+            const summary = importStorage(new FileStorageBackend(DATA_DIR), storage);
+            if (summary.documents + summary.logEntries > 0) {
+                console.log(`Storage: imported ${summary.documents} documents and ${summary.logEntries} log entries from JSON files`);
+            }
+        } catch (error) {
+            console.error('Storage: automatic import of JSON files failed (run scripts/migrate-to-sqlite.ts):', error);
+        }
+    }
+
+    return storage;
+}
+
+export function getStorage(): StorageBackend {
+    if (!globalForStorage._storageBackend) {
+        globalForStorage._storageBackend = createStorage();
+        console.log(`Storage: using ${globalForStorage._storageBackend.kind} backend`);
+    }
+    return globalForStorage._storageBackend;
+}
+
+export type { StorageBackend, StorageKind, DocumentCollection, LogCollection } from './types';
+export { FileStorageBackend } from './fileBackend';
+export { SqliteStorageBackend } from './sqliteBackend';
+export { importStorage } from './migrate';
+export { writeFileAtomic, writeJsonFileAtomic, readJsonFile, serializeByKey } from './atomicFile';
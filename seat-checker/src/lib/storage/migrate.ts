@@ -0,0 +1,39 @@
+import { DOCUMENT_COLLECTIONS, LOG_COLLECTIONS, type StorageBackend } from './types';
+
+export interface ImportSummary {
+    documents: number;
+    logEntries: number;
+}
+
+/**
+ * Copy every document and log from one backend to another (JSON files -> SQLite).
+ * With overwrite=false documents already present in the target are kept and
+ * logs that already exist there are skipped, so the import can be re-run safely.
+ */
+export function importStorage(from: StorageBackend, to: StorageBackend, overwrite: boolean = false): ImportSummary {
+    const summary: ImportSummary = { documents: 0, logEntries: 0 };
+
+    to.transaction(() => {
+        for (const collection of DOCUMENT_COLLECTIONS) {
+            for (const [key, value] of Object.entries(from.listDocuments(collection))) {
+                if (!overwrite && to.getDocument(collection, key) !== null) continue;
+                to.putDocument(collection, key, value);
+                summary.documents++;
+            }
+        }
+
+        for (const collection of LOG_COLLECTIONS) {
+            for (const key of from.listLogKeys(collection)) {
+                if (to.hasLog(collection, key)) {
+                    if (!overwrite) continue;
+                    to.deleteLog(collection, key);
+                }
+                const entries = from.readLog(collection, key);
+                to.appendLog(collection, key, entries);
+                summary.logEntries += entries.length;
+            }
+        }
+    });
+
+    return summary;
+}
@@ -0,0 +1,128 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { DocumentCollection, LogCollection, StorageBackend } from './types';
+
+// Single embedded SQLite database (data/seat-checker.db by default).
+// Every write is a single statement or runs inside transaction(), so concurrent
+// refreshes cannot drop each other's entries.
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS documents (
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (collection, key)
+);
+CREATE TABLE IF NOT EXISTS log_entries (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    collection TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS log_entries_by_key ON log_entries (collection, key, id);
+`;
+
+export class SqliteStorageBackend implements StorageBackend {
+    readonly kind = 'sqlite' as const;
+    private readonly db: Database.Database;
+
+    constructor(dbPath: string) {
+        fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+        this.db = new Database(dbPath);
+        // WAL lets the API read while a background refresh writes
+        this.db.pragma('journal_mode = WAL');
+        this.db.pragma('busy_timeout = 5000');
+        this.db.exec(SCHEMA);
+    }
+
+    getDocument<T>(collection: DocumentCollection, key: string): T | null {
+        const row = this.db
+            .prepare('SELECT value FROM documents WHERE collection = ? AND key = ?')
+            .get(collection, key) as { value: string } | undefined;
+        return row ? JSON.parse(row.value) : null;
+    }
+
+    putDocument<T>(collection: DocumentCollection, key: string, value: T): void {
+        this.db
+            .prepare(`INSERT INTO documents (collection, key, value, updated_at) VALUES (?, ?, ?, ?)
+                      ON CONFLICT (collection, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`)
+            .run(collection, key, JSON.stringify(value), new Date().toISOString());
+    }
+
+    updateDocument<T>(collection: DocumentCollection, key: string, update: (current: T | null) => T | null): T | null {
+        return this.transaction(() => {
+            const next = update(this.getDocument<T>(collection, key));
+            if (next === null) {
+                this.deleteDocument(collection, key);
+            } else {
+                this.putDocument(collection, key, next);
+            }
+            return next;
+        });
+    }
+
+    deleteDocument(collection: DocumentCollection, key: string): void {
+        this.db.prepare('DELETE FROM documents WHERE collection = ? AND key = ?').run(collection, key);
+    }
+
+    listDocuments<T>(collection: DocumentCollection): Record<string, T> {
+        const rows = this.db
+            .prepare('SELECT key, value FROM documents WHERE collection = ?')
+            .all(collection) as Array<{ key: string; value: string }>;
+        return Object.fromEntries(rows.map(row => [row.key, JSON.parse(row.value)]));
+    }
+
+    readLog<T>(collection: LogCollection, key: string): T[] {
+        const rows = this.db
+            .prepare('SELECT value FROM log_entries WHERE collection = ? AND key = ? ORDER BY id')
+            .all(collection, key) as Array<{ value: string }>;
+        return rows.map(row => JSON.parse(row.value));
+    }
+
+    appendLog<T>(collection: LogCollection, key: string, entries: T[]): void {
+        if (entries.length === 0) return;
+        const insert = this.db.prepare('INSERT INTO log_entries (collection, key, value) VALUES (?, ?, ?)');
+        this.transaction(() => {
+            for (const entry of entries) {
+                insert.run(collection, key, JSON.stringify(entry));
+            }
+        });
+    }
+
+    hasLog(collection: LogCollection, key: string): boolean {
+        return this.db
+            .prepare('SELECT 1 FROM log_entries WHERE collection = ? AND key = ? LIMIT 1')
+            .get(collection, key) !== undefined;
+    }
+
+    deleteLog(collection: LogCollection, key: string): void {
+        this.db.prepare('DELETE FROM log_entries WHERE collection = ? AND key = ?').run(collection, key);
+    }
+
+    listLogKeys(collection: LogCollection): string[] {
+        const rows = this.db
+            .prepare('SELECT DISTINCT key FROM log_entries WHERE collection = ?')
+            .all(collection) as Array<{ key: string }>;
+        return rows.map(row => row.key);
+    }
+
+    transaction<T>(fn: () => T): T {
+        // Nested calls join the outer transaction
+        if (this.db.inTransaction) return fn();
+        // IMMEDIATE takes the write lock up front, so a read-modify-write in another
+        // process (script, second server) waits instead of failing on upgrade
+        return this.db.transaction(fn).immediate();
+    }
+
+    isEmpty(): boolean {
+        const documents = this.db.prepare('SELECT COUNT(*) AS count FROM documents').get() as { count: number };
+        const logs = this.db.prepare('SELECT COUNT(*) AS count FROM log_entries').get() as { count: number };
+        return documents.count === 0 && logs.count === 0;
+    }
+
+    close(): void {
+        this.db.close();
+    }
+}
@@ -0,0 +1,58 @@
+// Storage repository shared by all data modules (caches, histories, overrides).
+// Two kinds of collections:
+//   documents - one JSON value per key, overwritten on save
+//   logs      - append-only list of JSON entries per key (time series, seat log)
+
+export type StorageKind = 'file' | 'sqlite';
+
+export const DOCUMENT_COLLECTIONS = [
+    'state',                // seen_events, scheduler_state, digest_state, event_links, event_identities (+ pre-organizer events_cache, raw_events)
+    'organizers',           // Organizer config per organizer ID
+    'organizer_events',     // joined event list per organizer ID
+    'organizer_raw_events', // raw listings of the last scrape per organizer ID
+    'url_cache',            // SmartCache URLs ("eventId:source")
+    'stats_history_legacy', // latest stats entry per event (pre time series)
+    'full_stats',           // CombinedEventStats per event
+    'overrides',            // manual seat colors per event
+    'history',              // legacy free-seat map per event
+    'sold_history',         // legacy sold map per event
+    'alert_rules',          // alert rules ("global" or event ID)
+    'alert_state',          // alert dedup state per event
+    'notification_queue',   // Discord messages waiting to be sent per channel ID
+    'api_keys',             // public API keys per SHA-256 hash of the key
+    'users',                // local users per lowercase username
+    'sessions',             // login sessions per SHA-256 hash of the session token
+    'jobs',                 // stats refresh jobs per job ID
+    'browser_state',        // browser cookies and local storage per platform (cookie consent)
+] as const;
+
+export const LOG_COLLECTIONS = [
+    'stats_history',        // stats time series per event
+    'seat_log',             // seat transitions per event
+    'event_changes',        // event list changes per organizer ID
+    'notification_deliveries', // delivery attempts per notification channel ID
+] as const;
+
+export type DocumentCollection = typeof DOCUMENT_COLLECTIONS[number];
+export type LogCollection = typeof LOG_COLLECTIONS[number];
+
+export interface StorageBackend {
+    readonly kind: StorageKind;
+
+    getDocument<T>(collection: DocumentCollection, key: string): T | null;
+    putDocument<T>(collection: DocumentCollection, key: string, value: T): void;
+    // Read-modify-write of a single document; returning null deletes it
+    updateDocument<T>(collection: DocumentCollection, key: string, update: (current: T | null) => T | null): T | null;
+    deleteDocument(collection: DocumentCollection, key: string): void;
+    listDocuments<T>(collection: DocumentCollection): Record<string, T>;
+
+    readLog<T>(collection: LogCollection, key: string): T[];
+    appendLog<T>(collection: LogCollection, key: string, entries: T[]): void;
+    hasLog(collection: LogCollection, key: string): boolean;
+    deleteLog(collection: LogCollection, key: string): void;
+    listLogKeys(collection: LogCollection): string[];
+
+    // Runs fn atomically where the backend supports it
+    transaction<T>(fn: () => T): T;
+    close(): void;
+}
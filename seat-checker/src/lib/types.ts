@@ -1,5 +1,7 @@
-// Source identifiers
-export type SourceType = 'biletyna' | 'ebilet' | 'kupbilecik';
+import type { SourceType } from './sources/meta';
+
+// Source identifiers (registry lives in sources/meta.ts)
+export type { SourceType };
 
 // Raw event scraped from a single source
 export interface RawEvent {
@@ -12,6 +14,7 @@ export interface RawEvent {
   venue: string;      // miejsce/obiekt
   eventCardUrl: string;
   buyButtonSelector: string;
+  organizerId?: string; // set by scrapeAllEvents (scrapers only know the listing URL)
 }
 
 // Source-specific data after joining
@@ -19,21 +22,19 @@ export interface SourceData {
   eventCardUrl: string;
   buyButtonSelector: string;
   venue?: string;
+  time?: string;      // HH:MM on this platform (joined listings may differ by a few minutes)
 }
 
 // Joined event from multiple sources
 export interface JoinedEvent {
   globalEventId: string;
+  organizerId: string;
   title: string;
   date: string;       // YYYY-MM-DD
   time: string;       // HH:MM
   city: string;       // miasto (normalized for matching)
   cityOriginal?: string; // miasto (original with Polish chars, for eBilet URL)
-  sources: {
-    biletyna?: SourceData;
-    ebilet?: SourceData;
-    kupbilecik?: SourceData;
-  };
+  sources: Partial<Record<SourceType, SourceData>>;
   hasCache?: boolean;
   cacheTimestamp?: number;
   isNew?: boolean;
@@ -82,11 +83,7 @@ export interface CombinedEventStats {
   globalEventId: string;
   title: string;
   date: string;
-  perSource: {
-    biletyna?: SourceStats;
-    ebilet?: SourceStats;
-    kupbilecik?: SourceStats;
-  };
+  perSource: Partial<Record<SourceType, SourceStats>>;
   combinedTotals: {
     total: number;
     free: number;
@@ -95,20 +92,54 @@ export interface CombinedEventStats {
   // Inferred sold seats from history (SeatKey -> Source)
   inferredSold?: Record<string, SourceType>;
   diff?: {
-    biletynaSold: number;
-    ebiletSold: number;
-    kupbilecikSold: number;
+    // Newly sold seats since the previous refresh, per source
+    sold: Partial<Record<SourceType, number>>;
+    // Previously sold seats free again (refunds/returns), per source now listing them
+    returned?: Partial<Record<SourceType, number>>;
     lastUpdated: string;
   };
   lastFetched?: string; // ISO timestamp of when this object was created/cached
 }
 
-// Organizer URLs configuration
-export const ORGANIZER_URLS = {
-  biletyna: 'https://biletyna.pl/event/index/?q=Wikart#list',
-  ebilet: 'https://www.ebilet.pl/organizatorzy/wikart-malgorzata-wnuk',
-  kupbilecik: 'https://wikart.kupbilecik.pl/',
-} as const;
+// Change of the event list between two refreshes
+//   added          - event appeared on the list
+//   source_removed - one platform stopped listing the event
+//   rescheduled    - date or time changed (same event ID)
+//   cancelled      - upcoming event gone from every platform
+export type EventChangeType = 'added' | 'source_removed' | 'rescheduled' | 'cancelled';
+
+export interface EventChange {
+  type: EventChangeType;
+  eventId: string;
+  title: string;
+  date: string;       // YYYY-MM-DD (current; last known for "cancelled")
+  time: string;       // HH:MM
+  city: string;
+  source?: SourceType;     // "source_removed"
+  previousDate?: string;   // "rescheduled"
+  previousTime?: string;   // "rescheduled"
+  timestamp: string;
+}
+
+// Organizer whose events are scraped and tracked separately
+export interface Organizer {
+  id: string;         // [a-z0-9-], part of storage keys and event IDs
+  name: string;
+  listingUrls: Partial<Record<SourceType, string>>;  // organizer listing page per platform
+}
+
+// The organizer the app was built for - data from before organizers existed belongs to it
+export const DEFAULT_ORGANIZER_ID = 'wikart';
+
+export const DEFAULT_ORGANIZER: Organizer = {
+  id: DEFAULT_ORGANIZER_ID,
+  name: 'Wikart',
+  listingUrls: {
+    biletyna: 'https://biletyna.pl/event/index/?q=Wikart#list',
+    ebilet: 'https://www.ebilet.pl/organizatorzy/wikart-malgorzata-wnuk',
+    kupbilecik: 'https://wikart.kupbilecik.pl/',
+  },
+};
 
 // Result of a scraping operation
 export interface ScrapeResult {
@@ -1,54 +1,39 @@
-import fs from 'fs';
-import path from 'path';
-
-const CACHE_FILE = path.join(process.cwd(), 'data', 'url_cache.json');
+import { getStorage } from './storage';
+import type { DataEndpoint } from './sources/types';
 
 interface CacheEntry {
     url: string;
     source: string;
     timestamp: number;
+    // Data requests of the scrape that found the URL, repeated by the HTTP fast path
+    endpoints?: DataEndpoint[];
 }
 
 interface UrlCache {
     [key: string]: CacheEntry;
 }
 
-// Ensure cache directory exists
-function ensureCacheDir() {
-    const dir = path.dirname(CACHE_FILE);
-    if (!fs.existsSync(dir)) {
-        fs.mkdirSync(dir, { recursive: true });
-    }
-}
-
-// Load cache from file
+// Load cache from storage
 function loadCache(): UrlCache {
     try {
-        ensureCacheDir();
-        if (fs.existsSync(CACHE_FILE)) {
-            const data = fs.readFileSync(CACHE_FILE, 'utf-8');
-            return JSON.parse(data);
-        }
+        return getStorage().listDocuments<CacheEntry>('url_cache');
     } catch (error) {
         console.warn('Failed to load URL cache:', error);
     }
     return {};
 }
 
-// Save cache to file
-function saveCache(cache: UrlCache) {
+function loadEntry(key: string): CacheEntry | null {
     try {
-        ensureCacheDir();
-        fs.writeFileSync(CACHE_FILE, JSON.stringify(cache, null, 2));
+        return getStorage().getDocument<CacheEntry>('url_cache', key);
     } catch (error) {
-        console.error('Failed to save URL cache:', error);
+        console.warn('Failed to load URL cache:', error);
     }
+    return null;
 }
 
 export function getCachedUrl(eventId: string, source: string): string | null {
-    const cache = loadCache();
-    const key = `${eventId}:${source}`;
-    const entry = cache[key];
+    const entry = loadEntry(`${eventId}:${source}`);
 
     if (entry) {
         // Optional: Add expiration logic here (e.g., 24h)
@@ -59,36 +44,38 @@ export function getCachedUrl(eventId: string, source: string): string | null {
     return null;
 }
 
-export function setCachedUrl(eventId: string, source: string, url: string) {
-    const cache = loadCache();
-    const key = `${eventId}:${source}`;
-
-    cache[key] = {
-        url,
-        source,
-        timestamp: Date.now(),
-    };
+export function getCachedEndpoints(eventId: string, source: string): DataEndpoint[] {
+    return loadEntry(`${eventId}:${source}`)?.endpoints || [];
+}
 
-    saveCache(cache);
+export function setCachedUrl(eventId: string, source: string, url: string, endpoints: DataEndpoint[] = []) {
+    try {
+        getStorage().putDocument<CacheEntry>('url_cache', `${eventId}:${source}`, {
+            url,
+            source,
+            timestamp: Date.now(),
+            endpoints: endpoints.length > 0 ? endpoints : undefined,
+        });
+    } catch (error) {
+        console.error('Failed to save URL cache:', error);
+    }
 }
 
 export function touchCachedUrl(eventId: string, source: string) {
-    const cache = loadCache();
-    const key = `${eventId}:${source}`;
-
-    if (cache[key]) {
-        cache[key].timestamp = Date.now();
-        saveCache(cache);
+    try {
+        getStorage().updateDocument<CacheEntry>('url_cache', `${eventId}:${source}`, entry =>
+            entry ? { ...entry, timestamp: Date.now() } : null
+        );
+    } catch (error) {
+        console.error('Failed to save URL cache:', error);
     }
 }
 
 export function clearCachedUrl(eventId: string, source: string) {
-    const cache = loadCache();
-    const key = `${eventId}:${source}`;
-
-    if (cache[key]) {
-        delete cache[key];
-        saveCache(cache);
+    try {
+        getStorage().deleteDocument('url_cache', `${eventId}:${source}`);
+    } catch (error) {
+        console.error('Failed to clear URL cache:', error);
     }
 }
 